@@ -1,4 +1,15 @@
-import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import { embeddingText, resolveDuplicateThreshold } from './duplicateDetection';
+import { LlmConfigurationError, LlmMessage, LlmProvider, cosineSimilarity, createLlmProvider, embedInBatches } from './llmProvider';
+import { PrdSection, condenseTestCases, estimateTokens, splitPrdSections, toCondensedTestCase } from './prdChunking';
+import {
+    DroppedRecommendation,
+    E2ETestRecommendation,
+    RECOMMENDATIONS_JSON_SCHEMA,
+    RecommendationValidationResult,
+    mergeRecommendations,
+    validateRecommendationsReply
+} from './recommendationSchema';
 
 export interface TestPlanRecommendation {
     name: string;
@@ -19,74 +30,321 @@ export interface TestPlanRecommendation {
     };
 }
 
+export interface TestPlanRecommendationResult {
+    recommendations: TestPlanRecommendation[];
+    /** Recommendations that were still invalid after the repair attempts and were left out */
+    dropped: DroppedRecommendation[];
+    /** Model calls made, including repair attempts */
+    attempts: number;
+    /** PRD sections recommendations were generated for (a single "PRD" section when it fits one prompt) */
+    sections: RecommendationSectionSummary[];
+    /** Recommendations left out because they restate an existing test case */
+    duplicates: RecommendationDuplicate[];
+    /** Whether the comparison with existing test cases ran */
+    duplicateCheck: RecommendationDuplicateCheck;
+}
+
+export interface RecommendationDuplicateCheck {
+    /** skipped when there is nothing to compare; failed when embeddings are unavailable, so nothing was left out */
+    status: 'completed' | 'skipped' | 'failed';
+    /** Existing test cases that had to be embedded for this request (the others were cached) */
+    embeddingsComputed: number;
+    error?: string;
+}
+
+export interface RecommendationDuplicate {
+    title: string;
+    similarTo: string;
+    similarity: number;
+}
+
+export interface TestPlanRecommendationOptions {
+    /** Recommendations reviewers rejected before; the model is told not to suggest them again */
+    rejected?: Array<{ title: string; reason?: string }>;
+    /** Similarity to an existing test case above which a recommendation is left out (DUPLICATE_SIMILARITY_THRESHOLD, default 0.9) */
+    duplicateThreshold?: number;
+    /**
+     * Embeddings of the existing test cases, e.g. the cached ones of the stored test cases. When it
+     * returns none, the existing test cases passed in are embedded instead.
+     */
+    existingEmbeddings?: () => Promise<{ testCases: ExistingTestCaseEmbedding[]; computed: number }>;
+}
+
+export interface ExistingTestCaseEmbedding {
+    name: string;
+    vector: number[];
+}
+
+export interface RecommendationSectionSummary {
+    title: string;
+    tokens: number;
+    recommendations: number;
+    error?: string;
+}
+
+// Tokens reserved for the reply, and for replaying a bad reply during repair
+const MAX_COMPLETION_TOKENS = 4000;
+// Instructions and headings the user prompt adds around the PRD section and test cases
+const USER_PROMPT_OVERHEAD_TOKENS = 300;
+// Share of the prompt budget existing test cases may take up, the rest is for the PRD section
+const EXISTING_TEST_CASES_SHARE = 0.4;
+// Embeddings of existing test cases kept between requests that have no stored embeddings to use
+const EXISTING_EMBEDDING_CACHE_SIZE = 5000;
+
+// Keyed by model and the sha256 of the embedded text
+const existingEmbeddingCache = new Map<string, number[]>();
+
+/**
+ * Generates test plan recommendations with the configured LLM provider (Azure OpenAI unless
+ * LLM_PROVIDER says otherwise, see llmProvider.ts)
+ */
 export class AzureOpenAIService {
-    private client: OpenAI;
-    private deploymentName: string;
+    private maxRepairAttempts: number;
+    private contextTokens: number;
     
-    constructor() {
-        const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
-        const apiKey = process.env.AZURE_OPENAI_API_KEY;
-        const deploymentName = process.env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-4';
-        const apiVersion = process.env.AZURE_OPENAI_API_VERSION || '2024-02-15-preview';
-        
-        if (!endpoint || !apiKey) {
-            throw new Error('Azure OpenAI configuration missing. Please set AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY environment variables.');
-        }
-        
-        this.client = new OpenAI({
-            apiKey,
-            baseURL: `${endpoint}/openai/deployments/${deploymentName}`,
-            defaultQuery: { 'api-version': apiVersion },
-            defaultHeaders: {
-                'api-key': apiKey,
-            }
-        });
-        this.deploymentName = deploymentName;
+    constructor(private provider: LlmProvider = createLlmProvider()) {
+        this.maxRepairAttempts = Math.max(0, parseInt(process.env.AZURE_OPENAI_MAX_REPAIR_ATTEMPTS || '2') || 0);
+        this.contextTokens = parseInt(process.env.AZURE_OPENAI_CONTEXT_TOKENS || '32000') || 32000;
+    }
+
+    /**
+     * Model or deployment the recommendations are generated with
+     */
+    get model(): string {
+        return this.provider.model;
     }
     
+    /**
+     * Generate recommendations for a PRD of any size: the PRD is split into sections that fit the
+     * deployment's context window, each section is prompted separately and the results are merged
+     */
     async generateTestPlanRecommendations(
         prd: string, 
         existingTestPlans: any[], 
-        testPlanId: string
-    ): Promise<TestPlanRecommendation[]> {
+        testPlanId: string,
+        options: TestPlanRecommendationOptions = {}
+    ): Promise<TestPlanRecommendationResult> {
         try {
             const systemPrompt = this.buildSystemPrompt();
-            const userPrompt = this.buildUserPrompt(prd, existingTestPlans, testPlanId);
-            
-            const response = await this.client.chat.completions.create({
-                model: this.deploymentName, // For Azure OpenAI, this is the deployment name
-                messages: [
-                    {
-                        role: 'system',
-                        content: systemPrompt
-                    },
-                    {
-                        role: 'user',
-                        content: userPrompt
+            const rejectedText = this.buildRejectedText(options.rejected || []);
+            const promptBudget = this.contextTokens
+                - estimateTokens(systemPrompt)
+                - estimateTokens(rejectedText)
+                - 2 * MAX_COMPLETION_TOKENS
+                - USER_PROMPT_OVERHEAD_TOKENS;
+            if (promptBudget <= 0) {
+                throw new Error(`AZURE_OPENAI_CONTEXT_TOKENS (${this.contextTokens}) is too small for the prompt and reply`);
+            }
+
+            const existingTestCases = condenseTestCases(existingTestPlans, Math.floor(promptBudget * EXISTING_TEST_CASES_SHARE));
+            const sections = splitPrdSections(prd, promptBudget - estimateTokens(existingTestCases));
+            console.log(`🧩 Generating recommendations for ${sections.length} PRD section(s)`);
+
+            const generated: E2ETestRecommendation[] = [];
+            const dropped: DroppedRecommendation[] = [];
+            const summaries: RecommendationSectionSummary[] = [];
+            let attempts = 0;
+
+            for (const [index, section] of sections.entries()) {
+                try {
+                    const userPrompt = this.buildUserPrompt(section, index, sections.length, existingTestCases, rejectedText, testPlanId);
+                    const result = await this.generateForPrompt(systemPrompt, userPrompt);
+
+                    generated.push(...result.recommendations);
+                    dropped.push(...result.dropped.map(entry => sections.length > 1 ? { ...entry, section: section.title } : entry));
+                    attempts += result.attempts;
+                    summaries.push({ title: section.title, tokens: section.tokens, recommendations: result.recommendations.length });
+                } catch (error) {
+                    // One failed section shouldn't lose the recommendations of the others
+                    if (sections.length === 1) {
+                        throw error;
                     }
-                ],
-                temperature: 0.7,
-                max_tokens: 4000,
-                top_p: 0.9,
-                frequency_penalty: 0,
-                presence_penalty: 0
-            });
-            
-            const content = response.choices[0]?.message?.content;
-            if (!content) {
-                throw new Error('No response content received from Azure OpenAI');
+                    console.warn(`⚠️ Could not generate recommendations for PRD section "${section.title}":`, error);
+                    summaries.push({
+                        title: section.title,
+                        tokens: section.tokens,
+                        recommendations: 0,
+                        error: error instanceof Error ? error.message : 'Unknown error'
+                    });
+                }
             }
-            
-            // Parse the JSON response
-            const recommendations = this.parseRecommendations(content);
-            return recommendations;
+
+            if (summaries.length > 0 && summaries.every(summary => summary.error)) {
+                throw new Error(summaries[0].error);
+            }
+
+            const merged = mergeRecommendations(generated);
+            if (merged.length < generated.length) {
+                console.log(`🔗 Merged ${generated.length - merged.length} duplicate recommendation(s) across PRD sections`);
+            }
+
+            const { kept, duplicates, duplicateCheck } = await this.filterExistingDuplicates(
+                merged,
+                existingTestPlans,
+                options.duplicateThreshold ?? resolveDuplicateThreshold(),
+                options.existingEmbeddings
+            );
+
+            return {
+                recommendations: kept.map(test => this.toRecommendation(test)),
+                dropped,
+                attempts,
+                sections: summaries,
+                duplicates,
+                duplicateCheck
+            };
             
         } catch (error) {
             console.error('Error generating test plan recommendations:', error);
+            if (error instanceof LlmConfigurationError) {
+                throw error;
+            }
             throw new Error(`Failed to generate recommendations: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
-    
+
+    /**
+     * Prompt the model and validate its reply. Invalid replies are sent back with the validation
+     * errors, up to maxRepairAttempts times; only the latest reply is replayed to keep the prompt size bounded.
+     */
+    private async generateForPrompt(systemPrompt: string, userPrompt: string): Promise<{
+        recommendations: E2ETestRecommendation[];
+        dropped: DroppedRecommendation[];
+        attempts: number;
+    }> {
+        const prompt: LlmMessage[] = [
+            {
+                role: 'system',
+                content: systemPrompt
+            },
+            {
+                role: 'user',
+                content: userPrompt
+            }
+        ];
+
+        let messages = prompt;
+        let best: RecommendationValidationResult | undefined;
+        let attempts = 0;
+        while (true) {
+            attempts++;
+            const { content, truncated } = await this.provider.structuredOutput(messages, RECOMMENDATIONS_JSON_SCHEMA, {
+                temperature: 0.7,
+                maxTokens: MAX_COMPLETION_TOKENS,
+                topP: 0.9
+            });
+            const validation = validateRecommendationsReply(content);
+            if (truncated && validation.errors.length > 0) {
+                validation.errors.push('The reply was cut off at the token limit, return fewer or shorter recommendations');
+            }
+
+            if (!best || validation.recommendations.length >= best.recommendations.length) {
+                best = validation;
+            }
+
+            const problems = this.describeProblems(validation);
+            if (problems.length === 0 || attempts > this.maxRepairAttempts) {
+                break;
+            }
+
+            console.warn(`⚠️ Recommendations reply has ${problems.length} problem(s), asking the model to repair it (attempt ${attempts + 1})`);
+            messages = [
+                ...prompt,
+                { role: 'assistant', content },
+                { role: 'user', content: this.buildRepairPrompt(problems) }
+            ];
+        }
+
+        if (best.recommendations.length === 0 && this.describeProblems(best).length > 0) {
+            throw new Error(`Failed to parse recommendations: ${this.describeProblems(best).join('; ')}`);
+        }
+        if (best.dropped.length > 0) {
+            console.warn(`⚠️ Dropped ${best.dropped.length} invalid recommendation(s) after ${attempts} attempt(s)`);
+        }
+
+        return { recommendations: best.recommendations, dropped: best.dropped, attempts };
+    }
+
+    /**
+     * Leave out recommendations whose embedding is too close to an existing test case. Embeddings are
+     * optional (Azure needs AZURE_OPENAI_EMBEDDING_DEPLOYMENT); when they fail nothing is filtered and
+     * the check is reported as failed.
+     */
+    private async filterExistingDuplicates(
+        tests: E2ETestRecommendation[],
+        existingTestCases: any[],
+        threshold: number,
+        existingEmbeddings?: TestPlanRecommendationOptions['existingEmbeddings']
+    ): Promise<{ kept: E2ETestRecommendation[]; duplicates: RecommendationDuplicate[]; duplicateCheck: RecommendationDuplicateCheck }> {
+        if (tests.length === 0 || threshold <= 0 || (existingTestCases.length === 0 && !existingEmbeddings)) {
+            return { kept: tests, duplicates: [], duplicateCheck: { status: 'skipped', embeddingsComputed: 0 } };
+        }
+
+        let testVectors: number[][];
+        let existing: { testCases: ExistingTestCaseEmbedding[]; computed: number };
+        try {
+            testVectors = await embedInBatches(this.provider, tests.map(test => embeddingText(test.title, test.steps)));
+            const stored = existingEmbeddings ? await existingEmbeddings() : undefined;
+            existing = stored && stored.testCases.length > 0 ? stored : await this.embedExistingTestCases(existingTestCases);
+        } catch (error) {
+            console.warn('⚠️ Could not embed recommendations, skipping the duplicate check against existing test cases:', error);
+            return {
+                kept: tests,
+                duplicates: [],
+                duplicateCheck: { status: 'failed', embeddingsComputed: 0, error: error instanceof Error ? error.message : 'Unknown error' }
+            };
+        }
+
+        const kept: E2ETestRecommendation[] = [];
+        const duplicates: RecommendationDuplicate[] = [];
+        tests.forEach((test, index) => {
+            let closest = { title: '', similarity: 0 };
+            for (const testCase of existing.testCases) {
+                const similarity = cosineSimilarity(testVectors[index], testCase.vector);
+                if (similarity > closest.similarity) {
+                    closest = { title: testCase.name, similarity };
+                }
+            }
+
+            if (closest.similarity >= threshold) {
+                duplicates.push({ title: test.title, similarTo: closest.title, similarity: Math.round(closest.similarity * 1000) / 1000 });
+            } else {
+                kept.push(test);
+            }
+        });
+
+        if (duplicates.length > 0) {
+            console.log(`🔁 Left out ${duplicates.length} recommendation(s) that restate existing test cases`);
+        }
+        return { kept, duplicates, duplicateCheck: { status: 'completed', embeddingsComputed: existing.computed } };
+    }
+
+    /**
+     * Embed existing test cases that were not embedded by an earlier request with the same model and text
+     */
+    private async embedExistingTestCases(existingTestCases: any[]): Promise<{ testCases: ExistingTestCaseEmbedding[]; computed: number }> {
+        const entries = existingTestCases.map(toCondensedTestCase).map(testCase => {
+            const text = embeddingText(testCase.title, testCase.steps);
+            return { name: testCase.title, text, key: `${this.provider.model}:${createHash('sha256').update(text).digest('hex')}` };
+        });
+
+        const missing = [...new Map(entries.filter(entry => !existingEmbeddingCache.has(entry.key)).map(entry => [entry.key, entry])).values()];
+        const vectors = await embedInBatches(this.provider, missing.map(entry => entry.text));
+        missing.forEach((entry, index) => existingEmbeddingCache.set(entry.key, vectors[index]));
+
+        const testCases = entries.map(entry => ({ name: entry.name, vector: existingEmbeddingCache.get(entry.key)! }));
+
+        // Evict the oldest entries; Map iterates in insertion order
+        for (const key of existingEmbeddingCache.keys()) {
+            if (existingEmbeddingCache.size <= EXISTING_EMBEDDING_CACHE_SIZE) {
+                break;
+            }
+            existingEmbeddingCache.delete(key);
+        }
+
+        return { testCases, computed: missing.length };
+    }
+
     private buildSystemPrompt(): string {
         return `You are an intelligent QA assistant tasked with analyzing two inputs:
 A Product Requirements Document (PRD) – this contains detailed functional and non-functional requirements for a product or feature.
@@ -122,71 +380,79 @@ Return your findings in the following JSON format:
 }`;
     }
     
-    private buildUserPrompt(prd: string, existingTestPlans: any[], testPlanId: string): string {
-        const existingPlansText = existingTestPlans.length > 0 
-            ? `Here are the existing test plans and test cases for Test Plan ID ${testPlanId}:\n${JSON.stringify(existingTestPlans, null, 2)}\n\n`
+    private buildUserPrompt(
+        section: PrdSection,
+        index: number,
+        sectionCount: number,
+        existingTestCases: string,
+        rejectedText: string,
+        testPlanId: string
+    ): string {
+        const existingPlansText = existingTestCases
+            ? `Here are the existing test cases (titles and steps) for Test Plan ID ${testPlanId}:\n${existingTestCases}\n\n`
             : 'No existing test plans provided.\n\n';
+
+        const prdText = sectionCount > 1
+            ? `Product Requirements Document (PRD), section ${index + 1} of ${sectionCount}: ${section.title}
+Only recommend tests for the requirements in this section; the other sections are handled separately.
+${section.content}`
+            : `Product Requirements Document (PRD):
+${section.content}`;
             
-        return `${existingPlansText}Product Requirements Document (PRD):
-${prd}
+        return `${existingPlansText}${rejectedText}${prdText}
 
 Please analyze the PRD and existing test plans to identify missing end-to-end test scenarios. Focus on critical user journeys and business workflows that are not covered by the existing tests.`;
     }
     
-    private parseRecommendations(content: string): TestPlanRecommendation[] {
-        try {
-            // Clean the content - remove markdown code blocks if present
-            const cleanContent = content
-                .replace(/```json\s*\n?/g, '')
-                .replace(/```\s*\n?/g, '')
-                .trim();
-            
-            const parsed = JSON.parse(cleanContent);
-            
-            // Handle new format with recommended_e2e_tests
-            let e2eTests: any[] = [];
-            
-            if (parsed.recommended_e2e_tests && Array.isArray(parsed.recommended_e2e_tests)) {
-                e2eTests = parsed.recommended_e2e_tests;
-            } else if (Array.isArray(parsed)) {
-                // Fallback for old format
-                return parsed as TestPlanRecommendation[];
-            } else {
-                throw new Error('Response must contain recommended_e2e_tests array or be an array of test plan recommendations');
-            }
-            
-            // Convert new format to TestPlanRecommendation format
-            const recommendations: TestPlanRecommendation[] = e2eTests.map((test, index) => {
-                if (!test.title || !test.reason || !Array.isArray(test.steps)) {
-                    throw new Error(`Invalid E2E test structure at index ${index}`);
-                }
-                
-                return {
-                    name: test.title,
-                    description: test.reason,
-                    objective: `Ensure ${test.title.toLowerCase()} works correctly as described in ${test.prd_reference || 'PRD'}`,
-                    testCases: [{
-                        title: test.title,
-                        description: test.reason,
-                        steps: test.steps,
-                        expectedResult: "All steps complete successfully and the workflow functions as expected",
-                        priority: 'High' as const,
-                        testType: 'Functional' as const
-                    }],
-                    coverage: {
-                        functionalAreas: [test.title.split(' ').slice(0, 2).join(' ')],
-                        riskAreas: ["User workflow", "Business process"],
-                        userScenarios: [test.title]
-                    }
-                };
-            });
-            
-            return recommendations;
-            
-        } catch (error) {
-            console.error('Error parsing recommendations:', error);
-            console.error('Content received:', content);
-            throw new Error(`Failed to parse recommendations: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    /**
+     * List of rejected recommendations for the user prompt (empty when there are none)
+     */
+    private buildRejectedText(rejected: Array<{ title: string; reason?: string }>): string {
+        if (rejected.length === 0) {
+            return '';
         }
+
+        return `Reviewers rejected these recommendations before. Do not recommend them (or the same scenario under another title) again:
+${rejected.map(item => `- ${item.title}${item.reason ? ` (rejected: ${item.reason})` : ''}`).join('\n')}
+
+`;
+    }
+
+    private buildRepairPrompt(problems: string[]): string {
+        return `Your previous reply did not match the required JSON format:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Return the complete corrected JSON object with the "recommended_e2e_tests" array. Fix the listed problems and keep the valid recommendations unchanged.`;
+    }
+
+    private describeProblems(validation: RecommendationValidationResult): string[] {
+        return [
+            ...validation.errors,
+            ...validation.dropped.map(dropped => `recommended_e2e_tests[${dropped.index}]: ${dropped.errors.join(', ')}`)
+        ];
+    }
+
+    /**
+     * Convert a validated E2E test into the TestPlanRecommendation format returned by the API
+     */
+    private toRecommendation(test: E2ETestRecommendation): TestPlanRecommendation {
+        return {
+            name: test.title,
+            description: test.reason,
+            objective: `Ensure ${test.title.toLowerCase()} works correctly as described in ${test.prd_reference || 'PRD'}`,
+            testCases: [{
+                title: test.title,
+                description: test.reason,
+                steps: test.steps,
+                expectedResult: "All steps complete successfully and the workflow functions as expected",
+                priority: 'High' as const,
+                testType: 'Functional' as const
+            }],
+            coverage: {
+                functionalAreas: [test.title.split(' ').slice(0, 2).join(' ')],
+                riskAreas: ["User workflow", "Business process"],
+                userScenarios: [test.title]
+            }
+        };
     }
 }
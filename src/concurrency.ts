@@ -0,0 +1,29 @@
+/**
+ * Call fn for every item with at most `limit` calls in flight. Results are in the order of the items;
+ * the first rejection rejects the whole call, so let fn catch errors that should not stop the others.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const workers = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    });
+
+    await Promise.all(workers);
+    return results;
+}
+
+/**
+ * Split items into consecutive chunks of at most size items
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let start = 0; start < items.length; start += size) {
+        chunks.push(items.slice(start, start + size));
+    }
+    return chunks;
+}
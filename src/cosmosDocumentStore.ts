@@ -0,0 +1,194 @@
+import { CosmosClient, Database, Container, SqlParameter, PatchOperation, RequestOptions } from '@azure/cosmos';
+import { ConcurrencyConflictError, DocumentStore, DocumentFilter, StorageBackendKind, StoredDocument, WriteOptions } from './documentStore';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+// Operations Cosmos DB accepts in one patch request
+const MAX_PATCH_OPERATIONS = 10;
+// Read-merge-replace attempts for patches without a caller ETag
+const MAX_PATCH_ATTEMPTS = 3;
+
+/**
+ * Document store backed by Azure Cosmos DB. Every container is partitioned by /resourceId.
+ */
+export class CosmosDocumentStore implements DocumentStore {
+    readonly kind: StorageBackendKind = 'cosmos';
+    private client: CosmosClient;
+    private databaseId: string;
+    private database: Database;
+    private containers: Map<string, Container> = new Map();
+
+    constructor() {
+        const endpoint = process.env.COSMOS_DB_ENDPOINT;
+        const key = process.env.COSMOS_DB_KEY;
+
+        if (!endpoint || !key) {
+            throw new Error('COSMOS_DB_ENDPOINT and COSMOS_DB_KEY must be set in environment variables');
+        }
+
+        this.client = new CosmosClient({ endpoint, key });
+        this.databaseId = process.env.COSMOS_DB_DATABASE || 'testagentcosmosdb';
+        this.database = this.client.database(this.databaseId);
+    }
+
+    async initialize(containers: string[]): Promise<void> {
+        // Create database if it doesn't exist
+        const { database } = await this.client.databases.createIfNotExists({
+            id: this.databaseId
+        });
+
+        // Create containers if they don't exist
+        for (const name of containers) {
+            await database.containers.createIfNotExists({
+                id: name,
+                partitionKey: '/resourceId'
+            });
+            this.containers.set(name, this.database.container(name));
+        }
+    }
+
+    async upsert<T>(container: string, document: StoredDocument, options?: WriteOptions): Promise<T> {
+        if (options?.ifMatch) {
+            return this.replace<T>(container, document.id, document.resourceId, document, options);
+        }
+
+        const { resource } = await this.getContainer(container).items.upsert(document);
+        return resource as unknown as T;
+    }
+
+    async read<T>(container: string, id: string, partitionKey: string): Promise<T | null> {
+        try {
+            const { resource } = await this.getContainer(container).item(id, partitionKey).read();
+            return resource ? resource as unknown as T : null;
+        } catch (error: any) {
+            if (error.code === 404) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async replace<T>(container: string, id: string, partitionKey: string, document: StoredDocument, options?: WriteOptions): Promise<T> {
+        try {
+            const { resource } = await this.getContainer(container).item(id, partitionKey).replace(document, this.toRequestOptions(options));
+            return resource as unknown as T;
+        } catch (error: any) {
+            throw this.toConflictError(error, container, id, options);
+        }
+    }
+
+    async query<T>(container: string, partitionKey: string | undefined, filter?: DocumentFilter): Promise<T[]> {
+        const conditions: string[] = [];
+        const parameters: SqlParameter[] = [];
+
+        if (partitionKey !== undefined) {
+            conditions.push('c.resourceId = @resourceId');
+            parameters.push({
+                name: '@resourceId',
+                value: partitionKey
+            });
+        }
+
+        Object.entries(filter || {}).forEach(([field, value], index) => {
+            conditions.push(`c["${field}"] = @p${index}`);
+            parameters.push({ name: `@p${index}`, value });
+        });
+
+        const querySpec = {
+            query: conditions.length > 0 ? `SELECT * FROM c WHERE ${conditions.join(' AND ')}` : 'SELECT * FROM c',
+            parameters
+        };
+
+        const { resources } = await this.getContainer(container).items.query<T>(querySpec, partitionKey !== undefined ? { partitionKey } : {}).fetchAll();
+        return resources;
+    }
+
+    async patch<T>(container: string, id: string, partitionKey: string, fields: Record<string, any>, options?: WriteOptions): Promise<T> {
+        const entries = Object.entries(fields);
+
+        // A single patch request is atomic and carries the precondition, but Cosmos DB accepts at most
+        // 10 operations per request, and removing a field that is not set fails the whole request
+        if (entries.length <= MAX_PATCH_OPERATIONS && entries.every(([, value]) => value !== undefined)) {
+            const operations: PatchOperation[] = entries.map(([field, value]) => ({ op: 'set', path: `/${field}`, value }));
+            try {
+                const { resource } = await this.getContainer(container).item(id, partitionKey).patch(operations, this.toRequestOptions(options));
+                return resource as unknown as T;
+            } catch (error: any) {
+                throw this.toConflictError(error, container, id, options);
+            }
+        }
+
+        return this.patchByReplace<T>(container, id, partitionKey, fields, options);
+    }
+
+    async delete(container: string, id: string, partitionKey: string): Promise<void> {
+        try {
+            await this.getContainer(container).item(id, partitionKey).delete();
+        } catch (error: any) {
+            if (error.code !== 404) {
+                throw error;
+            }
+        }
+    }
+
+    async healthCheck(): Promise<boolean> {
+        // Simple read operation to check connectivity
+        await this.database.read();
+        return true;
+    }
+
+    /**
+     * Read, merge and replace the document, guarded by the ETag that was read. Fields set to undefined are
+     * removed, as in the other stores. Without an ifMatch from the caller, a concurrent write is retried.
+     */
+    private async patchByReplace<T>(container: string, id: string, partitionKey: string, fields: Record<string, any>, options?: WriteOptions): Promise<T> {
+        for (let attempt = 1; ; attempt++) {
+            const existing = await this.read<StoredDocument>(container, id, partitionKey);
+            if (!existing) {
+                if (options?.ifMatch) {
+                    throw new ConcurrencyConflictError(container, id, options.ifMatch);
+                }
+                throw Object.assign(new Error(`Document ${id} not found in ${container}`), { code: 404 });
+            }
+            if (options?.ifMatch && existing._etag !== options.ifMatch) {
+                throw new ConcurrencyConflictError(container, id, options.ifMatch);
+            }
+
+            const document: StoredDocument = { ...existing, ...fields };
+            Object.keys(fields).filter(field => fields[field] === undefined).forEach(field => delete document[field]);
+
+            try {
+                return await this.replace<T>(container, id, partitionKey, document, { ifMatch: existing._etag });
+            } catch (error) {
+                if (!(error instanceof ConcurrencyConflictError) || options?.ifMatch || attempt >= MAX_PATCH_ATTEMPTS) {
+                    throw error;
+                }
+            }
+        }
+    }
+
+    private toRequestOptions(options?: WriteOptions): RequestOptions | undefined {
+        return options?.ifMatch
+            ? { accessCondition: { type: 'IfMatch', condition: options.ifMatch } }
+            : undefined;
+    }
+
+    /**
+     * Map Cosmos precondition failures (412), and missing documents on conditional writes, to ConcurrencyConflictError
+     */
+    private toConflictError(error: any, container: string, id: string, options?: WriteOptions): any {
+        if (error.code === 412 || (options?.ifMatch && error.code === 404)) {
+            return new ConcurrencyConflictError(container, id, options?.ifMatch);
+        }
+        return error;
+    }
+
+    private getContainer(name: string): Container {
+        const container = this.containers.get(name);
+        if (!container) {
+            throw new Error(`Cosmos container "${name}" has not been initialized`);
+        }
+        return container;
+    }
+}
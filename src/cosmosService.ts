@@ -1,4 +1,9 @@
-import { CosmosClient, Database, Container } from '@azure/cosmos';
+import { ConcurrencyConflictError, DocumentStore, StorageBackendKind, createDocumentStore } from './documentStore';
+import { TestReportFormat, TestResultOutcome } from './testReportParsers';
+import { TestPlanRecommendation } from './AzureOpenAIService';
+import { DroppedRecommendation } from './recommendationSchema';
+import { TestCaseParameters } from './testParameters';
+export { ConcurrencyConflictError } from './documentStore';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -11,9 +16,22 @@ export interface Connection {
     prd: string;
     ado_url: string;
     website_url: string;
+    issue_policy?: IssueFilingPolicy;
+    _etag?: string;
     _ts?: number;
 }
 
+/**
+ * Per-connection policy for filing GitHub issues automatically when ingested results fail
+ */
+export interface IssueFilingPolicy {
+    enabled: boolean;
+    labels?: string[];
+    assignees?: string[];
+    // Consecutive failed results a test case needs before an issue is filed (default 1)
+    failureThreshold?: number;
+}
+
 export interface TestCase {
     testCaseId?: string; // Add testCaseId field
     name: string;
@@ -32,6 +50,46 @@ export interface TestCase {
     githubIssueNumber?: number;
     githubIssueId?: number;
     errorDetails?: string;
+    lastResult?: TestCaseRunResult;
+    consecutiveFailures?: number;
+    // Mirrored from the linked GitHub issue by the issue state reconciler
+    githubIssueState?: string;
+    githubAssignees?: string[];
+    githubLabels?: string[];
+    githubLinkedPullRequests?: Array<{ number: number; url: string; state: string; merged: boolean }>;
+    githubSyncedAt?: string;
+    // Set from GitHub webhooks: the pull request that says it fixes the issue, and the latest comment
+    githubFixPullRequest?: { number: number; url: string; state: string; merged: boolean; author?: string };
+    githubLastComment?: { author: string; url: string; createdAt: string };
+    // PRD requirements (section numbers such as "2.2.1") the test case covers, see traceability.ts
+    requirementIds?: string[];
+    // ADO work item revision the stored fields were read from
+    revision?: number;
+    // Parameter names and data rows of a data-driven test case; each row is one iteration
+    parameters?: TestCaseParameters;
+}
+
+/**
+ * Latest automated result recorded for a test case from an ingested report
+ */
+export interface TestCaseRunResult {
+    reportId: string;
+    format: TestReportFormat;
+    title: string;
+    outcome: TestResultOutcome;
+    durationMs: number;
+    errorMessage?: string;
+    attachments: string[];
+    recordedAt: string;
+    /** Per data row results of a parameterized test case; outcome is the most severe of them */
+    iterations?: TestIterationResult[];
+}
+
+export interface TestIterationResult {
+    iteration: number;
+    outcome: TestResultOutcome;
+    durationMs: number;
+    errorMessage?: string;
 }
 
 export interface TestSuite {
@@ -40,9 +98,246 @@ export interface TestSuite {
     name: string;
     testCaseId: string;
     testCases: TestCase[];
+    /** Number of test case documents of the suite; the stored suite document keeps testCases empty */
+    testCaseCount?: number;
+    _etag?: string;
+    _ts?: number;
+}
+
+/**
+ * A test case stored as its own document in the testCases container.
+ * suiteId is the owning TestSuite.testCaseId (e.g. "<planId>-<suiteId>").
+ */
+export interface TestCaseDocument extends TestCase {
+    id?: string;
+    resourceId: string;
+    suiteId: string;
+    testCaseId: string;
+    order: number;
+    _etag?: string;
+    _ts?: number;
+}
+
+export type SyncJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * full re-downloads every test case; delta only fetches what changed since the last sync watermark
+ */
+export type SyncMode = 'full' | 'delta';
+
+/**
+ * What a delta sync changed in storage
+ */
+export interface DeltaSyncSummary {
+    testCasesAdded: number;
+    testCasesUpdated: number;
+    testCasesRemoved: number;
+    testCasesUnchanged: number;
+    suitesAdded: number;
+    suitesUpdated: number;
+    suitesRemoved: number;
+    suitesSkipped: number;
+    plansChanged: number;
+}
+
+export interface SyncJobFailure {
+    planId?: number;
+    planName?: string;
+    message: string;
+    timestamp: string;
+}
+
+/**
+ * Background ADO -> storage ingestion job, persisted so it survives restarts
+ */
+export interface SyncJob {
+    id?: string;
+    resourceId: string;
+    jobId: string;
+    mode: SyncMode;
+    status: SyncJobStatus;
+    createdAt: string;
+    startedAt?: string;
+    completedAt?: string;
+    progress: {
+        plansTotal: number;
+        plansProcessed: number;
+        suitesProcessed: number;
+        testCasesProcessed: number;
+        completedPlanIds: number[];
+        failures: SyncJobFailure[];
+    };
+    result?: {
+        plans: number;
+        suites: number;
+        testCases: number;
+        delta?: DeltaSyncSummary;
+    };
+    error?: string;
+    resumeCount?: number;
+    _etag?: string;
+    _ts?: number;
+}
+
+/**
+ * Per-resource delta sync watermark: the time of the last successful sync and the
+ * plan/suite revisions seen at that point (keyed by planId and "<planId>-<suiteId>")
+ */
+export interface SyncWatermark {
+    id?: string;
+    resourceId: string;
+    lastSyncedAt: string;
+    planRevisions: Record<string, number>;
+    suiteRevisions: Record<string, number>;
+    _etag?: string;
+    _ts?: number;
+}
+
+/**
+ * What automatic issue filing did for one failed test case of a report
+ */
+export interface AutoFiledIssue {
+    testCaseId: string;
+    action: 'created' | 'commented' | 'skipped' | 'failed';
+    issueNumber?: number;
+    url?: string;
+    reason?: string;
+}
+
+export type TestResultMatchKind = 'annotation' | 'tag' | 'title';
+
+/**
+ * An ingested test report (Playwright JSON or JUnit XML) and how its results mapped onto stored test cases
+ */
+export interface TestResultReport {
+    id?: string;
+    resourceId: string;
+    reportId: string;
+    format: TestReportFormat;
+    receivedAt: string;
+    summary: {
+        total: number;
+        passed: number;
+        failed: number;
+        skipped: number;
+        matched: number;
+        unmatched: number;
+    };
+    matched: Array<{
+        testCaseId: string;
+        suiteId: string;
+        title: string;
+        outcome: TestResultOutcome;
+        durationMs: number;
+        errorMessage?: string;
+        attachments: string[];
+        matchedBy: TestResultMatchKind;
+        iterations?: TestIterationResult[];
+    }>;
+    unmatched: Array<{
+        title: string;
+        outcome: TestResultOutcome;
+        errorMessage?: string;
+    }>;
+    adoRunIds?: number[];
+    adoError?: string;
+    issues?: AutoFiledIssue[];
+    issueError?: string;
+    _etag?: string;
+    _ts?: number;
+}
+
+/**
+ * Outcome of the last GitHub issue state reconciliation of a resource
+ */
+export interface IssueSyncState {
+    id?: string;
+    resourceId: string;
+    lastSyncedAt: string;
+    issuesChecked: number;
+    testCasesUpdated: number;
+    errors: Array<{ issueNumber: number; message: string }>;
+    _etag?: string;
+    _ts?: number;
+}
+
+/**
+ * A received GitHub webhook delivery, kept so it can be inspected and replayed
+ */
+export interface WebhookDelivery {
+    id?: string;
+    resourceId: string;
+    deliveryId: string;
+    event: string;
+    action?: string;
+    receivedAt: string;
+    payload: any;
+    testCasesUpdated: number;
+    error?: string;
+    _etag?: string;
+    _ts?: number;
+}
+
+/**
+ * Cached embedding of a test case's title and steps. It is recomputed when the ADO revision,
+ * the embedded text or the embedding model changes.
+ */
+export interface TestCaseEmbedding {
+    id?: string;
+    resourceId: string;
+    testCaseId: string;
+    model: string;
+    revision?: number;
+    /** sha256 of the embedded text */
+    contentHash: string;
+    vector: number[];
+    updatedAt: string;
+    _etag?: string;
+    _ts?: number;
+}
+
+export type RecommendationState = 'proposed' | 'accepted' | 'rejected' | 'applied';
+
+/**
+ * A generated recommendation and where it is in the review workflow
+ */
+export interface ReviewedRecommendation {
+    /** Unique within its run */
+    id: string;
+    state: RecommendationState;
+    recommendation: TestPlanRecommendation;
+    rejectionReason?: string;
+    reviewedBy?: string;
+    reviewedAt?: string;
+    // Set once the recommendation has been created in ADO
+    adoWorkItemIds?: number[];
+    adoSuiteId?: number;
+    appliedAt?: string;
+}
+
+/**
+ * One call to the recommendations endpoint, kept so the suggestions can be reviewed later
+ */
+export interface RecommendationRun {
+    id?: string;
+    resourceId: string;
+    runId: string;
+    planId: string;
+    /** sha256 of the PRD the recommendations were generated from */
+    prdHash: string;
+    model: string;
+    createdAt: string;
+    recommendations: ReviewedRecommendation[];
+    dropped: DroppedRecommendation[];
+    _etag?: string;
     _ts?: number;
 }
 
+export interface TestCaseMigrationResult {
+    suitesMigrated: number;
+    testCasesMigrated: number;
+}
+
 export interface TestPlan {
     id?: string;
     resourceId: string;
@@ -54,241 +349,723 @@ export interface TestPlan {
     areaPath?: string;
     startDate?: Date;
     endDate?: Date;
+    _etag?: string;
     _ts?: number;
 }
 
-export class CosmosService {
-    private client: CosmosClient;
-    private database: Database;
-    private connectionsContainer: Container;
-    private testSuitesContainer: Container;
-    private testPlansContainer: Container;
-    private isInitialized: boolean = false;
+/**
+ * Storage operations used by the API server, independent of the backing store
+ */
+export interface TestPlanStorage {
+    readonly backend: StorageBackendKind;
+    initialize(): Promise<void>;
+    saveConnection(connection: Connection, ifMatch?: string): Promise<Connection>;
+    getConnection(resourceId: string): Promise<Connection | null>;
+    getConnections(): Promise<Connection[]>;
+    deleteConnection(resourceId: string): Promise<void>;
+    saveTestSuites(resourceId: string, suites: TestSuite[]): Promise<TestSuite[]>;
+    getTestSuites(resourceId: string): Promise<TestSuite[]>;
+    getTestSuite(resourceId: string, testCaseId: string): Promise<TestSuite | null>;
+    updateTestSuite(resourceId: string, testCaseId: string, updates: Partial<TestSuite>, ifMatch?: string): Promise<TestSuite | null>;
+    deleteTestSuite(resourceId: string, testCaseId: string): Promise<void>;
+    deleteTestSuites(resourceId: string): Promise<void>;
+    getTestCases(resourceId: string, suiteId?: string): Promise<TestCaseDocument[]>;
+    findTestCases(resourceId: string, testCaseId: string): Promise<TestCaseDocument[]>;
+    getTestCase(resourceId: string, suiteId: string, testCaseId: string): Promise<TestCaseDocument | null>;
+    findLinkedTestCases(filter: { githubIssueId?: number; githubUrl?: string }): Promise<TestCaseDocument[]>;
+    patchTestCase(resourceId: string, suiteId: string, testCaseId: string, updates: Partial<TestCase>, ifMatch?: string): Promise<TestCaseDocument | null>;
+    migrateEmbeddedTestCases(resourceId?: string): Promise<TestCaseMigrationResult>;
+    saveSyncJob(job: SyncJob): Promise<SyncJob>;
+    getSyncJob(resourceId: string, jobId: string): Promise<SyncJob | null>;
+    getSyncJobs(resourceId?: string, status?: SyncJobStatus): Promise<SyncJob[]>;
+    saveTestResultReport(report: TestResultReport): Promise<TestResultReport>;
+    getTestResultReport(resourceId: string, reportId: string): Promise<TestResultReport | null>;
+    getTestResultReports(resourceId: string): Promise<TestResultReport[]>;
+    saveWebhookDelivery(delivery: Omit<WebhookDelivery, 'resourceId'>): Promise<WebhookDelivery>;
+    getWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | null>;
+    getWebhookDeliveries(): Promise<WebhookDelivery[]>;
+    saveTestCaseEmbedding(embedding: TestCaseEmbedding): Promise<TestCaseEmbedding>;
+    getTestCaseEmbeddings(resourceId: string): Promise<TestCaseEmbedding[]>;
+    deleteTestCaseEmbedding(resourceId: string, testCaseId: string): Promise<void>;
+    saveRecommendationRun(run: RecommendationRun): Promise<RecommendationRun>;
+    getRecommendationRun(resourceId: string, runId: string): Promise<RecommendationRun | null>;
+    getRecommendationRuns(resourceId: string, planId?: string): Promise<RecommendationRun[]>;
+    getIssueSyncState(resourceId: string): Promise<IssueSyncState | null>;
+    saveIssueSyncState(state: IssueSyncState): Promise<IssueSyncState>;
+    getSyncWatermark(resourceId: string): Promise<SyncWatermark | null>;
+    saveSyncWatermark(watermark: SyncWatermark): Promise<SyncWatermark>;
+    saveTestPlans(resourceId: string, testPlans: any[]): Promise<TestPlan[]>;
+    getTestPlans(resourceId: string): Promise<TestPlan[]>;
+    getTestPlan(resourceId: string, planId: number): Promise<TestPlan | null>;
+    updateTestPlan(resourceId: string, planId: number, updates: Partial<TestPlan>, ifMatch?: string): Promise<TestPlan | null>;
+    deleteTestPlans(resourceId: string): Promise<void>;
+    healthCheck(): Promise<boolean>;
+}
 
-    constructor() {
-        const endpoint = process.env.COSMOS_DB_ENDPOINT;
-        const key = process.env.COSMOS_DB_KEY;
+const CONNECTIONS_CONTAINER = 'connections';
+const TEST_SUITES_CONTAINER = 'testSuites';
+const TEST_CASES_CONTAINER = 'testCases';
+const TEST_PLANS_CONTAINER = 'testPlans';
+const SYNC_JOBS_CONTAINER = 'syncJobs';
+const SYNC_STATE_CONTAINER = 'syncState';
+const TEST_RESULTS_CONTAINER = 'testResults';
+const WEBHOOK_DELIVERIES_CONTAINER = 'webhookDeliveries';
+const RECOMMENDATION_RUNS_CONTAINER = 'recommendationRuns';
+const TEST_CASE_EMBEDDINGS_CONTAINER = 'testCaseEmbeddings';
 
-        if (!endpoint || !key) {
-            throw new Error('COSMOS_DB_ENDPOINT and COSMOS_DB_KEY must be set in environment variables');
-        }
+// Webhook deliveries aren't tied to a resource, so they share a single partition
+const WEBHOOK_PARTITION = 'github-webhooks';
+
+// Attempts to merge a synced test case onto its stored version when other writers keep changing it
+const MAX_MERGE_ATTEMPTS = 3;
+
+/**
+ * Create a safe document ID by base64-encoding the key and replacing illegal characters with underscores
+ */
+function toSafeId(prefix: string, key: string): string {
+    return `${prefix}_${Buffer.from(key).toString('base64').replace(/[^a-zA-Z0-9]/g, '_')}`;
+}
+
+/**
+ * All writes are conditional on the document _etag when one is known: either passed explicitly
+ * (e.g. from an If-Match header) or carried on the document that was read before being modified.
+ * A mismatch surfaces as ConcurrencyConflictError.
+ */
+export class CosmosService implements TestPlanStorage {
+    private store: DocumentStore;
+    private isInitialized: boolean = false;
+
+    /**
+     * @param store Optional document store; defaults to the backend selected by STORAGE_BACKEND
+     */
+    constructor(store?: DocumentStore) {
+        this.store = store || createDocumentStore();
+    }
 
-        this.client = new CosmosClient({ endpoint, key });
-        this.database = this.client.database(process.env.COSMOS_DB_DATABASE || 'testagentcosmosdb');
-        this.connectionsContainer = this.database.container('connections');
-        this.testSuitesContainer = this.database.container('testSuites');
-        this.testPlansContainer = this.database.container('testPlans');
+    get backend(): StorageBackendKind {
+        return this.store.kind;
     }
 
     async initialize(): Promise<void> {
         try {
-            console.log('Initializing Cosmos DB...');
-            
-            // Create database if it doesn't exist
-            const { database } = await this.client.databases.createIfNotExists({
-                id: process.env.COSMOS_DB_DATABASE || 'testagentcosmosdb'
-            });
-
-            // Create containers if they don't exist
-            await database.containers.createIfNotExists({
-                id: 'connections',
-                partitionKey: '/resourceId'
-            });
-
-            await database.containers.createIfNotExists({
-                id: 'testSuites',
-                partitionKey: '/resourceId'
-            });
+            console.log(`Initializing ${this.store.kind} storage...`);
 
-            await database.containers.createIfNotExists({
-                id: 'testPlans',
-                partitionKey: '/resourceId'
-            });
+            await this.store.initialize([
+                CONNECTIONS_CONTAINER,
+                TEST_SUITES_CONTAINER,
+                TEST_CASES_CONTAINER,
+                TEST_PLANS_CONTAINER,
+                SYNC_JOBS_CONTAINER,
+                SYNC_STATE_CONTAINER,
+                TEST_RESULTS_CONTAINER,
+                WEBHOOK_DELIVERIES_CONTAINER,
+                RECOMMENDATION_RUNS_CONTAINER,
+                TEST_CASE_EMBEDDINGS_CONTAINER
+            ]);
 
             this.isInitialized = true;
-            console.log('Cosmos DB initialized successfully');
+            console.log(`${this.store.kind} storage initialized successfully`);
         } catch (error) {
-            console.error('Failed to initialize Cosmos DB:', error);
+            console.error(`Failed to initialize ${this.store.kind} storage:`, error);
             throw error;
         }
     }
 
     // Connection methods
-    async saveConnection(connection: Connection): Promise<Connection> {
+    async saveConnection(connection: Connection, ifMatch?: string): Promise<Connection> {
         try {
-            if (!this.isInitialized) {
-                throw new Error('CosmosService not initialized. Call initialize() first.');
-            }
+            this.ensureInitialized();
 
-            // Create a safe document ID by encoding the resourceId
-            // Replace illegal characters with underscores and add prefix
-            const safeId = `conn_${Buffer.from(connection.resourceId).toString('base64').replace(/[^a-zA-Z0-9]/g, '_')}`;
-            
             const connectionToSave = {
                 ...connection,
-                id: safeId
+                id: toSafeId('conn', connection.resourceId)
             };
 
-            const { resource } = await this.connectionsContainer.items.upsert(connectionToSave);
-            return resource as unknown as Connection;
+            return await this.store.upsert<Connection>(CONNECTIONS_CONTAINER, connectionToSave, {
+                ifMatch: ifMatch || connection._etag
+            });
         } catch (error) {
-            console.error('Error saving connection to Cosmos DB:', error);
+            console.error('Error saving connection to storage:', error);
             throw error;
         }
     }
 
     async getConnection(resourceId: string): Promise<Connection | null> {
         try {
-            if (!this.isInitialized) {
-                throw new Error('CosmosService not initialized. Call initialize() first.');
-            }
+            this.ensureInitialized();
 
-            // Query by resourceId since we can't use it as document ID due to illegal characters
-            const querySpec = {
-                query: 'SELECT * FROM c WHERE c.resourceId = @resourceId',
-                parameters: [
-                    {
-                        name: '@resourceId',
-                        value: resourceId
-                    }
-                ]
-            };
+            return await this.store.read<Connection>(CONNECTIONS_CONTAINER, toSafeId('conn', resourceId), resourceId);
+        } catch (error: any) {
+            console.error('Error getting connection from storage:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * All saved connections, across resources
+     */
+    async getConnections(): Promise<Connection[]> {
+        try {
+            this.ensureInitialized();
 
-            const { resources } = await this.connectionsContainer.items.query<Connection>(querySpec).fetchAll();
-            
-            return resources.length > 0 ? resources[0] : null;
+            return await this.store.query<Connection>(CONNECTIONS_CONTAINER, undefined);
         } catch (error: any) {
-            console.error('Error getting connection from Cosmos DB:', error);
+            console.error('Error getting connections from storage:', error);
             throw error;
         }
     }
 
     async deleteConnection(resourceId: string): Promise<void> {
         try {
-            if (!this.isInitialized) {
-                throw new Error('CosmosService not initialized. Call initialize() first.');
-            }
+            this.ensureInitialized();
 
-            await this.connectionsContainer.item(resourceId, resourceId).delete();
+            await this.store.delete(CONNECTIONS_CONTAINER, toSafeId('conn', resourceId), resourceId);
         } catch (error: any) {
-            if (error.code !== 404) {
-                console.error('Error deleting connection from Cosmos DB:', error);
-                throw error;
-            }
+            console.error('Error deleting connection from storage:', error);
+            throw error;
         }
     }
 
     // Test Suites methods
     async saveTestSuites(resourceId: string, suites: TestSuite[]): Promise<TestSuite[]> {
         try {
-            if (!this.isInitialized) {
-                throw new Error('CosmosService not initialized. Call initialize() first.');
-            }
+            this.ensureInitialized();
 
             const savedSuites: TestSuite[] = [];
 
             for (const suite of suites) {
-                // Create a safe document ID by encoding the resourceId and testCaseId
-                const safeId = `suite_${Buffer.from(`${resourceId}_${suite.testCaseId}`).toString('base64').replace(/[^a-zA-Z0-9]/g, '_')}`;
-                
-                const suiteToSave = {
-                    ...suite,
-                    id: safeId,
-                    resourceId
+                // Test cases live in their own container; the suite document only keeps metadata
+                const { testCases, ...suiteFields } = suite;
+                const suiteToSave: Omit<TestSuite, 'testCases'> & { id: string } = {
+                    ...suiteFields,
+                    id: toSafeId('suite', `${resourceId}_${suite.testCaseId}`),
+                    resourceId,
+                    testCaseCount: testCases?.length || 0
                 };
 
-                const { resource } = await this.testSuitesContainer.items.upsert(suiteToSave);
-                savedSuites.push(resource as unknown as TestSuite);
+                const savedSuite = await this.store.upsert<TestSuite>(TEST_SUITES_CONTAINER, suiteToSave, { ifMatch: suite._etag });
+                const savedTestCases = await this.saveSuiteTestCases(resourceId, suite.testCaseId, testCases || []);
+                savedSuites.push({ ...savedSuite, testCases: savedTestCases });
             }
 
             return savedSuites;
         } catch (error) {
-            console.error('Error saving test suites to Cosmos DB:', error);
+            console.error('Error saving test suites to storage:', error);
             throw error;
         }
     }
 
     async getTestSuites(resourceId: string): Promise<TestSuite[]> {
         try {
-            if (!this.isInitialized) {
-                throw new Error('CosmosService not initialized. Call initialize() first.');
-            }
+            this.ensureInitialized();
 
-            const querySpec = {
-                query: 'SELECT * FROM c WHERE c.resourceId = @resourceId',
-                parameters: [
-                    {
-                        name: '@resourceId',
-                        value: resourceId
-                    }
-                ]
-            };
+            const suites = await this.store.query<TestSuite>(TEST_SUITES_CONTAINER, resourceId);
+            const testCasesBySuite = this.groupBySuite(await this.getTestCases(resourceId));
 
-            const { resources } = await this.testSuitesContainer.items.query<TestSuite>(querySpec).fetchAll();
-            return resources;
+            return suites.map(suite => this.withTestCases(suite, testCasesBySuite.get(suite.testCaseId)));
         } catch (error) {
-            console.error('Error getting test suites from Cosmos DB:', error);
+            console.error('Error getting test suites from storage:', error);
             throw error;
         }
     }
 
-    async updateTestSuite(resourceId: string, testCaseId: string, updates: Partial<TestSuite>): Promise<TestSuite | null> {
+    async getTestSuite(resourceId: string, testCaseId: string): Promise<TestSuite | null> {
         try {
-            if (!this.isInitialized) {
-                throw new Error('CosmosService not initialized. Call initialize() first.');
+            this.ensureInitialized();
+
+            const suite = await this.store.read<TestSuite>(TEST_SUITES_CONTAINER, toSafeId('suite', `${resourceId}_${testCaseId}`), resourceId);
+            if (!suite) {
+                return null;
             }
 
-            const suiteId = `${resourceId}_${testCaseId}`;
-            
+            return this.withTestCases(suite, await this.getTestCases(resourceId, testCaseId));
+        } catch (error) {
+            console.error('Error getting test suite from storage:', error);
+            throw error;
+        }
+    }
+
+    async updateTestSuite(resourceId: string, testCaseId: string, updates: Partial<TestSuite>, ifMatch?: string): Promise<TestSuite | null> {
+        try {
+            this.ensureInitialized();
+
+            const suiteId = toSafeId('suite', `${resourceId}_${testCaseId}`);
+
             // Get existing suite
-            const { resource: existingSuite } = await this.testSuitesContainer.item(suiteId, resourceId).read<TestSuite>();
-            
+            const existingSuite = await this.store.read<TestSuite>(TEST_SUITES_CONTAINER, suiteId, resourceId);
+
             if (!existingSuite) {
                 return null;
             }
 
-            // Merge updates
+            // Merge updates; test cases are written to their own container
+            const { testCases, ...suiteUpdates } = updates;
             const updatedSuite = {
                 ...existingSuite,
-                ...updates,
+                ...suiteUpdates,
                 id: suiteId,
                 resourceId
             };
 
-            const { resource } = await this.testSuitesContainer.item(suiteId, resourceId).replace(updatedSuite);
-            return resource as TestSuite;
+            if (testCases) {
+                updatedSuite.testCases = [];
+                updatedSuite.testCaseCount = testCases.length;
+            }
+
+            // Write the suite first so a conflicting update aborts before any test case is touched
+            const savedSuite = await this.store.replace<TestSuite>(TEST_SUITES_CONTAINER, suiteId, resourceId, updatedSuite, {
+                ifMatch: ifMatch || existingSuite._etag
+            });
+
+            if (testCases) {
+                await this.saveSuiteTestCases(resourceId, testCaseId, testCases);
+            }
+
+            return this.withTestCases(savedSuite, await this.getTestCases(resourceId, testCaseId));
         } catch (error: any) {
             if (error.code === 404) {
                 return null;
             }
-            console.error('Error updating test suite in Cosmos DB:', error);
+            console.error('Error updating test suite in storage:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Delete a single suite together with its test case documents
+     */
+    async deleteTestSuite(resourceId: string, testCaseId: string): Promise<void> {
+        try {
+            this.ensureInitialized();
+
+            const testCases = await this.store.query<TestCaseDocument>(TEST_CASES_CONTAINER, resourceId, { suiteId: testCaseId });
+
+            for (const testCase of testCases) {
+                await this.store.delete(TEST_CASES_CONTAINER, testCase.id!, resourceId);
+            }
+
+            await this.store.delete(TEST_SUITES_CONTAINER, toSafeId('suite', `${resourceId}_${testCaseId}`), resourceId);
+        } catch (error) {
+            console.error('Error deleting test suite from storage:', error);
             throw error;
         }
     }
 
     async deleteTestSuites(resourceId: string): Promise<void> {
         try {
-            if (!this.isInitialized) {
-                throw new Error('CosmosService not initialized. Call initialize() first.');
+            this.ensureInitialized();
+
+            const suites = await this.store.query<TestSuite>(TEST_SUITES_CONTAINER, resourceId);
+
+            for (const suite of suites) {
+                await this.store.delete(TEST_SUITES_CONTAINER, suite.id!, resourceId);
             }
 
-            const querySpec = {
-                query: 'SELECT c.id FROM c WHERE c.resourceId = @resourceId',
-                parameters: [
-                    {
-                        name: '@resourceId',
-                        value: resourceId
-                    }
-                ]
-            };
+            const testCases = await this.store.query<TestCaseDocument>(TEST_CASES_CONTAINER, resourceId);
+
+            for (const testCase of testCases) {
+                await this.store.delete(TEST_CASES_CONTAINER, testCase.id!, resourceId);
+            }
+        } catch (error) {
+            console.error('Error deleting test suites from storage:', error);
+            throw error;
+        }
+    }
+
+    // Test Cases methods
+    async getTestCases(resourceId: string, suiteId?: string): Promise<TestCaseDocument[]> {
+        try {
+            this.ensureInitialized();
+
+            const testCases = await this.store.query<TestCaseDocument>(
+                TEST_CASES_CONTAINER,
+                resourceId,
+                suiteId !== undefined ? { suiteId } : undefined
+            );
+            return testCases.sort((a, b) => a.order - b.order);
+        } catch (error) {
+            console.error('Error getting test cases from storage:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Find every stored copy of a test case; the same ADO test case can sit in several suites
+     */
+    async findTestCases(resourceId: string, testCaseId: string): Promise<TestCaseDocument[]> {
+        try {
+            this.ensureInitialized();
+
+            return await this.store.query<TestCaseDocument>(TEST_CASES_CONTAINER, resourceId, { testCaseId: String(testCaseId) });
+        } catch (error) {
+            console.error('Error finding test cases in storage:', error);
+            throw error;
+        }
+    }
+
+    async getTestCase(resourceId: string, suiteId: string, testCaseId: string): Promise<TestCaseDocument | null> {
+        try {
+            this.ensureInitialized();
+
+            return await this.store.read<TestCaseDocument>(TEST_CASES_CONTAINER, this.testCaseDocumentId(resourceId, suiteId, testCaseId), resourceId);
+        } catch (error) {
+            console.error('Error getting test case from storage:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Find test cases linked to a GitHub issue across all resources (webhooks don't know the resource)
+     */
+    async findLinkedTestCases(filter: { githubIssueId?: number; githubUrl?: string }): Promise<TestCaseDocument[]> {
+        try {
+            this.ensureInitialized();
 
-            const { resources } = await this.testSuitesContainer.items.query(querySpec).fetchAll();
-            
-            for (const item of resources) {
-                await this.testSuitesContainer.item(item.id, resourceId).delete();
+            const conditions = Object.fromEntries(Object.entries(filter).filter(([, value]) => value !== undefined)) as Record<string, string | number>;
+            if (Object.keys(conditions).length === 0) {
+                return [];
             }
+
+            return await this.store.query<TestCaseDocument>(TEST_CASES_CONTAINER, undefined, conditions);
         } catch (error) {
-            console.error('Error deleting test suites from Cosmos DB:', error);
+            console.error('Error finding linked test cases in storage:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Update individual fields of a single test case without touching the rest of its suite
+     */
+    async patchTestCase(resourceId: string, suiteId: string, testCaseId: string, updates: Partial<TestCase>, ifMatch?: string): Promise<TestCaseDocument | null> {
+        try {
+            this.ensureInitialized();
+
+            // Identity fields are part of the document key and cannot be patched
+            const { testCaseId: _testCaseId, ...fields } = updates;
+
+            return await this.store.patch<TestCaseDocument>(
+                TEST_CASES_CONTAINER,
+                this.testCaseDocumentId(resourceId, suiteId, testCaseId),
+                resourceId,
+                fields,
+                { ifMatch }
+            );
+        } catch (error: any) {
+            if (error.code === 404) {
+                return null;
+            }
+            console.error('Error patching test case in storage:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Split suite documents that still embed a testCases array into individual test case documents.
+     * Safe to run repeatedly; suites that were already migrated are skipped.
+     */
+    async migrateEmbeddedTestCases(resourceId?: string): Promise<TestCaseMigrationResult> {
+        try {
+            this.ensureInitialized();
+
+            const result: TestCaseMigrationResult = { suitesMigrated: 0, testCasesMigrated: 0 };
+            const suites = await this.store.query<TestSuite>(TEST_SUITES_CONTAINER, resourceId);
+
+            for (const suite of suites) {
+                if (!Array.isArray(suite.testCases) || suite.testCases.length === 0) {
+                    continue;
+                }
+
+                console.log(`Migrating ${suite.testCases.length} embedded test case(s) from suite "${suite.name}" (${suite.resourceId})`);
+
+                const savedTestCases = await this.saveSuiteTestCases(suite.resourceId, suite.testCaseId, suite.testCases);
+                const migratedSuite: TestSuite & { id: string } = {
+                    ...suite,
+                    id: suite.id!,
+                    testCases: [],
+                    testCaseCount: savedTestCases.length
+                };
+                await this.store.replace(TEST_SUITES_CONTAINER, suite.id!, suite.resourceId, migratedSuite, { ifMatch: suite._etag });
+
+                result.suitesMigrated++;
+                result.testCasesMigrated += savedTestCases.length;
+            }
+
+            console.log(`✅ Migrated ${result.testCasesMigrated} test case(s) from ${result.suitesMigrated} suite(s)`);
+            return result;
+        } catch (error) {
+            console.error('Error migrating embedded test cases:', error);
+            throw error;
+        }
+    }
+
+    // Sync Jobs methods
+    async saveSyncJob(job: SyncJob): Promise<SyncJob> {
+        try {
+            this.ensureInitialized();
+
+            const jobToSave = {
+                ...job,
+                id: toSafeId('job', `${job.resourceId}_${job.jobId}`)
+            };
+
+            return await this.store.upsert<SyncJob>(SYNC_JOBS_CONTAINER, jobToSave, { ifMatch: job._etag });
+        } catch (error) {
+            console.error('Error saving sync job to storage:', error);
+            throw error;
+        }
+    }
+
+    async getSyncJob(resourceId: string, jobId: string): Promise<SyncJob | null> {
+        try {
+            this.ensureInitialized();
+
+            return await this.store.read<SyncJob>(SYNC_JOBS_CONTAINER, toSafeId('job', `${resourceId}_${jobId}`), resourceId);
+        } catch (error) {
+            console.error('Error getting sync job from storage:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * List sync jobs, newest first. Without a resourceId this queries across all resources.
+     */
+    async getSyncJobs(resourceId?: string, status?: SyncJobStatus): Promise<SyncJob[]> {
+        try {
+            this.ensureInitialized();
+
+            const jobs = await this.store.query<SyncJob>(SYNC_JOBS_CONTAINER, resourceId, status ? { status } : undefined);
+            return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        } catch (error) {
+            console.error('Error getting sync jobs from storage:', error);
+            throw error;
+        }
+    }
+
+    // Test result report methods
+    async saveTestResultReport(report: TestResultReport): Promise<TestResultReport> {
+        try {
+            this.ensureInitialized();
+
+            const reportToSave = {
+                ...report,
+                id: toSafeId('report', `${report.resourceId}_${report.reportId}`)
+            };
+
+            return await this.store.upsert<TestResultReport>(TEST_RESULTS_CONTAINER, reportToSave, { ifMatch: report._etag });
+        } catch (error) {
+            console.error('Error saving test result report to storage:', error);
+            throw error;
+        }
+    }
+
+    async getTestResultReport(resourceId: string, reportId: string): Promise<TestResultReport | null> {
+        try {
+            this.ensureInitialized();
+
+            return await this.store.read<TestResultReport>(TEST_RESULTS_CONTAINER, toSafeId('report', `${resourceId}_${reportId}`), resourceId);
+        } catch (error) {
+            console.error('Error getting test result report from storage:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Ingested reports of a resource, newest first
+     */
+    async getTestResultReports(resourceId: string): Promise<TestResultReport[]> {
+        try {
+            this.ensureInitialized();
+
+            const reports = await this.store.query<TestResultReport>(TEST_RESULTS_CONTAINER, resourceId);
+            return reports.sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+        } catch (error) {
+            console.error('Error getting test result reports from storage:', error);
+            throw error;
+        }
+    }
+
+    // Webhook delivery methods
+    async saveWebhookDelivery(delivery: Omit<WebhookDelivery, 'resourceId'>): Promise<WebhookDelivery> {
+        try {
+            this.ensureInitialized();
+
+            const deliveryToSave = {
+                ...delivery,
+                id: toSafeId('delivery', delivery.deliveryId),
+                resourceId: WEBHOOK_PARTITION
+            };
+
+            return await this.store.upsert<WebhookDelivery>(WEBHOOK_DELIVERIES_CONTAINER, deliveryToSave);
+        } catch (error) {
+            console.error('Error saving webhook delivery to storage:', error);
+            throw error;
+        }
+    }
+
+    async getWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+        try {
+            this.ensureInitialized();
+
+            return await this.store.read<WebhookDelivery>(WEBHOOK_DELIVERIES_CONTAINER, toSafeId('delivery', deliveryId), WEBHOOK_PARTITION);
+        } catch (error) {
+            console.error('Error getting webhook delivery from storage:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Received webhook deliveries, newest first
+     */
+    async getWebhookDeliveries(): Promise<WebhookDelivery[]> {
+        try {
+            this.ensureInitialized();
+
+            const deliveries = await this.store.query<WebhookDelivery>(WEBHOOK_DELIVERIES_CONTAINER, WEBHOOK_PARTITION);
+            return deliveries.sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+        } catch (error) {
+            console.error('Error getting webhook deliveries from storage:', error);
+            throw error;
+        }
+    }
+
+    // Test case embedding methods
+    async saveTestCaseEmbedding(embedding: TestCaseEmbedding): Promise<TestCaseEmbedding> {
+        try {
+            this.ensureInitialized();
+
+            const embeddingToSave = {
+                ...embedding,
+                id: toSafeId('emb', `${embedding.resourceId}_${embedding.testCaseId}`)
+            };
+
+            // A cache entry: the last writer wins
+            return await this.store.upsert<TestCaseEmbedding>(TEST_CASE_EMBEDDINGS_CONTAINER, embeddingToSave);
+        } catch (error) {
+            console.error('Error saving test case embedding to storage:', error);
+            throw error;
+        }
+    }
+
+    async getTestCaseEmbeddings(resourceId: string): Promise<TestCaseEmbedding[]> {
+        try {
+            this.ensureInitialized();
+
+            return await this.store.query<TestCaseEmbedding>(TEST_CASE_EMBEDDINGS_CONTAINER, resourceId);
+        } catch (error) {
+            console.error('Error getting test case embeddings from storage:', error);
+            throw error;
+        }
+    }
+
+    async deleteTestCaseEmbedding(resourceId: string, testCaseId: string): Promise<void> {
+        try {
+            this.ensureInitialized();
+
+            await this.store.delete(TEST_CASE_EMBEDDINGS_CONTAINER, toSafeId('emb', `${resourceId}_${testCaseId}`), resourceId);
+        } catch (error) {
+            console.error('Error deleting test case embedding from storage:', error);
+            throw error;
+        }
+    }
+
+    // Recommendation run methods
+    /**
+     * Create or update a recommendation run; a run read from storage is only written if it wasn't changed since (_etag)
+     */
+    async saveRecommendationRun(run: RecommendationRun): Promise<RecommendationRun> {
+        try {
+            this.ensureInitialized();
+
+            const runToSave = {
+                ...run,
+                id: toSafeId('run', `${run.resourceId}_${run.runId}`)
+            };
+
+            return await this.store.upsert<RecommendationRun>(RECOMMENDATION_RUNS_CONTAINER, runToSave, { ifMatch: run._etag });
+        } catch (error) {
+            console.error('Error saving recommendation run to storage:', error);
+            throw error;
+        }
+    }
+
+    async getRecommendationRun(resourceId: string, runId: string): Promise<RecommendationRun | null> {
+        try {
+            this.ensureInitialized();
+
+            return await this.store.read<RecommendationRun>(RECOMMENDATION_RUNS_CONTAINER, toSafeId('run', `${resourceId}_${runId}`), resourceId);
+        } catch (error) {
+            console.error('Error getting recommendation run from storage:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Recommendation runs of a resource (optionally for one plan), newest first
+     */
+    async getRecommendationRuns(resourceId: string, planId?: string): Promise<RecommendationRun[]> {
+        try {
+            this.ensureInitialized();
+
+            const runs = await this.store.query<RecommendationRun>(RECOMMENDATION_RUNS_CONTAINER, resourceId, planId ? { planId } : undefined);
+            return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        } catch (error) {
+            console.error('Error getting recommendation runs from storage:', error);
+            throw error;
+        }
+    }
+
+    // GitHub issue sync state methods (stored next to the delta sync watermark)
+    async getIssueSyncState(resourceId: string): Promise<IssueSyncState | null> {
+        try {
+            this.ensureInitialized();
+
+            return await this.store.read<IssueSyncState>(SYNC_STATE_CONTAINER, toSafeId('issues', resourceId), resourceId);
+        } catch (error) {
+            console.error('Error getting issue sync state from storage:', error);
+            throw error;
+        }
+    }
+
+    async saveIssueSyncState(state: IssueSyncState): Promise<IssueSyncState> {
+        try {
+            this.ensureInitialized();
+
+            const stateToSave = {
+                ...state,
+                id: toSafeId('issues', state.resourceId)
+            };
+
+            return await this.store.upsert<IssueSyncState>(SYNC_STATE_CONTAINER, stateToSave);
+        } catch (error) {
+            console.error('Error saving issue sync state to storage:', error);
+            throw error;
+        }
+    }
+
+    // Sync watermark methods
+    async getSyncWatermark(resourceId: string): Promise<SyncWatermark | null> {
+        try {
+            this.ensureInitialized();
+
+            return await this.store.read<SyncWatermark>(SYNC_STATE_CONTAINER, toSafeId('watermark', resourceId), resourceId);
+        } catch (error) {
+            console.error('Error getting sync watermark from storage:', error);
+            throw error;
+        }
+    }
+
+    async saveSyncWatermark(watermark: SyncWatermark): Promise<SyncWatermark> {
+        try {
+            this.ensureInitialized();
+
+            const watermarkToSave = {
+                ...watermark,
+                id: toSafeId('watermark', watermark.resourceId)
+            };
+
+            return await this.store.upsert<SyncWatermark>(SYNC_STATE_CONTAINER, watermarkToSave, { ifMatch: watermark._etag });
+        } catch (error) {
+            console.error('Error saving sync watermark to storage:', error);
             throw error;
         }
     }
@@ -296,18 +1073,13 @@ export class CosmosService {
     // Test Plans methods
     async saveTestPlans(resourceId: string, testPlans: any[]): Promise<TestPlan[]> {
         try {
-            if (!this.isInitialized) {
-                throw new Error('CosmosService not initialized. Call initialize() first.');
-            }
+            this.ensureInitialized();
 
             const savedPlans: TestPlan[] = [];
 
             for (const plan of testPlans) {
-                // Create a safe document ID by encoding the resourceId and planId
-                const safeId = `plan_${Buffer.from(`${resourceId}_${plan.id}`).toString('base64').replace(/[^a-zA-Z0-9]/g, '_')}`;
-                
-                const planToSave: TestPlan = {
-                    id: safeId,
+                const planToSave: TestPlan & { id: string } = {
+                    id: toSafeId('plan', `${resourceId}_${plan.id}`),
                     resourceId,
                     planId: plan.id,
                     name: plan.name,
@@ -319,52 +1091,47 @@ export class CosmosService {
                     endDate: plan.endDate ? new Date(plan.endDate) : undefined
                 };
 
-                const { resource } = await this.testPlansContainer.items.upsert(planToSave);
-                savedPlans.push(resource as unknown as TestPlan);
+                savedPlans.push(await this.store.upsert<TestPlan>(TEST_PLANS_CONTAINER, planToSave));
             }
 
             return savedPlans;
         } catch (error) {
-            console.error('Error saving test plans to Cosmos DB:', error);
+            console.error('Error saving test plans to storage:', error);
             throw error;
         }
     }
 
     async getTestPlans(resourceId: string): Promise<TestPlan[]> {
         try {
-            if (!this.isInitialized) {
-                throw new Error('CosmosService not initialized. Call initialize() first.');
-            }
+            this.ensureInitialized();
 
-            const querySpec = {
-                query: 'SELECT * FROM c WHERE c.resourceId = @resourceId',
-                parameters: [
-                    {
-                        name: '@resourceId',
-                        value: resourceId
-                    }
-                ]
-            };
+            return await this.store.query<TestPlan>(TEST_PLANS_CONTAINER, resourceId);
+        } catch (error) {
+            console.error('Error getting test plans from storage:', error);
+            throw error;
+        }
+    }
+
+    async getTestPlan(resourceId: string, planId: number): Promise<TestPlan | null> {
+        try {
+            this.ensureInitialized();
 
-            const { resources } = await this.testPlansContainer.items.query<TestPlan>(querySpec).fetchAll();
-            return resources;
+            return await this.store.read<TestPlan>(TEST_PLANS_CONTAINER, toSafeId('plan', `${resourceId}_${planId}`), resourceId);
         } catch (error) {
-            console.error('Error getting test plans from Cosmos DB:', error);
+            console.error('Error getting test plan from storage:', error);
             throw error;
         }
     }
 
-    async updateTestPlan(resourceId: string, planId: number, updates: Partial<TestPlan>): Promise<TestPlan | null> {
+    async updateTestPlan(resourceId: string, planId: number, updates: Partial<TestPlan>, ifMatch?: string): Promise<TestPlan | null> {
         try {
-            if (!this.isInitialized) {
-                throw new Error('CosmosService not initialized. Call initialize() first.');
-            }
+            this.ensureInitialized();
+
+            const testPlanId = toSafeId('plan', `${resourceId}_${planId}`);
 
-            const testPlanId = `${resourceId}_${planId}`;
-            
             // Get existing plan
-            const { resource: existingPlan } = await this.testPlansContainer.item(testPlanId, resourceId).read<TestPlan>();
-            
+            const existingPlan = await this.store.read<TestPlan>(TEST_PLANS_CONTAINER, testPlanId, resourceId);
+
             if (!existingPlan) {
                 return null;
             }
@@ -377,40 +1144,29 @@ export class CosmosService {
                 resourceId
             };
 
-            const { resource } = await this.testPlansContainer.item(testPlanId, resourceId).replace(updatedPlan);
-            return resource as TestPlan;
+            return await this.store.replace<TestPlan>(TEST_PLANS_CONTAINER, testPlanId, resourceId, updatedPlan, {
+                ifMatch: ifMatch || existingPlan._etag
+            });
         } catch (error: any) {
             if (error.code === 404) {
                 return null;
             }
-            console.error('Error updating test plan in Cosmos DB:', error);
+            console.error('Error updating test plan in storage:', error);
             throw error;
         }
     }
 
     async deleteTestPlans(resourceId: string): Promise<void> {
         try {
-            if (!this.isInitialized) {
-                throw new Error('CosmosService not initialized. Call initialize() first.');
-            }
+            this.ensureInitialized();
 
-            const querySpec = {
-                query: 'SELECT c.id FROM c WHERE c.resourceId = @resourceId',
-                parameters: [
-                    {
-                        name: '@resourceId',
-                        value: resourceId
-                    }
-                ]
-            };
+            const plans = await this.store.query<TestPlan>(TEST_PLANS_CONTAINER, resourceId);
 
-            const { resources } = await this.testPlansContainer.items.query(querySpec).fetchAll();
-            
-            for (const item of resources) {
-                await this.testPlansContainer.item(item.id, resourceId).delete();
+            for (const plan of plans) {
+                await this.store.delete(TEST_PLANS_CONTAINER, plan.id!, resourceId);
             }
         } catch (error) {
-            console.error('Error deleting test plans from Cosmos DB:', error);
+            console.error('Error deleting test plans from storage:', error);
             throw error;
         }
     }
@@ -422,12 +1178,94 @@ export class CosmosService {
                 return false;
             }
 
-            // Simple read operation to check connectivity
-            await this.database.read();
-            return true;
+            return await this.store.healthCheck();
         } catch (error) {
-            console.error('Cosmos DB health check failed:', error);
+            console.error(`${this.store.kind} storage health check failed:`, error);
             return false;
         }
     }
+
+    /**
+     * Replace the stored test cases of a suite, removing cases that are no longer part of it.
+     * The given fields are merged onto the stored documents, so fields only this server writes
+     * (GitHub issue links, results, requirement links) survive a sync from ADO.
+     */
+    private async saveSuiteTestCases(resourceId: string, suiteId: string, testCases: TestCase[]): Promise<TestCaseDocument[]> {
+        const documents = testCases.map((testCase, index) => {
+            const testCaseId = String(testCase.testCaseId || `${suiteId}-${index + 1}`);
+            const { _etag, _ts, ...fields } = testCase as TestCaseDocument;
+            const document: TestCaseDocument = {
+                ...fields,
+                id: this.testCaseDocumentId(resourceId, suiteId, testCaseId),
+                resourceId,
+                suiteId,
+                testCaseId,
+                order: index
+            };
+            return document;
+        });
+
+        const keepIds = new Set(documents.map(document => document.id));
+        const existing = await this.store.query<TestCaseDocument>(TEST_CASES_CONTAINER, resourceId, { suiteId });
+        const existingById = new Map(existing.map(document => [document.id, document]));
+
+        for (const stale of existing.filter(document => !keepIds.has(document.id))) {
+            await this.store.delete(TEST_CASES_CONTAINER, stale.id!, resourceId);
+        }
+
+        const saved: TestCaseDocument[] = [];
+        for (const document of documents) {
+            saved.push(await this.upsertMergedTestCase(document as TestCaseDocument & { id: string }, existingById.get(document.id)));
+        }
+        return saved;
+    }
+
+    /**
+     * Write a test case merged onto its stored version, guarded by the stored ETag. When another
+     * writer got in between, the merge is redone on the current version.
+     */
+    private async upsertMergedTestCase(document: TestCaseDocument & { id: string }, stored?: TestCaseDocument): Promise<TestCaseDocument> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return stored
+                    ? await this.store.upsert<TestCaseDocument>(TEST_CASES_CONTAINER, { ...stored, ...document }, { ifMatch: stored._etag })
+                    : await this.store.upsert<TestCaseDocument>(TEST_CASES_CONTAINER, document);
+            } catch (error) {
+                if (!(error instanceof ConcurrencyConflictError) || attempt >= MAX_MERGE_ATTEMPTS) {
+                    throw error;
+                }
+                stored = await this.store.read<TestCaseDocument>(TEST_CASES_CONTAINER, document.id, document.resourceId) ?? undefined;
+            }
+        }
+    }
+
+    private testCaseDocumentId(resourceId: string, suiteId: string, testCaseId: string): string {
+        return toSafeId('tc', `${resourceId}_${suiteId}_${testCaseId}`);
+    }
+
+    private groupBySuite(testCases: TestCaseDocument[]): Map<string, TestCaseDocument[]> {
+        const grouped = new Map<string, TestCaseDocument[]>();
+        for (const testCase of testCases) {
+            const suiteCases = grouped.get(testCase.suiteId) || [];
+            suiteCases.push(testCase);
+            grouped.set(testCase.suiteId, suiteCases);
+        }
+        return grouped;
+    }
+
+    /**
+     * Attach test case documents to a suite; suites that were never migrated keep their embedded array
+     */
+    private withTestCases(suite: TestSuite, testCases?: TestCaseDocument[]): TestSuite {
+        if (testCases && testCases.length > 0) {
+            return { ...suite, testCases };
+        }
+        return { ...suite, testCases: Array.isArray(suite.testCases) ? suite.testCases : [] };
+    }
+
+    private ensureInitialized(): void {
+        if (!this.isInitialized) {
+            throw new Error('CosmosService not initialized. Call initialize() first.');
+        }
+    }
 }
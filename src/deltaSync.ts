@@ -0,0 +1,213 @@
+import { AzureDevOpsTestPlansClient, TestCaseNotFoundError } from './AzureDevOpsTestPlansClient';
+import { CosmosService, DeltaSyncSummary, SyncWatermark, TestCase, TestSuite } from './cosmosService';
+import { toStoredTestCase } from './planIngestion';
+
+export interface DeltaSyncProgress {
+    plansTotal: number;
+    plansProcessed: number;
+}
+
+/**
+ * Incremental ADO -> storage sync.
+ * Instead of re-downloading every test case, only test cases whose System.ChangedDate is after the
+ * stored watermark (plus test cases newly added to a suite) are fetched. Suite membership is only
+ * re-read for suites whose revision changed since the last sync.
+ */
+export class DeltaSyncService {
+    constructor(private storage: CosmosService) {}
+
+    async sync(
+        resourceId: string,
+        client: AzureDevOpsTestPlansClient,
+        watermark: SyncWatermark,
+        onProgress?: (progress: DeltaSyncProgress) => Promise<void>
+    ): Promise<DeltaSyncSummary> {
+        // Taken before querying ADO so edits made while the sync runs are picked up next time
+        const syncStartedAt = new Date().toISOString();
+        const summary: DeltaSyncSummary = {
+            testCasesAdded: 0,
+            testCasesUpdated: 0,
+            testCasesRemoved: 0,
+            testCasesUnchanged: 0,
+            suitesAdded: 0,
+            suitesUpdated: 0,
+            suitesRemoved: 0,
+            suitesSkipped: 0,
+            plansChanged: 0
+        };
+        const planRevisions: Record<string, number> = {};
+        const suiteRevisions: Record<string, number> = {};
+        let incomplete = false;
+
+        console.log(`🔄 Delta sync for resourceId: ${resourceId} since ${watermark.lastSyncedAt}`);
+
+        const testPlans = await client.getAllTestPlans(true, true);
+        await this.storage.saveTestPlans(resourceId, testPlans);
+
+        const changedIds = new Set(
+            (await client.getChangedTestCaseIds(new Date(watermark.lastSyncedAt))).map(String)
+        );
+
+        const storedSuites = new Map(
+            (await this.storage.getTestSuites(resourceId)).map(suite => [suite.testCaseId, suite])
+        );
+
+        let plansProcessed = 0;
+        for (const plan of testPlans) {
+            const planKey = String(plan.id);
+            if (plan.revision !== undefined) {
+                planRevisions[planKey] = plan.revision;
+            }
+            if (watermark.planRevisions[planKey] !== plan.revision) {
+                summary.plansChanged++;
+            }
+
+            const adoSuites: any[] = await client.getTestSuites(plan.id!);
+            const seenSuiteIds = new Set<string>();
+
+            for (const adoSuite of adoSuites) {
+                const suiteId = `${plan.id}-${adoSuite.id}`;
+                seenSuiteIds.add(suiteId);
+
+                try {
+                    const storedSuite = storedSuites.get(suiteId);
+                    const revisionUnchanged = adoSuite.revision !== undefined
+                        && watermark.suiteRevisions[suiteId] === adoSuite.revision;
+
+                    // Membership only changes with a new suite revision, so reuse the stored list otherwise
+                    const memberIds = storedSuite && revisionUnchanged
+                        ? storedSuite.testCases.map(testCase => String(testCase.testCaseId))
+                        : (await client.getSuiteTestCaseIds(plan.id!, adoSuite.id)).map(String);
+
+                    const suiteComplete = await this.syncSuite(
+                        resourceId,
+                        { resourceId, name: `${plan.name} - ${adoSuite.name}`, testCaseId: suiteId, testCases: [] },
+                        storedSuite,
+                        memberIds,
+                        changedIds,
+                        client,
+                        summary
+                    );
+
+                    // A suite with failed fetches keeps its old revision so it is re-read next time
+                    if (suiteComplete && adoSuite.revision !== undefined) {
+                        suiteRevisions[suiteId] = adoSuite.revision;
+                    }
+                    incomplete = incomplete || !suiteComplete;
+                } catch (error) {
+                    console.warn(`⚠️ Delta sync: could not process suite ${adoSuite.name} (ID: ${adoSuite.id}):`, error);
+                    incomplete = true;
+                }
+            }
+
+            // Suites that belong to this plan in storage but no longer exist in ADO
+            for (const storedSuiteId of storedSuites.keys()) {
+                if (storedSuiteId.startsWith(`${plan.id}-`) && !seenSuiteIds.has(storedSuiteId)) {
+                    console.log(`🗑️ Delta sync: removing suite ${storedSuiteId} (no longer in ADO)`);
+                    await this.storage.deleteTestSuite(resourceId, storedSuiteId);
+                    summary.suitesRemoved++;
+                }
+            }
+
+            plansProcessed++;
+            if (onProgress) {
+                await onProgress({ plansTotal: testPlans.length, plansProcessed });
+            }
+        }
+
+        // Suites of plans that were deleted in ADO (or are no longer returned as active)
+        const planIds = new Set(testPlans.map(plan => String(plan.id)));
+        for (const storedSuiteId of storedSuites.keys()) {
+            const planId = /^(\d+)-\d+$/.exec(storedSuiteId)?.[1];
+            if (planId !== undefined && !planIds.has(planId)) {
+                console.log(`🗑️ Delta sync: removing suite ${storedSuiteId} (its plan is no longer in ADO)`);
+                await this.storage.deleteTestSuite(resourceId, storedSuiteId);
+                summary.suitesRemoved++;
+            }
+        }
+
+        await this.storage.saveSyncWatermark({
+            ...watermark,
+            resourceId,
+            // Keep the old watermark when something could not be fetched, so those changes are retried
+            lastSyncedAt: incomplete ? watermark.lastSyncedAt : syncStartedAt,
+            planRevisions,
+            suiteRevisions
+        });
+
+        console.log(`✅ Delta sync for resourceId: ${resourceId} completed:`, summary);
+        return summary;
+    }
+
+    /**
+     * Bring one suite in line with its ADO membership. Test cases deleted in ADO are removed from the suite.
+     * Returns false if some test cases could not be fetched for another reason.
+     */
+    private async syncSuite(
+        resourceId: string,
+        suite: TestSuite,
+        storedSuite: TestSuite | undefined,
+        memberIds: string[],
+        changedIds: Set<string>,
+        client: AzureDevOpsTestPlansClient,
+        summary: DeltaSyncSummary
+    ): Promise<boolean> {
+        const storedCases = new Map<string, TestCase>(
+            (storedSuite?.testCases || []).map(testCase => [String(testCase.testCaseId), testCase])
+        );
+
+        const idsToFetch = memberIds.filter(id => !storedCases.has(id) || changedIds.has(id));
+        const { details, errors } = idsToFetch.length > 0
+            ? await client.getTestCaseDetailsBatch(idsToFetch.map(Number))
+            : { details: new Map(), errors: new Map<number, Error>() };
+        const fetched = new Map<string, TestCase>(
+            [...details.entries()].map(([id, detail]) => [String(id), toStoredTestCase(detail)])
+        );
+        const deletedIds = new Set([...errors.entries()]
+            .filter(([, error]) => error instanceof TestCaseNotFoundError)
+            .map(([id]) => String(id)));
+        const presentIds = memberIds.filter(id => !deletedIds.has(id));
+
+        let added = 0;
+        let updated = 0;
+        const testCases: TestCase[] = [];
+        for (const id of presentIds) {
+            const stored = storedCases.get(id);
+            const fresh = fetched.get(id);
+
+            if (fresh) {
+                // Keep GitHub issue tracking fields; only the ADO-owned fields are replaced
+                testCases.push(stored ? { ...stored, ...fresh } : fresh);
+                if (stored) {
+                    updated++;
+                } else {
+                    added++;
+                }
+            } else if (stored) {
+                testCases.push(stored);
+            }
+        }
+
+        const removed = [...storedCases.keys()].filter(id => !presentIds.includes(id)).length;
+        const renamed = storedSuite !== undefined && storedSuite.name !== suite.name;
+        const reordered = storedSuite !== undefined
+            && storedSuite.testCases.some((testCase, index) => String(testCase.testCaseId) !== String(testCases[index]?.testCaseId));
+
+        summary.testCasesAdded += added;
+        summary.testCasesUpdated += updated;
+        summary.testCasesRemoved += removed;
+        summary.testCasesUnchanged += testCases.length - added - updated;
+
+        if (!storedSuite) {
+            await this.storage.saveTestSuites(resourceId, [{ ...suite, testCases }]);
+            summary.suitesAdded++;
+        } else if (added + updated + removed > 0 || renamed || reordered) {
+            await this.storage.saveTestSuites(resourceId, [{ ...storedSuite, name: suite.name, testCases }]);
+            summary.suitesUpdated++;
+        } else {
+            summary.suitesSkipped++;
+        }
+
+        return errors.size === deletedIds.size;
+    }
+}
@@ -0,0 +1,295 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { CosmosDocumentStore } from './cosmosDocumentStore';
+
+dotenv.config();
+
+export type StorageBackendKind = 'cosmos' | 'memory' | 'file';
+
+/**
+ * Every persisted document is partitioned by resourceId, mirroring the Cosmos container layout
+ */
+export interface StoredDocument {
+    id: string;
+    resourceId: string;
+    _etag?: string;
+    _ts?: number;
+    [key: string]: any;
+}
+
+/**
+ * Equality filter applied on top of the partition key (e.g. { planId: 42 })
+ */
+export type DocumentFilter = Record<string, string | number | boolean>;
+
+/**
+ * Options for conditional writes. When ifMatch is set the write only succeeds if the stored
+ * document still carries that _etag.
+ */
+export interface WriteOptions {
+    ifMatch?: string;
+}
+
+/**
+ * Thrown when a conditional write fails because the document changed (or no longer exists)
+ */
+export class ConcurrencyConflictError extends Error {
+    readonly statusCode = 412;
+
+    constructor(readonly container: string, readonly documentId: string, readonly expectedEtag?: string) {
+        super(`Document ${documentId} in ${container} was modified by another writer (expected ETag ${expectedEtag})`);
+        this.name = 'ConcurrencyConflictError';
+    }
+}
+
+/**
+ * Minimal document store contract used by CosmosService.
+ * Implementations: Cosmos DB, in-memory and a local JSON file.
+ */
+export interface DocumentStore {
+    readonly kind: StorageBackendKind;
+    initialize(containers: string[]): Promise<void>;
+    /**
+     * Create or overwrite a document; with ifMatch the document must already exist with that _etag
+     */
+    upsert<T>(container: string, document: StoredDocument, options?: WriteOptions): Promise<T>;
+    read<T>(container: string, id: string, partitionKey: string): Promise<T | null>;
+    replace<T>(container: string, id: string, partitionKey: string, document: StoredDocument, options?: WriteOptions): Promise<T>;
+    /**
+     * Query documents by partition key, or across all partitions when partitionKey is undefined
+     */
+    query<T>(container: string, partitionKey: string | undefined, filter?: DocumentFilter): Promise<T[]>;
+    /**
+     * Set individual fields on an existing document without rewriting the rest of it. Fields set to
+     * undefined are removed. The patch is applied as a whole, and only if ifMatch still matches.
+     */
+    patch<T>(container: string, id: string, partitionKey: string, fields: Record<string, any>, options?: WriteOptions): Promise<T>;
+    delete(container: string, id: string, partitionKey: string): Promise<void>;
+    healthCheck(): Promise<boolean>;
+}
+
+/**
+ * In-memory document store, useful for local development and offline tests.
+ * Documents are serialized on write so callers never share references with the store.
+ */
+export class InMemoryDocumentStore implements DocumentStore {
+    readonly kind: StorageBackendKind = 'memory';
+    protected containers: Map<string, Map<string, StoredDocument>> = new Map();
+
+    async initialize(containers: string[]): Promise<void> {
+        for (const name of containers) {
+            if (!this.containers.has(name)) {
+                this.containers.set(name, new Map());
+            }
+        }
+    }
+
+    async upsert<T>(container: string, document: StoredDocument, options?: WriteOptions): Promise<T> {
+        if (options?.ifMatch) {
+            return this.replace<T>(container, document.id, document.resourceId, document, options);
+        }
+
+        const stored = this.stamp(document);
+        this.getContainer(container).set(this.key(stored.id, stored.resourceId), stored);
+        await this.persist();
+        return this.clone(stored) as unknown as T;
+    }
+
+    async read<T>(container: string, id: string, partitionKey: string): Promise<T | null> {
+        const document = this.getContainer(container).get(this.key(id, partitionKey));
+        return document ? this.clone(document) as unknown as T : null;
+    }
+
+    async replace<T>(container: string, id: string, partitionKey: string, document: StoredDocument, options?: WriteOptions): Promise<T> {
+        const items = this.getContainer(container);
+        const existing = items.get(this.key(id, partitionKey));
+        if (!existing) {
+            if (options?.ifMatch) {
+                throw new ConcurrencyConflictError(container, id, options.ifMatch);
+            }
+            throw Object.assign(new Error(`Document ${id} not found in ${container}`), { code: 404 });
+        }
+        if (options?.ifMatch && existing._etag !== options.ifMatch) {
+            throw new ConcurrencyConflictError(container, id, options.ifMatch);
+        }
+
+        const stored = this.stamp({ ...document, id, resourceId: partitionKey });
+        items.set(this.key(id, partitionKey), stored);
+        await this.persist();
+        return this.clone(stored) as unknown as T;
+    }
+
+    async query<T>(container: string, partitionKey: string | undefined, filter?: DocumentFilter): Promise<T[]> {
+        const results: T[] = [];
+        for (const document of this.getContainer(container).values()) {
+            if (partitionKey !== undefined && document.resourceId !== partitionKey) {
+                continue;
+            }
+            if (filter && !Object.entries(filter).every(([field, value]) => document[field] === value)) {
+                continue;
+            }
+            results.push(this.clone(document) as unknown as T);
+        }
+        return results;
+    }
+
+    async patch<T>(container: string, id: string, partitionKey: string, fields: Record<string, any>, options?: WriteOptions): Promise<T> {
+        const existing = this.getContainer(container).get(this.key(id, partitionKey));
+        if (!existing) {
+            if (options?.ifMatch) {
+                throw new ConcurrencyConflictError(container, id, options.ifMatch);
+            }
+            throw Object.assign(new Error(`Document ${id} not found in ${container}`), { code: 404 });
+        }
+
+        return this.replace<T>(container, id, partitionKey, { ...existing, ...fields }, options);
+    }
+
+    async delete(container: string, id: string, partitionKey: string): Promise<void> {
+        if (this.getContainer(container).delete(this.key(id, partitionKey))) {
+            await this.persist();
+        }
+    }
+
+    async healthCheck(): Promise<boolean> {
+        return true;
+    }
+
+    /**
+     * Hook for subclasses that need to flush state after a write
+     */
+    protected async persist(): Promise<void> {
+        // Nothing to do for the in-memory store
+    }
+
+    protected getContainer(container: string): Map<string, StoredDocument> {
+        let items = this.containers.get(container);
+        if (!items) {
+            items = new Map();
+            this.containers.set(container, items);
+        }
+        return items;
+    }
+
+    protected key(id: string, partitionKey: string): string {
+        return `${partitionKey}\u0000${id}`;
+    }
+
+    private stamp(document: StoredDocument): StoredDocument {
+        return {
+            ...this.clone(document),
+            _etag: `"${randomUUID()}"`,
+            _ts: Math.floor(Date.now() / 1000)
+        };
+    }
+
+    private clone(document: StoredDocument): StoredDocument {
+        return JSON.parse(JSON.stringify(document));
+    }
+}
+
+/**
+ * Document store backed by a single local JSON file.
+ * The whole file is rewritten after every mutation, which is fine for development-sized data sets.
+ */
+export class FileDocumentStore extends InMemoryDocumentStore {
+    readonly kind: StorageBackendKind = 'file';
+    private filePath: string;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(filePath?: string) {
+        super();
+        this.filePath = path.resolve(filePath || process.env.STORAGE_FILE_PATH || './data/storage.json');
+    }
+
+    async initialize(containers: string[]): Promise<void> {
+        try {
+            const content = await fs.readFile(this.filePath, 'utf8');
+            const data: Record<string, StoredDocument[]> = JSON.parse(content);
+
+            for (const [name, documents] of Object.entries(data)) {
+                const items = this.getContainer(name);
+                for (const document of documents) {
+                    items.set(this.key(document.id, document.resourceId), document);
+                }
+            }
+            console.log(`Loaded storage file ${this.filePath}`);
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                console.error(`Failed to read storage file ${this.filePath}:`, error);
+                throw error;
+            }
+            console.log(`Storage file ${this.filePath} not found, starting with empty storage`);
+        }
+
+        await super.initialize(containers);
+        await this.persist();
+    }
+
+    async healthCheck(): Promise<boolean> {
+        try {
+            await fs.access(path.dirname(this.filePath));
+            return true;
+        } catch (error) {
+            console.error('Storage file health check failed:', error);
+            return false;
+        }
+    }
+
+    protected async persist(): Promise<void> {
+        // Serialize writes so concurrent requests never interleave partial files
+        this.writeQueue = this.writeQueue.catch(() => undefined).then(() => this.writeFile());
+        return this.writeQueue;
+    }
+
+    private async writeFile(): Promise<void> {
+        const data: Record<string, StoredDocument[]> = {};
+        for (const [name, items] of this.containers.entries()) {
+            data[name] = [...items.values()];
+        }
+
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+        await fs.rename(tempPath, this.filePath);
+    }
+}
+
+/**
+ * Resolve the configured storage backend.
+ * STORAGE_BACKEND may be "cosmos", "memory" or "file"; when unset, Cosmos is used if it is configured
+ * and the in-memory store otherwise.
+ */
+export function resolveStorageBackendKind(): StorageBackendKind {
+    const configured = process.env.STORAGE_BACKEND?.trim().toLowerCase();
+
+    if (configured) {
+        if (configured !== 'cosmos' && configured !== 'memory' && configured !== 'file') {
+            throw new Error(`Unsupported STORAGE_BACKEND "${configured}". Expected one of: cosmos, memory, file`);
+        }
+        return configured;
+    }
+
+    if (process.env.COSMOS_DB_ENDPOINT && process.env.COSMOS_DB_KEY) {
+        return 'cosmos';
+    }
+
+    console.warn('⚠️ STORAGE_BACKEND not set and Cosmos DB is not configured, falling back to in-memory storage');
+    return 'memory';
+}
+
+/**
+ * Create the document store for the configured (or explicitly requested) backend
+ */
+export function createDocumentStore(kind: StorageBackendKind = resolveStorageBackendKind()): DocumentStore {
+    switch (kind) {
+        case 'cosmos':
+            return new CosmosDocumentStore();
+        case 'file':
+            return new FileDocumentStore();
+        case 'memory':
+            return new InMemoryDocumentStore();
+    }
+}
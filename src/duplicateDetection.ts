@@ -0,0 +1,163 @@
+import { createHash } from 'crypto';
+import { CosmosService, TestCaseEmbedding } from './cosmosService';
+import { LlmProvider, cosineSimilarity, embedInBatches } from './llmProvider';
+
+/**
+ * Similarity above which two test cases (or a recommendation and a test case) are treated as duplicates
+ */
+export function resolveDuplicateThreshold(): number {
+    const configured = parseFloat(process.env.DUPLICATE_SIMILARITY_THRESHOLD || '');
+    return isNaN(configured) ? 0.9 : configured;
+}
+
+/**
+ * Text a test case is embedded as. Recommendations are embedded the same way so they can be compared.
+ */
+export function embeddingText(title: string, steps: string[]): string {
+    return [title, ...steps.filter(step => step && step !== 'No test steps available')].join('\n');
+}
+
+export interface EmbeddedTestCase {
+    testCaseId: string;
+    name: string;
+    suiteIds: string[];
+    vector: number[];
+}
+
+export interface DuplicateCluster {
+    testCases: Array<{ testCaseId: string; name: string; suiteIds: string[] }>;
+    maxSimilarity: number;
+    /** Pairs above the threshold that link the cluster together */
+    pairs: Array<{ testCaseIds: [string, string]; similarity: number }>;
+}
+
+export interface DuplicateReport {
+    resourceId: string;
+    model: string;
+    threshold: number;
+    testCases: number;
+    embeddingsComputed: number;
+    embeddingsCached: number;
+    clusters: DuplicateCluster[];
+}
+
+/**
+ * Finds near-duplicate stored test cases by embedding similarity. Embeddings are cached per test case
+ * in storage and only recomputed when the test case (or the embedding model) changes.
+ */
+export class DuplicateDetectionService {
+    constructor(private storage: CosmosService, private provider: LlmProvider) {}
+
+    /**
+     * Embedding of every stored test case; copies of a test case in several suites share one
+     */
+    async getEmbeddedTestCases(resourceId: string): Promise<{ testCases: EmbeddedTestCase[]; computed: number; cached: number }> {
+        const grouped = new Map<string, { testCaseId: string; name: string; suiteIds: string[]; revision?: number; text: string }>();
+        for (const document of await this.storage.getTestCases(resourceId)) {
+            const entry = grouped.get(document.testCaseId);
+            if (entry) {
+                entry.suiteIds.push(document.suiteId);
+                continue;
+            }
+            grouped.set(document.testCaseId, {
+                testCaseId: document.testCaseId,
+                name: document.name,
+                suiteIds: [document.suiteId],
+                revision: document.revision,
+                text: embeddingText(document.name, document.steps || [])
+            });
+        }
+
+        const cache = new Map((await this.storage.getTestCaseEmbeddings(resourceId)).map(embedding => [embedding.testCaseId, embedding]));
+        const entries = [...grouped.values()].map(entry => ({ ...entry, contentHash: createHash('sha256').update(entry.text).digest('hex') }));
+
+        const stale = entries.filter(entry => {
+            const cached = cache.get(entry.testCaseId);
+            return !cached
+                || cached.model !== this.provider.model
+                || cached.revision !== entry.revision
+                || cached.contentHash !== entry.contentHash;
+        });
+
+        const vectors = await embedInBatches(this.provider, stale.map(entry => entry.text));
+        for (const [index, entry] of stale.entries()) {
+            const embedding: TestCaseEmbedding = {
+                resourceId,
+                testCaseId: entry.testCaseId,
+                model: this.provider.model,
+                ...(entry.revision !== undefined && { revision: entry.revision }),
+                contentHash: entry.contentHash,
+                vector: vectors[index],
+                updatedAt: new Date().toISOString()
+            };
+            cache.set(entry.testCaseId, await this.storage.saveTestCaseEmbedding(embedding));
+        }
+
+        // Drop embeddings of test cases that are no longer stored
+        for (const testCaseId of [...cache.keys()].filter(testCaseId => !grouped.has(testCaseId))) {
+            await this.storage.deleteTestCaseEmbedding(resourceId, testCaseId);
+        }
+
+        if (stale.length > 0) {
+            console.log(`🧮 Computed ${stale.length} test case embedding(s) for resourceId: ${resourceId} (${entries.length - stale.length} cached)`);
+        }
+
+        return {
+            testCases: entries.map(entry => ({
+                testCaseId: entry.testCaseId,
+                name: entry.name,
+                suiteIds: entry.suiteIds,
+                vector: cache.get(entry.testCaseId)!.vector
+            })),
+            computed: stale.length,
+            cached: entries.length - stale.length
+        };
+    }
+
+    /**
+     * Cluster test cases whose similarity is at least the threshold. Clusters are transitive: A~B and B~C
+     * put A, B and C together even if A and C are further apart.
+     */
+    async findDuplicates(resourceId: string, threshold: number = resolveDuplicateThreshold()): Promise<DuplicateReport> {
+        const { testCases, computed, cached } = await this.getEmbeddedTestCases(resourceId);
+
+        // Union-find over the test case indexes
+        const parents = testCases.map((_, index) => index);
+        const root = (index: number): number => parents[index] === index ? index : (parents[index] = root(parents[index]));
+        const pairs: Array<{ a: number; b: number; similarity: number }> = [];
+
+        for (let a = 0; a < testCases.length; a++) {
+            for (let b = a + 1; b < testCases.length; b++) {
+                const similarity = cosineSimilarity(testCases[a].vector, testCases[b].vector);
+                if (similarity >= threshold) {
+                    pairs.push({ a, b, similarity });
+                    parents[root(b)] = root(a);
+                }
+            }
+        }
+
+        const clusters = new Map<number, DuplicateCluster>();
+        for (const pair of pairs) {
+            const clusterRoot = root(pair.a);
+            const cluster = clusters.get(clusterRoot) || { testCases: [], maxSimilarity: 0, pairs: [] };
+            const similarity = Math.round(pair.similarity * 1000) / 1000;
+            cluster.pairs.push({ testCaseIds: [testCases[pair.a].testCaseId, testCases[pair.b].testCaseId], similarity });
+            cluster.maxSimilarity = Math.max(cluster.maxSimilarity, similarity);
+            clusters.set(clusterRoot, cluster);
+        }
+        for (const [index, testCase] of testCases.entries()) {
+            clusters.get(root(index))?.testCases.push({ testCaseId: testCase.testCaseId, name: testCase.name, suiteIds: testCase.suiteIds });
+        }
+
+        console.log(`🔍 Found ${clusters.size} duplicate cluster(s) among ${testCases.length} test case(s) for resourceId: ${resourceId}`);
+        return {
+            resourceId,
+            model: this.provider.model,
+            threshold,
+            testCases: testCases.length,
+            embeddingsComputed: computed,
+            embeddingsCached: cached,
+            clusters: [...clusters.values()].sort((a, b) => b.testCases.length - a.testCases.length || b.maxSimilarity - a.maxSimilarity)
+        };
+    }
+}
@@ -0,0 +1,33 @@
+import { readFileSync } from 'fs';
+import { AzureOpenAIService } from './AzureOpenAIService';
+
+/**
+ * Generate test plan recommendations for a PRD file without the server or ADO, e.g. in CI with
+ * LLM_PROVIDER=mock. Existing test cases can be passed as a JSON array (stored TestCase or ADO shape).
+ * Usage: npm run recommendations:generate -- <prd.md> [existing-test-cases.json]
+ */
+async function main(): Promise<void> {
+    const [prdFile, existingFile] = process.argv.slice(2);
+    if (!prdFile) {
+        throw new Error('Usage: npm run recommendations:generate -- <prd.md> [existing-test-cases.json]');
+    }
+
+    const prd = readFileSync(prdFile, 'utf8');
+    const existingTestCases = existingFile ? JSON.parse(readFileSync(existingFile, 'utf8')) : [];
+
+    const service = new AzureOpenAIService();
+    console.log(`Generating recommendations for ${prdFile} with ${service.model}...`);
+    const result = await service.generateTestPlanRecommendations(prd, existingTestCases, 'local');
+
+    console.log(JSON.stringify(result, null, 2));
+    console.log(`Done: ${result.recommendations.length} recommendation(s), ${result.dropped.length} dropped, ${result.duplicates.length} duplicate(s) of existing test cases (check ${result.duplicateCheck.status}), ${result.attempts} model call(s)`);
+
+    if (result.recommendations.length === 0) {
+        process.exit(1);
+    }
+}
+
+main().catch(error => {
+    console.error('Generating recommendations failed:', error.message || error);
+    process.exit(1);
+});
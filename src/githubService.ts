@@ -20,6 +20,34 @@ export interface GitHubIssueResponse {
     updated_at: string;
 }
 
+export interface GitHubIssueCommentResponse {
+    id: number;
+    html_url: string;
+    created_at: string;
+}
+
+export interface GitHubLinkedPullRequest {
+    number: number;
+    url: string;
+    state: string;
+    merged: boolean;
+}
+
+/**
+ * Current state of an issue as tracked on test cases
+ */
+export interface GitHubIssueState {
+    number: number;
+    html_url: string;
+    state: string;
+    state_reason?: string | null;
+    assignees: string[];
+    labels: string[];
+    closed_at?: string | null;
+    updated_at: string;
+    linkedPullRequests: GitHubLinkedPullRequest[];
+}
+
 export class GitHubService {
     private octokit: Octokit;
 
@@ -122,6 +150,153 @@ export class GitHubService {
         }
     }
 
+    /**
+     * Get a single issue by number
+     */
+    async getIssue(githubUrl: string, issueNumber: number): Promise<GitHubIssueResponse> {
+        try {
+            const { owner, repo } = this.parseGitHubUrl(githubUrl);
+
+            const response = await this.octokit.rest.issues.get({
+                owner,
+                repo,
+                issue_number: issueNumber
+            });
+
+            return {
+                id: response.data.id,
+                number: response.data.number,
+                title: response.data.title,
+                html_url: response.data.html_url,
+                state: response.data.state,
+                created_at: response.data.created_at,
+                updated_at: response.data.updated_at
+            };
+        } catch (error: any) {
+            console.error(`Error getting GitHub issue #${issueNumber}:`, error);
+            throw new Error(`Failed to get GitHub issue #${issueNumber}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Get the state, assignees, labels and linked pull requests of an issue.
+     * Pull requests are linked when they reference the issue (e.g. "Fixes #12"), which shows up as a
+     * cross-referenced event on the issue timeline.
+     */
+    async getIssueState(githubUrl: string, issueNumber: number): Promise<GitHubIssueState> {
+        try {
+            const { owner, repo } = this.parseGitHubUrl(githubUrl);
+
+            const { data: issue } = await this.octokit.rest.issues.get({
+                owner,
+                repo,
+                issue_number: issueNumber
+            });
+
+            const timeline: any[] = await this.octokit.paginate(this.octokit.rest.issues.listEventsForTimeline, {
+                owner,
+                repo,
+                issue_number: issueNumber,
+                per_page: 100
+            });
+
+            const linkedPullRequests = new Map<number, GitHubLinkedPullRequest>();
+            for (const event of timeline) {
+                const source = event.event === 'cross-referenced' ? event.source?.issue : undefined;
+                if (source?.pull_request) {
+                    linkedPullRequests.set(source.number, {
+                        number: source.number,
+                        url: source.html_url,
+                        state: source.state,
+                        merged: !!source.pull_request.merged_at
+                    });
+                }
+            }
+
+            return {
+                number: issue.number,
+                html_url: issue.html_url,
+                state: issue.state,
+                state_reason: issue.state_reason,
+                assignees: (issue.assignees || []).map(assignee => assignee.login),
+                labels: issue.labels.map(label => typeof label === 'string' ? label : label.name || '').filter(Boolean),
+                closed_at: issue.closed_at,
+                updated_at: issue.updated_at,
+                linkedPullRequests: [...linkedPullRequests.values()]
+            };
+        } catch (error: any) {
+            console.error(`Error getting state of GitHub issue #${issueNumber}:`, error);
+            throw new Error(`Failed to get state of GitHub issue #${issueNumber}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Find an open issue carrying the given label whose body contains every marker line.
+     * Issues created by this API embed the test case and resource ids in their body, which is what is matched on.
+     */
+    async findOpenIssue(githubUrl: string, label: string, markers: string[]): Promise<GitHubIssueResponse | null> {
+        try {
+            const { owner, repo } = this.parseGitHubUrl(githubUrl);
+
+            const issues = await this.octokit.paginate(this.octokit.rest.issues.listForRepo, {
+                owner,
+                repo,
+                state: 'open',
+                labels: label,
+                per_page: 100
+            });
+
+            // The issues endpoint also returns pull requests
+            const issue = issues.find(candidate =>
+                !candidate.pull_request && markers.every(marker => (candidate.body || '').includes(marker))
+            );
+
+            if (!issue) {
+                return null;
+            }
+
+            return {
+                id: issue.id,
+                number: issue.number,
+                title: issue.title,
+                html_url: issue.html_url,
+                state: issue.state,
+                created_at: issue.created_at,
+                updated_at: issue.updated_at
+            };
+        } catch (error: any) {
+            console.error('Error searching GitHub issues:', error);
+            throw new Error(`Failed to search GitHub issues: ${error.message}`);
+        }
+    }
+
+    /**
+     * Add a comment to an existing issue
+     */
+    async addIssueComment(githubUrl: string, issueNumber: number, body: string): Promise<GitHubIssueCommentResponse> {
+        try {
+            const { owner, repo } = this.parseGitHubUrl(githubUrl);
+
+            const response = await this.octokit.rest.issues.createComment({
+                owner,
+                repo,
+                issue_number: issueNumber,
+                body
+            });
+
+            console.log(`✅ Commented on GitHub issue #${issueNumber}: ${response.data.html_url}`);
+
+            return {
+                id: response.data.id,
+                html_url: response.data.html_url,
+                created_at: response.data.created_at
+            };
+        } catch (error: any) {
+            console.error(`Error commenting on GitHub issue #${issueNumber}:`, error);
+            throw new Error(`Failed to comment on GitHub issue #${issueNumber}: ${error.message}`);
+        }
+    }
+
     /**
      * Test GitHub API connection
      */
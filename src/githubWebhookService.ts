@@ -0,0 +1,160 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { CosmosService, TestCase, TestCaseDocument, WebhookDelivery } from './cosmosService';
+import { describeIssueState, toIssueStatus } from './issueStateReconciler';
+
+// Closing keywords GitHub recognizes in pull request titles and bodies, e.g. "Fixes #12"
+const CLOSING_REFERENCE = /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*:?\s+#(\d+)\b/gi;
+
+/**
+ * Check an X-Hub-Signature-256 header ("sha256=<hex hmac>") against the raw request body
+ */
+export function verifyWebhookSignature(secret: string, rawBody: Buffer, signature: string | undefined): boolean {
+    if (!signature || !signature.startsWith('sha256=')) {
+        return false;
+    }
+
+    const expected = Buffer.from(signWebhookPayload(secret, rawBody));
+    const received = Buffer.from(signature);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Signature GitHub would send for a payload (also used to replay recorded deliveries)
+ */
+export function signWebhookPayload(secret: string, rawBody: Buffer | string): string {
+    return `sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`;
+}
+
+/**
+ * Applies GitHub webhook events to the test cases linked to the affected issues, so their
+ * status follows GitHub without waiting for the scheduled reconciliation.
+ * Every delivery is recorded so it can be inspected and replayed.
+ */
+export class GitHubWebhookService {
+    constructor(private storage: CosmosService) {}
+
+    async handle(event: string, deliveryId: string, payload: any): Promise<WebhookDelivery> {
+        const receivedAt = new Date().toISOString();
+        let testCasesUpdated = 0;
+        let handlingError: string | undefined;
+
+        console.log(`📨 GitHub webhook ${event}${payload?.action ? `.${payload.action}` : ''} (delivery ${deliveryId})`);
+
+        try {
+            switch (event) {
+                case 'issues':
+                    testCasesUpdated = await this.handleIssueEvent(payload, receivedAt);
+                    break;
+                case 'issue_comment':
+                    testCasesUpdated = await this.handleIssueCommentEvent(payload, receivedAt);
+                    break;
+                case 'pull_request':
+                    testCasesUpdated = await this.handlePullRequestEvent(payload, receivedAt);
+                    break;
+                default:
+                    console.log(`ℹ️ Ignoring GitHub webhook event: ${event}`);
+            }
+        } catch (error: any) {
+            console.error(`Failed to handle GitHub webhook delivery ${deliveryId}:`, error);
+            handlingError = error?.message || 'Unknown error';
+        }
+
+        const delivery = await this.storage.saveWebhookDelivery({
+            deliveryId,
+            event,
+            ...(payload?.action && { action: payload.action }),
+            receivedAt,
+            payload,
+            testCasesUpdated,
+            ...(handlingError && { error: handlingError })
+        });
+
+        if (handlingError) {
+            throw new Error(handlingError);
+        }
+
+        console.log(`✅ GitHub webhook delivery ${deliveryId}: ${testCasesUpdated} test case(s) updated`);
+        return delivery;
+    }
+
+    private async handleIssueEvent(payload: any, syncedAt: string): Promise<number> {
+        const issue = payload.issue;
+        if (!issue || issue.pull_request) {
+            return 0;
+        }
+
+        const testCases = await this.storage.findLinkedTestCases({ githubIssueId: issue.id });
+        return this.updateTestCases(testCases, {
+            status: toIssueStatus(issue.state),
+            githubUrl: issue.html_url,
+            githubIssueState: describeIssueState(issue.state, issue.state_reason),
+            githubAssignees: (issue.assignees || []).map((assignee: any) => assignee.login),
+            githubLabels: (issue.labels || []).map((label: any) => typeof label === 'string' ? label : label.name),
+            githubSyncedAt: syncedAt
+        });
+    }
+
+    private async handleIssueCommentEvent(payload: any, syncedAt: string): Promise<number> {
+        const { issue, comment } = payload;
+        // Comments on pull requests are delivered as issue comments too
+        if (payload.action !== 'created' || !issue || !comment || issue.pull_request) {
+            return 0;
+        }
+
+        const testCases = await this.storage.findLinkedTestCases({ githubIssueId: issue.id });
+        return this.updateTestCases(testCases, {
+            githubLastComment: {
+                author: comment.user?.login || 'unknown',
+                url: comment.html_url,
+                createdAt: comment.created_at
+            },
+            githubSyncedAt: syncedAt
+        });
+    }
+
+    /**
+     * A pull request whose title or body says it fixes an issue (e.g. "fixes #12") is recorded
+     * as the fix on the test cases linked to that issue
+     */
+    private async handlePullRequestEvent(payload: any, syncedAt: string): Promise<number> {
+        const { pull_request: pullRequest, repository } = payload;
+        if (!pullRequest || !repository?.html_url) {
+            return 0;
+        }
+
+        const issueNumbers = new Set(
+            [...`${pullRequest.title || ''}\n${pullRequest.body || ''}`.matchAll(CLOSING_REFERENCE)].map(match => Number(match[1]))
+        );
+
+        const fix = {
+            number: pullRequest.number,
+            url: pullRequest.html_url,
+            state: pullRequest.state,
+            merged: !!pullRequest.merged_at,
+            ...(pullRequest.user?.login && { author: pullRequest.user.login })
+        };
+
+        let updated = 0;
+        for (const issueNumber of issueNumbers) {
+            const testCases = await this.storage.findLinkedTestCases({ githubUrl: `${repository.html_url}/issues/${issueNumber}` });
+
+            for (const testCase of testCases) {
+                const linkedPullRequests = (testCase.githubLinkedPullRequests || []).filter(linked => linked.number !== fix.number);
+                updated += await this.updateTestCases([testCase], {
+                    githubFixPullRequest: fix,
+                    githubLinkedPullRequests: [...linkedPullRequests, { number: fix.number, url: fix.url, state: fix.state, merged: fix.merged }],
+                    githubSyncedAt: syncedAt
+                });
+            }
+        }
+
+        return updated;
+    }
+
+    private async updateTestCases(testCases: TestCaseDocument[], updates: Partial<TestCase>): Promise<number> {
+        for (const testCase of testCases) {
+            await this.storage.patchTestCase(testCase.resourceId, testCase.suiteId, testCase.testCaseId, updates);
+        }
+        return testCases.length;
+    }
+}
@@ -0,0 +1,148 @@
+import { AutoFiledIssue, Connection, CosmosService, TestCaseDocument, TestResultReport } from './cosmosService';
+import { GitHubIssueData, GitHubIssueResponse, GitHubService } from './githubService';
+
+// Labels every issue created by this API carries; the first one is also used to look issues up again
+const API_LABELS = ['ado-test-api', 'automated-issue'];
+const FAILURE_LABEL = 'test-failure';
+
+/**
+ * Files GitHub issues for failed test results according to the connection's issue_policy.
+ * A test case gets at most one open issue: later failures are added to it as comments.
+ */
+export class IssueAutoFiler {
+    constructor(private storage: CosmosService, private githubService: GitHubService) {}
+
+    async fileFailures(connection: Connection, report: TestResultReport): Promise<AutoFiledIssue[]> {
+        const policy = connection.issue_policy;
+        if (!policy?.enabled || !connection.github_url) {
+            return [];
+        }
+
+        const threshold = Math.max(1, policy.failureThreshold || 1);
+        const assignees = policy.assignees && policy.assignees.length > 0
+            ? await this.githubService.validateAssignees(connection.github_url, policy.assignees)
+            : [];
+
+        // The same ADO test case can be stored in several suites; it still gets a single issue
+        const failures = new Map<string, TestResultReport['matched'][number]>();
+        for (const entry of report.matched) {
+            if (entry.outcome === 'Failed' && !failures.has(entry.testCaseId)) {
+                failures.set(entry.testCaseId, entry);
+            }
+        }
+
+        const issues: AutoFiledIssue[] = [];
+        for (const [testCaseId, failure] of failures.entries()) {
+            try {
+                const testCases = await this.storage.findTestCases(connection.resourceId, testCaseId);
+                const streak = Math.max(0, ...testCases.map(testCase => testCase.consecutiveFailures || 0));
+
+                if (streak < threshold) {
+                    issues.push({ testCaseId, action: 'skipped', reason: `Failed ${streak} time(s) in a row, threshold is ${threshold}` });
+                    continue;
+                }
+
+                const existingIssue = await this.findOpenIssue(connection, testCaseId, testCases);
+                if (existingIssue) {
+                    await this.githubService.addIssueComment(connection.github_url, existingIssue.number, this.buildCommentBody(failure, report, streak));
+                    await this.recordIssue(connection.resourceId, testCases, existingIssue);
+                    issues.push({ testCaseId, action: 'commented', issueNumber: existingIssue.number, url: existingIssue.html_url });
+                    continue;
+                }
+
+                const issueData: GitHubIssueData = {
+                    title: `Test failure: ${testCases[0]?.name || failure.title}`,
+                    body: this.buildIssueBody(connection, testCaseId, failure, report),
+                    labels: [...new Set([...(policy.labels || []), ...API_LABELS, FAILURE_LABEL])],
+                    assignees
+                };
+
+                const createdIssue = await this.githubService.createIssue(connection.github_url, issueData);
+                await this.recordIssue(connection.resourceId, testCases, createdIssue);
+                issues.push({ testCaseId, action: 'created', issueNumber: createdIssue.number, url: createdIssue.html_url });
+            } catch (error: any) {
+                console.error(`Failed to file GitHub issue for test case ${testCaseId}:`, error);
+                issues.push({ testCaseId, action: 'failed', reason: error?.message || 'Unknown error' });
+            }
+        }
+
+        const created = issues.filter(issue => issue.action === 'created').length;
+        const commented = issues.filter(issue => issue.action === 'commented').length;
+        console.log(`🐛 Auto-filed issues for report ${report.reportId}: ${created} created, ${commented} commented`);
+        return issues;
+    }
+
+    /**
+     * Look for an open issue about the test case: first the issue already linked to it, then
+     * an open API issue whose body references the same test case and resource
+     */
+    private async findOpenIssue(connection: Connection, testCaseId: string, testCases: TestCaseDocument[]): Promise<GitHubIssueResponse | null> {
+        const linkedIssueNumber = testCases.find(testCase => testCase.githubIssueNumber)?.githubIssueNumber;
+        if (linkedIssueNumber) {
+            try {
+                const linkedIssue = await this.githubService.getIssue(connection.github_url, linkedIssueNumber);
+                if (linkedIssue.state === 'open') {
+                    return linkedIssue;
+                }
+            } catch (error) {
+                console.warn(`Linked GitHub issue #${linkedIssueNumber} could not be read, searching open issues instead`);
+            }
+        }
+
+        return this.githubService.findOpenIssue(connection.github_url, API_LABELS[0], [
+            `- **Test Case ID:** ${testCaseId}\n`,
+            `- **Resource ID:** ${connection.resourceId}\n`
+        ]);
+    }
+
+    private async recordIssue(resourceId: string, testCases: TestCaseDocument[], issue: GitHubIssueResponse): Promise<void> {
+        for (const testCase of testCases) {
+            await this.storage.patchTestCase(resourceId, testCase.suiteId, testCase.testCaseId, {
+                issueId: issue.number.toString(),
+                status: 'Created',
+                githubUrl: issue.html_url,
+                githubIssueNumber: issue.number,
+                githubIssueId: issue.id
+            });
+        }
+    }
+
+    /**
+     * Same footer as manually created issues, so either kind is found again by findOpenIssue
+     */
+    private buildIssueBody(connection: Connection, testCaseId: string, failure: TestResultReport['matched'][number], report: TestResultReport): string {
+        return `The automated test \`${failure.title}\` failed.
+
+${this.describeFailure(failure, report)}
+
+---
+**Test Case Information:**
+- **Test Case ID:** ${testCaseId}
+- **Resource ID:** ${connection.resourceId}
+- **ADO URL:** ${connection.ado_url}
+- **Website:** ${connection.website_url}
+- **Created:** ${new Date().toISOString()}
+
+*This issue was automatically created from Azure DevOps Test Plans API*`;
+    }
+
+    private buildCommentBody(failure: TestResultReport['matched'][number], report: TestResultReport, streak: number): string {
+        return `The automated test \`${failure.title}\` failed again (${streak} failure(s) in a row).
+
+${this.describeFailure(failure, report)}`;
+    }
+
+    private describeFailure(failure: TestResultReport['matched'][number], report: TestResultReport): string {
+        const lines = [
+            `- **Report:** ${report.reportId} (${report.format}, ${report.receivedAt})`,
+            `- **Duration:** ${failure.durationMs} ms`
+        ];
+        if (failure.attachments.length > 0) {
+            lines.push(`- **Attachments:** ${failure.attachments.join(', ')}`);
+        }
+        if (failure.errorMessage) {
+            lines.push('', '```', failure.errorMessage, '```');
+        }
+        return lines.join('\n');
+    }
+}
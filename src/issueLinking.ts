@@ -0,0 +1,56 @@
+import { ConcurrencyConflictError, CosmosService, TestCase, TestCaseDocument } from './cosmosService';
+
+export interface IssueLinkResult {
+    /** Test case documents the issue fields were written to */
+    testCases: TestCaseDocument[];
+    /** Suite of the test case that changed since the client read it; it and the ones after it were not updated */
+    conflictSuiteId?: string;
+}
+
+/**
+ * Writes the fields of a GitHub issue created through the API to the stored copies of its test case.
+ * A test case in several suites is stored once per suite, so the client sends one ETag per document.
+ */
+export class TestCaseIssueLinker {
+    constructor(private storage: CosmosService) {}
+
+    /**
+     * The test case itself (in any suite) or, for backwards compatibility, every test case of the suite with this id
+     */
+    async findTargets(resourceId: string, testCaseId: string): Promise<TestCaseDocument[]> {
+        const targets = await this.storage.findTestCases(resourceId, testCaseId);
+        return targets.length > 0 ? targets : this.storage.getTestCases(resourceId, testCaseId);
+    }
+
+    /**
+     * Targets whose current ETag is not one of the expected ones. Checked before the issue is filed,
+     * so a client holding a stale copy doesn't create a duplicate issue.
+     */
+    findStale(targets: TestCaseDocument[], expectedEtags?: string[]): TestCaseDocument[] {
+        return expectedEtags ? targets.filter(target => !expectedEtags.includes(target._etag!)) : [];
+    }
+
+    /**
+     * Patch only the issue fields of the targets, still guarded by their ETags in case a test case
+     * changed while the issue was being filed. Stops at the first conflict.
+     */
+    async link(resourceId: string, targets: TestCaseDocument[], issueUpdates: Partial<TestCase>, expectedEtags?: string[]): Promise<IssueLinkResult> {
+        const testCases: TestCaseDocument[] = [];
+
+        for (const target of targets) {
+            try {
+                const patched = await this.storage.patchTestCase(resourceId, target.suiteId, target.testCaseId, issueUpdates, expectedEtags && target._etag);
+                if (patched) {
+                    testCases.push(patched);
+                }
+            } catch (error) {
+                if (!(error instanceof ConcurrencyConflictError)) {
+                    throw error;
+                }
+                return { testCases, conflictSuiteId: target.suiteId };
+            }
+        }
+
+        return { testCases };
+    }
+}
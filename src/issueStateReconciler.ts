@@ -0,0 +1,136 @@
+import { Connection, CosmosService, IssueSyncState, TestCase, TestCaseDocument } from './cosmosService';
+import { GitHubIssueState, GitHubService } from './githubService';
+
+/**
+ * Test case status for a GitHub issue state
+ */
+export function toIssueStatus(state: string): string {
+    return state === 'closed' ? 'Closed' : 'Open';
+}
+
+/**
+ * Issue state including the close reason, e.g. "closed (not_planned)"
+ */
+export function describeIssueState(state: string, stateReason?: string | null): string {
+    return stateReason ? `${state} (${stateReason})` : state;
+}
+
+/**
+ * Mirrors the state of linked GitHub issues (open/closed, assignees, labels, linked pull requests)
+ * back onto the test cases that reference them through githubIssueNumber.
+ * Runs on demand per resource, and for every connection on an interval once started.
+ */
+export class IssueStateReconciler {
+    // Reconciliations in progress per resource, so concurrent triggers share one run
+    private inFlight: Map<string, Promise<IssueSyncState>> = new Map();
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(private storage: CosmosService, private githubService: GitHubService) {}
+
+    reconcile(connection: Connection): Promise<IssueSyncState> {
+        const running = this.inFlight.get(connection.resourceId);
+        if (running) {
+            return running;
+        }
+
+        const run = this.runReconcile(connection).finally(() => this.inFlight.delete(connection.resourceId));
+        this.inFlight.set(connection.resourceId, run);
+        return run;
+    }
+
+    /**
+     * Reconcile every connection that has a GitHub repository configured
+     */
+    async reconcileAll(): Promise<void> {
+        const connections = (await this.storage.getConnections()).filter(connection => connection.github_url);
+
+        for (const connection of connections) {
+            try {
+                await this.reconcile(connection);
+            } catch (error) {
+                console.error(`GitHub issue reconciliation failed for resourceId: ${connection.resourceId}:`, error);
+            }
+        }
+    }
+
+    start(intervalMinutes: number): void {
+        this.stop();
+        console.log(`🔁 Reconciling GitHub issue state every ${intervalMinutes} minute(s)`);
+
+        this.timer = setInterval(() => {
+            this.reconcileAll().catch(error => console.error('Scheduled GitHub issue reconciliation failed:', error));
+        }, intervalMinutes * 60 * 1000);
+        // Don't keep the process alive just for the schedule
+        this.timer.unref();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private async runReconcile(connection: Connection): Promise<IssueSyncState> {
+        const { resourceId } = connection;
+        const syncedAt = new Date().toISOString();
+
+        const linkedTestCases = (await this.storage.getTestCases(resourceId)).filter(testCase => testCase.githubIssueNumber);
+        const byIssue = new Map<number, TestCaseDocument[]>();
+        for (const testCase of linkedTestCases) {
+            byIssue.set(testCase.githubIssueNumber!, [...(byIssue.get(testCase.githubIssueNumber!) || []), testCase]);
+        }
+
+        console.log(`🔄 Reconciling ${byIssue.size} GitHub issue(s) for resourceId: ${resourceId}`);
+
+        let testCasesUpdated = 0;
+        const errors: IssueSyncState['errors'] = [];
+
+        for (const [issueNumber, testCases] of byIssue.entries()) {
+            try {
+                const issue = await this.githubService.getIssueState(connection.github_url, issueNumber);
+                const updates = this.toTestCaseFields(issue);
+
+                for (const testCase of testCases) {
+                    if (this.hasChanged(testCase, updates)) {
+                        testCasesUpdated++;
+                    }
+                    await this.storage.patchTestCase(resourceId, testCase.suiteId, testCase.testCaseId, {
+                        ...updates,
+                        githubSyncedAt: syncedAt
+                    });
+                }
+            } catch (error: any) {
+                console.warn(`⚠️ Could not reconcile GitHub issue #${issueNumber}:`, error);
+                errors.push({ issueNumber, message: error?.message || 'Unknown error' });
+            }
+        }
+
+        const state = await this.storage.saveIssueSyncState({
+            resourceId,
+            lastSyncedAt: syncedAt,
+            issuesChecked: byIssue.size,
+            testCasesUpdated,
+            errors
+        });
+
+        console.log(`✅ GitHub issue reconciliation for resourceId: ${resourceId}: ${testCasesUpdated} test case(s) updated, ${errors.length} error(s)`);
+        return state;
+    }
+
+    private toTestCaseFields(issue: GitHubIssueState): Partial<TestCase> {
+        return {
+            status: toIssueStatus(issue.state),
+            githubUrl: issue.html_url,
+            githubIssueState: describeIssueState(issue.state, issue.state_reason),
+            githubAssignees: issue.assignees,
+            githubLabels: issue.labels,
+            githubLinkedPullRequests: issue.linkedPullRequests
+        };
+    }
+
+    private hasChanged(testCase: TestCase, updates: Partial<TestCase>): boolean {
+        return (Object.keys(updates) as Array<keyof TestCase>)
+            .some(field => JSON.stringify(testCase[field] ?? null) !== JSON.stringify(updates[field] ?? null));
+    }
+}
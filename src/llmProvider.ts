@@ -0,0 +1,127 @@
+import * as dotenv from 'dotenv';
+import { MockLlmProvider } from './mockLlmProvider';
+import { AzureOpenAIProvider, OpenAICompatibleProvider } from './openAIProviders';
+
+dotenv.config();
+
+export type LlmProviderKind = 'azure' | 'openai' | 'mock';
+
+export interface LlmMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface LlmCompletionOptions {
+    temperature?: number;
+    maxTokens?: number;
+    topP?: number;
+}
+
+export interface LlmCompletion {
+    content: string;
+    /** The reply was cut off at maxTokens */
+    truncated: boolean;
+}
+
+/**
+ * JSON Schema the reply of a structured output call must follow (OpenAI json_schema response format)
+ */
+export interface LlmResponseSchema {
+    name: string;
+    strict?: boolean;
+    schema: Record<string, any>;
+}
+
+/**
+ * Minimal contract of a language model backend used by the AI features.
+ * Implementations: Azure OpenAI, OpenAI-compatible endpoints (OpenAI, Ollama, llama.cpp...) and a fixture-replaying mock.
+ */
+export interface LlmProvider {
+    readonly kind: LlmProviderKind;
+    /** Model or deployment name, recorded with generated results */
+    readonly model: string;
+    chatCompletion(messages: LlmMessage[], options?: LlmCompletionOptions): Promise<LlmCompletion>;
+    /**
+     * Chat completion whose reply is JSON following the schema. Providers without schema support
+     * fall back to plain JSON mode, so callers still validate the reply.
+     */
+    structuredOutput(messages: LlmMessage[], schema: LlmResponseSchema, options?: LlmCompletionOptions): Promise<LlmCompletion>;
+    /**
+     * One embedding vector per input text
+     */
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Thrown when the LLM provider can't be created or used because of missing or invalid settings
+ */
+export class LlmConfigurationError extends Error {
+    readonly statusCode = 503;
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'LlmConfigurationError';
+    }
+}
+
+// Texts per embeddings request, well below the API limits
+const EMBEDDING_BATCH_SIZE = 100;
+// Embedding models accept ~8k tokens; longer texts are cut to stay below that
+const MAX_EMBEDDING_CHARS = 8000;
+
+/**
+ * Embed any number of texts, EMBEDDING_BATCH_SIZE per request
+ */
+export async function embedInBatches(provider: LlmProvider, texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+        const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE).map(text => text.slice(0, MAX_EMBEDDING_CHARS));
+        vectors.push(...await provider.embed(batch));
+    }
+    return vectors;
+}
+
+/**
+ * Cosine similarity of two embedding vectors (0 when either is empty)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let index = 0; index < Math.min(a.length, b.length); index++) {
+        dot += a[index] * b[index];
+        normA += a[index] * a[index];
+        normB += b[index] * b[index];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Resolve the configured LLM provider.
+ * LLM_PROVIDER may be "azure", "openai" or "mock"; when unset, Azure OpenAI is used.
+ */
+export function resolveLlmProviderKind(): LlmProviderKind {
+    const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+
+    if (!configured) {
+        return 'azure';
+    }
+    if (configured !== 'azure' && configured !== 'openai' && configured !== 'mock') {
+        throw new LlmConfigurationError(`Unsupported LLM_PROVIDER "${configured}". Expected one of: azure, openai, mock`);
+    }
+    return configured;
+}
+
+/**
+ * Create the LLM provider for the configured (or explicitly requested) kind
+ */
+export function createLlmProvider(kind: LlmProviderKind = resolveLlmProviderKind()): LlmProvider {
+    switch (kind) {
+        case 'azure':
+            return new AzureOpenAIProvider();
+        case 'openai':
+            return new OpenAICompatibleProvider();
+        case 'mock':
+            return new MockLlmProvider();
+    }
+}
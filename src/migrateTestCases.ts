@@ -0,0 +1,21 @@
+import { CosmosService } from './cosmosService';
+
+/**
+ * Split test cases embedded in suite documents into the testCases container.
+ * Usage: npm run migrate:testcases [-- <resourceId>]
+ */
+async function main(): Promise<void> {
+    const resourceId = process.argv[2];
+    const storage = new CosmosService();
+    await storage.initialize();
+
+    console.log(`Migrating embedded test cases ${resourceId ? `for resourceId: ${resourceId}` : 'for all resources'}...`);
+    const result = await storage.migrateEmbeddedTestCases(resourceId);
+
+    console.log(`Done: ${result.suitesMigrated} suite(s), ${result.testCasesMigrated} test case(s) migrated`);
+}
+
+main().catch(error => {
+    console.error('Test case migration failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,94 @@
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import * as path from 'path';
+import { LlmCompletion, LlmConfigurationError, LlmMessage, LlmProvider, LlmProviderKind, LlmResponseSchema } from './llmProvider';
+
+/**
+ * A recorded reply. Fixtures are matched in file name order; the first one whose conditions all hold is replayed.
+ */
+interface LlmFixture {
+    /** Only replay for structured output with this schema name */
+    schema?: string;
+    /** Substring (or "/regex/flags") the last user message must contain */
+    match?: string;
+    /** Reply content; objects are sent as JSON */
+    response: string | Record<string, any>;
+    truncated?: boolean;
+}
+
+// Dimensions of the hashed bag-of-words vectors returned as embeddings
+const EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Deterministic provider for offline runs and CI. Completions replay fixtures from LLM_MOCK_FIXTURES_DIR
+ * (default fixtures/llm, one fixture or an array of fixtures per .json file); embeddings are hashed
+ * bag-of-words vectors, so texts sharing words are similar.
+ */
+export class MockLlmProvider implements LlmProvider {
+    readonly kind: LlmProviderKind = 'mock';
+    readonly model = 'mock';
+    private fixtures: Array<LlmFixture & { file: string }>;
+
+    constructor(fixturesDir: string = process.env.LLM_MOCK_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'llm')) {
+        this.fixtures = MockLlmProvider.loadFixtures(fixturesDir);
+        console.log(`🧪 Mock LLM provider loaded ${this.fixtures.length} fixture(s) from ${fixturesDir}`);
+    }
+
+    async chatCompletion(messages: LlmMessage[]): Promise<LlmCompletion> {
+        return this.replay(messages);
+    }
+
+    async structuredOutput(messages: LlmMessage[], schema: LlmResponseSchema): Promise<LlmCompletion> {
+        return this.replay(messages, schema.name);
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => {
+            const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+            for (const word of text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)) {
+                vector[createHash('sha1').update(word).digest().readUInt32BE(0) % EMBEDDING_DIMENSIONS] += 1;
+            }
+
+            const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+            return vector.map(value => value / norm);
+        });
+    }
+
+    private replay(messages: LlmMessage[], schemaName?: string): LlmCompletion {
+        const lastUserMessage = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+
+        const fixture = this.fixtures.find(candidate =>
+            (candidate.schema === undefined || candidate.schema === schemaName)
+            && (candidate.match === undefined || MockLlmProvider.matches(candidate.match, lastUserMessage))
+        );
+
+        if (!fixture) {
+            throw new Error(`No mock LLM fixture matches this request (schema: ${schemaName || 'none'}): ${lastUserMessage.slice(0, 200)}`);
+        }
+
+        console.log(`🧪 Mock LLM replaying fixture ${fixture.file}`);
+        return {
+            content: typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response),
+            truncated: fixture.truncated || false
+        };
+    }
+
+    private static matches(pattern: string, text: string): boolean {
+        const regex = pattern.match(/^\/(.+)\/([a-z]*)$/s);
+        return regex ? new RegExp(regex[1], regex[2]).test(text) : text.includes(pattern);
+    }
+
+    private static loadFixtures(fixturesDir: string): Array<LlmFixture & { file: string }> {
+        let files: string[];
+        try {
+            files = readdirSync(fixturesDir).filter(file => file.endsWith('.json')).sort();
+        } catch (error) {
+            throw new LlmConfigurationError(`Mock LLM fixtures directory not found: ${fixturesDir}`);
+        }
+
+        return files.flatMap(file => {
+            const content = JSON.parse(readFileSync(path.join(fixturesDir, file), 'utf8'));
+            return (Array.isArray(content) ? content : [content]).map((fixture: LlmFixture) => ({ ...fixture, file }));
+        });
+    }
+}
@@ -0,0 +1,156 @@
+import OpenAI from 'openai';
+import { LlmCompletion, LlmCompletionOptions, LlmConfigurationError, LlmMessage, LlmProvider, LlmProviderKind, LlmResponseSchema } from './llmProvider';
+
+/**
+ * Chat, structured output and embeddings through the OpenAI SDK, shared by the Azure OpenAI and
+ * OpenAI-compatible providers
+ */
+abstract class OpenAIChatProvider implements LlmProvider {
+    abstract readonly kind: LlmProviderKind;
+    // Cleared when the endpoint rejects json_schema response formats (older Azure API versions, some local servers)
+    private supportsJsonSchema = true;
+
+    constructor(protected client: OpenAI, readonly model: string) {}
+
+    async chatCompletion(messages: LlmMessage[], options: LlmCompletionOptions = {}): Promise<LlmCompletion> {
+        return this.complete(messages, options);
+    }
+
+    async structuredOutput(messages: LlmMessage[], schema: LlmResponseSchema, options: LlmCompletionOptions = {}): Promise<LlmCompletion> {
+        if (this.supportsJsonSchema) {
+            try {
+                return await this.complete(messages, options, { type: 'json_schema', json_schema: schema });
+            } catch (error: any) {
+                if (error?.status !== 400 || !/response_format|json_schema/i.test(error?.message || '')) {
+                    throw error;
+                }
+                console.warn(`⚠️ ${this.model} does not support structured output, falling back to JSON mode`);
+                this.supportsJsonSchema = false;
+            }
+        }
+
+        return this.complete(messages, options, { type: 'json_object' });
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        if (texts.length === 0) {
+            return [];
+        }
+
+        const response = await this.embeddingClient().embeddings.create({
+            model: this.embeddingModel(),
+            input: texts
+        });
+        return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    }
+
+    protected abstract embeddingClient(): OpenAI;
+
+    protected abstract embeddingModel(): string;
+
+    private async complete(
+        messages: LlmMessage[],
+        options: LlmCompletionOptions,
+        responseFormat?: OpenAI.ChatCompletionCreateParams['response_format']
+    ): Promise<LlmCompletion> {
+        const response = await this.client.chat.completions.create({
+            model: this.model,
+            messages,
+            ...(responseFormat && { response_format: responseFormat }),
+            temperature: options.temperature ?? 0.7,
+            max_tokens: options.maxTokens ?? 4000,
+            top_p: options.topP ?? 0.9
+        });
+
+        const content = response.choices[0]?.message?.content;
+        if (!content) {
+            throw new Error(`No response content received from ${this.model}`);
+        }
+
+        return { content, truncated: response.choices[0]?.finish_reason === 'length' };
+    }
+}
+
+/**
+ * Azure OpenAI deployment. Each deployment has its own URL, so embeddings use a second client
+ * for AZURE_OPENAI_EMBEDDING_DEPLOYMENT.
+ */
+export class AzureOpenAIProvider extends OpenAIChatProvider {
+    readonly kind: LlmProviderKind = 'azure';
+    private endpoint: string;
+    private apiKey: string;
+    private apiVersion: string;
+    private embeddings: OpenAI | null = null;
+
+    constructor() {
+        const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+        const apiKey = process.env.AZURE_OPENAI_API_KEY;
+        const deploymentName = process.env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-4';
+        // Structured output (json_schema) needs 2024-08-01-preview or later
+        const apiVersion = process.env.AZURE_OPENAI_API_VERSION || '2024-08-01-preview';
+
+        if (!endpoint || !apiKey) {
+            throw new LlmConfigurationError('Azure OpenAI configuration missing. Please set AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY environment variables.');
+        }
+
+        super(AzureOpenAIProvider.createClient(endpoint, apiKey, apiVersion, deploymentName), deploymentName);
+        this.endpoint = endpoint;
+        this.apiKey = apiKey;
+        this.apiVersion = apiVersion;
+    }
+
+    protected embeddingClient(): OpenAI {
+        if (!this.embeddings) {
+            this.embeddings = AzureOpenAIProvider.createClient(this.endpoint, this.apiKey, this.apiVersion, this.embeddingModel());
+        }
+        return this.embeddings;
+    }
+
+    protected embeddingModel(): string {
+        const deployment = process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT;
+        if (!deployment) {
+            throw new LlmConfigurationError('Azure OpenAI configuration missing. Please set AZURE_OPENAI_EMBEDDING_DEPLOYMENT to use embeddings.');
+        }
+        return deployment;
+    }
+
+    private static createClient(endpoint: string, apiKey: string, apiVersion: string, deploymentName: string): OpenAI {
+        return new OpenAI({
+            apiKey,
+            baseURL: `${endpoint}/openai/deployments/${deploymentName}`,
+            defaultQuery: { 'api-version': apiVersion },
+            defaultHeaders: {
+                'api-key': apiKey,
+            }
+        });
+    }
+}
+
+/**
+ * Any endpoint speaking the OpenAI API: OpenAI itself or local servers such as Ollama
+ * (http://localhost:11434/v1) and llama.cpp (http://localhost:8080/v1)
+ */
+export class OpenAICompatibleProvider extends OpenAIChatProvider {
+    readonly kind: LlmProviderKind = 'openai';
+
+    constructor() {
+        const model = process.env.OPENAI_MODEL;
+        if (!model) {
+            throw new LlmConfigurationError('OpenAI configuration missing. Please set OPENAI_MODEL (and OPENAI_BASE_URL for non-OpenAI endpoints).');
+        }
+
+        super(new OpenAI({
+            // Local servers don't check the key, but the SDK requires one
+            apiKey: process.env.OPENAI_API_KEY || 'not-needed',
+            baseURL: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1'
+        }), model);
+    }
+
+    protected embeddingClient(): OpenAI {
+        return this.client;
+    }
+
+    protected embeddingModel(): string {
+        return process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+    }
+}
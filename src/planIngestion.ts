@@ -0,0 +1,64 @@
+import { AzureDevOpsTestPlansClient } from './AzureDevOpsTestPlansClient';
+import { TestCase, TestSuite } from './cosmosService';
+
+/**
+ * Flatten parsed ADO steps into the "Step N: action - Expected: result" strings stored on TestCase.steps
+ */
+export function formatParsedSteps(parsedSteps?: any[]): string[] {
+    if (!parsedSteps || parsedSteps.length === 0) {
+        return ["No test steps available"];
+    }
+
+    return parsedSteps.map((step: any, index: number) => {
+        if (step.action && step.expectedResult) {
+            return `Step ${index + 1}: ${step.action} - Expected: ${step.expectedResult}`;
+        } else if (step.action) {
+            return `Step ${index + 1}: ${step.action}`;
+        } else {
+            return `Step ${index + 1}: No action specified`;
+        }
+    });
+}
+
+/**
+ * Convert the result of getTestPlanWithSuitesAndTestCases into stored test suites.
+ * Suite ids follow the "<planId>-<suiteId>" convention used across the API.
+ */
+export function transformPlanSuites(resourceId: string, plan: any, planWithSuitesAndTestCases: any): TestSuite[] {
+    return planWithSuitesAndTestCases.suites.map((suite: any) => ({
+        resourceId,
+        name: `${plan.name} - ${suite.name}`,
+        testCaseId: `${plan.id}-${suite.id}`,
+        testCases: suite.testCases.map(toStoredTestCase)
+    }));
+}
+
+/**
+ * Convert test case details (as returned by getTestCaseDetails) into the stored TestCase shape
+ */
+export function toStoredTestCase(testCase: any): TestCase {
+    return {
+        testCaseId: String(testCase.testCaseId || testCase.id),
+        name: testCase.fields?.title || 'Untitled Test Case',
+        steps: formatParsedSteps(testCase.parsedSteps),
+        ...(testCase.revision !== undefined && { revision: testCase.revision }),
+        ...(testCase.parameters && { parameters: testCase.parameters })
+    };
+}
+
+/**
+ * Pick the ADO client for a connection: a connection-specific client when the connection points at
+ * another dev.azure.com organization, otherwise (or if that fails) the default server client
+ */
+export async function resolveAdoClient(adoUrl: string | undefined, defaultClient: AzureDevOpsTestPlansClient): Promise<AzureDevOpsTestPlansClient> {
+    if (!adoUrl || adoUrl === process.env.AZURE_DEVOPS_ORG_URL || !/^https:\/\/dev\.azure\.com\//.test(adoUrl)) {
+        return defaultClient;
+    }
+
+    try {
+        return await AzureDevOpsTestPlansClient.createWithConnectionInfo(adoUrl);
+    } catch (error) {
+        console.warn('Failed to use connection-specific ADO client, falling back to default:', error);
+        return defaultClient;
+    }
+}
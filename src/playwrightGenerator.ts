@@ -0,0 +1,272 @@
+import { TestCase } from './cosmosService';
+import { LlmProvider } from './llmProvider';
+import { TestCaseParameters, isParameterName, substituteParameters } from './testParameters';
+
+/**
+ * A generated Playwright spec file for one test case
+ */
+export interface GeneratedSpec {
+    testCaseId: string;
+    fileName: string;
+    content: string;
+    /** Steps contain locators suggested by the LLM instead of TODOs only */
+    aiSuggested: boolean;
+}
+
+interface SkeletonStep {
+    action: string;
+    expectedResult?: string;
+    /** AI-suggested code lines */
+    actions?: string[];
+    assertions?: string[];
+}
+
+/**
+ * Schema of the LLM reply with suggested Playwright code per step
+ */
+const PLAYWRIGHT_STEPS_JSON_SCHEMA = {
+    name: 'playwright_steps',
+    strict: true,
+    schema: {
+        type: 'object',
+        properties: {
+            steps: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        step: { type: 'integer', description: 'Step number, starting at 1' },
+                        actions: { type: 'array', items: { type: 'string' }, description: 'Playwright statements performing the action' },
+                        assertions: { type: 'array', items: { type: 'string' }, description: 'expect() statements checking the expected result' }
+                    },
+                    required: ['step', 'actions', 'assertions'],
+                    additionalProperties: false
+                }
+            }
+        },
+        required: ['steps'],
+        additionalProperties: false
+    }
+};
+
+// Suggested lines are only used when they are a single page or expect statement
+const SUGGESTED_STATEMENT = /^await (?:page\.|expect\(page)[^`\n]*\);?$/;
+
+/**
+ * Turns stored ADO test cases into Playwright spec skeletons: one test per test case, one test.step
+ * per ADO step. The ADO id is added as TestCaseId annotation and @TC tag, so results ingested from the
+ * generated tests map back to the test case. Data-driven test cases get one test per data row, annotated
+ * with its Iteration number.
+ */
+export class PlaywrightSkeletonGenerator {
+    /**
+     * @param provider Optional LLM provider; when given, locators and assertions are suggested for each step
+     */
+    constructor(private provider?: LlmProvider) {}
+
+    async generate(testCase: TestCase, websiteUrl: string): Promise<GeneratedSpec> {
+        const testCaseId = String(testCase.testCaseId);
+        let steps = this.toSkeletonSteps(testCase);
+        let aiSuggested = false;
+
+        if (this.provider && steps.length > 0) {
+            try {
+                steps = await this.suggestCode(testCase.name, steps, websiteUrl, iterationsOf(testCase));
+                aiSuggested = steps.some(step => step.actions?.length || step.assertions?.length);
+            } catch (error) {
+                console.warn(`⚠️ Could not suggest Playwright code for test case ${testCaseId}, generating TODOs:`, error);
+            }
+        }
+
+        return {
+            testCaseId,
+            fileName: `${testCaseId}-${slugify(testCase.name) || 'test'}.spec.ts`,
+            content: this.render(testCaseId, testCase, steps, websiteUrl),
+            aiSuggested
+        };
+    }
+
+    /**
+     * Action and expected result of each step: from detailedSteps, or parsed back from the
+     * "Step 1: action - Expected: result" lines stored at sync time
+     */
+    private toSkeletonSteps(testCase: TestCase): SkeletonStep[] {
+        if (testCase.detailedSteps && testCase.detailedSteps.length > 0) {
+            return testCase.detailedSteps.map(step => ({ action: step.action, expectedResult: step.expectedResult || undefined }));
+        }
+
+        return (testCase.steps || [])
+            .filter(step => step && step !== 'No test steps available')
+            .map(step => {
+                const match = step.match(/^Step \d+:\s*([\s\S]*?)(?:\s+-\s+Expected:\s*([\s\S]*))?$/);
+                return match
+                    ? { action: match[1], expectedResult: match[2] || undefined }
+                    : { action: step };
+            });
+    }
+
+    private async suggestCode(title: string, steps: SkeletonStep[], websiteUrl: string, parameters?: TestCaseParameters): Promise<SkeletonStep[]> {
+        const { content } = await this.provider!.structuredOutput([
+            {
+                role: 'system',
+                content: `You write Playwright tests in TypeScript. For each manual test step, return the statements that perform it
+("actions") and expect() statements that check its expected result ("assertions").
+Every statement is a single line starting with "await page." or "await expect(page".
+Prefer user-facing locators (getByRole, getByLabel, getByText, getByPlaceholder) over CSS selectors.
+Return an empty list when a step can't be automated from its description.${parameters ? `
+The test runs once per data row: use row.<name> for the @<name> parameters in the steps (${parameters.names.map(name => `row.${name}`).join(', ')}).` : ''}`
+            },
+            {
+                role: 'user',
+                content: `Website: ${websiteUrl}
+Test: ${title}
+Steps:
+${steps.map((step, index) => `${index + 1}. ${step.action}${step.expectedResult ? `\n   Expected: ${step.expectedResult}` : ''}`).join('\n')}`
+            }
+        ], PLAYWRIGHT_STEPS_JSON_SCHEMA, { temperature: 0.2, maxTokens: 2000 });
+
+        const parsed = JSON.parse(content.replace(/```json\s*\n?/g, '').replace(/```\s*\n?/g, '').trim());
+        if (!parsed || !Array.isArray(parsed.steps)) {
+            throw new Error('Reply must be an object with a "steps" array');
+        }
+
+        const statements = (lines: any) => (Array.isArray(lines) ? lines : [])
+            .filter((line: any): line is string => typeof line === 'string')
+            .map(line => line.trim())
+            .filter(line => SUGGESTED_STATEMENT.test(line))
+            .map(line => line.endsWith(';') ? line : `${line};`);
+
+        return steps.map((step, index) => {
+            const suggestion = parsed.steps.find((candidate: any) => candidate?.step === index + 1);
+            return suggestion
+                ? { ...step, actions: statements(suggestion.actions), assertions: statements(suggestion.assertions) }
+                : step;
+        });
+    }
+
+    private render(testCaseId: string, testCase: TestCase, steps: SkeletonStep[], websiteUrl: string): string {
+        const parameters = iterationsOf(testCase);
+        const lines = [
+            `import { test, expect } from '@playwright/test';`,
+            ``,
+            `// Generated from Azure DevOps test case ${testCaseId}${testCase.revision !== undefined ? ` (revision ${testCase.revision})` : ''}: ${comment(testCase.name)}`,
+            `// Replace the TODOs with the automation; keep the TestCaseId annotation so results map back to ADO.`,
+            ``,
+            `const BASE_URL = process.env.BASE_URL || ${quote(websiteUrl)};`,
+            ``
+        ];
+
+        const body = [`await page.goto(BASE_URL);`];
+        if (steps.length === 0) {
+            body.push(``, `// TODO: the test case has no steps in Azure DevOps`);
+        }
+
+        steps.forEach((step, index) => {
+            const title = `${index + 1}. ${step.action}`;
+            body.push(``, `await test.step(${parameters ? template(title, parameters.names) : quote(title)}, async () => {`);
+
+            if (step.actions && step.actions.length > 0) {
+                body.push(`    // AI-suggested, verify before relying on it`, ...step.actions.map(line => `    ${line}`));
+            } else {
+                body.push(`    // TODO: ${comment(step.action)}`);
+            }
+
+            if (step.expectedResult) {
+                body.push(`    // Expected: ${comment(step.expectedResult)}`);
+            }
+            if (step.assertions && step.assertions.length > 0) {
+                body.push(...step.assertions.map(line => `    ${line}`));
+            } else if (step.expectedResult) {
+                body.push(`    // TODO: await expect(page.getByText('...')).toBeVisible();`);
+            }
+
+            body.push(`});`);
+        });
+
+        const indent = (depth: number) => (line: string) => line ? `${' '.repeat(depth)}${line}` : line;
+
+        if (!parameters) {
+            lines.push(
+                `test(${quote(testCase.name)}, {`,
+                `    tag: ${quote(`@TC${testCaseId}`)},`,
+                `    annotation: { type: 'TestCaseId', description: ${quote(testCaseId)} }`,
+                `}, async ({ page }) => {`,
+                ...body.map(indent(4)),
+                `});`,
+                ``
+            );
+            return lines.join('\n');
+        }
+
+        lines.push(
+            `// One test per data row (iteration) of the test case; @name in the steps is row.name`,
+            `const ITERATIONS = [`,
+            ...parameters.rows.map(row => `    { ${parameters.names.map(name => `${name}: ${quote(row[name] ?? '')}`).join(', ')} },`),
+            `];`,
+            ``,
+            `for (const [index, row] of ITERATIONS.entries()) {`,
+            `    test(${template(testCase.name, []).slice(0, -1)} [\${index + 1}]\`, {`,
+            `        tag: ${quote(`@TC${testCaseId}`)},`,
+            `        annotation: [`,
+            `            { type: 'TestCaseId', description: ${quote(testCaseId)} },`,
+            `            { type: 'Iteration', description: String(index + 1) }`,
+            `        ]`,
+            `    }, async ({ page }) => {`,
+            ...body.map(indent(8)),
+            `    });`,
+            `}`,
+            ``
+        );
+        return lines.join('\n');
+    }
+}
+
+/**
+ * Parameters of a data-driven test case, when it has rows to iterate over. Names are written into the
+ * spec as identifiers (row.<name>), so stored names that aren't valid parameter names are left out.
+ */
+function iterationsOf(testCase: TestCase): TestCaseParameters | undefined {
+    const names = (testCase.parameters?.names || []).filter(isParameterName);
+    return testCase.parameters && names.length > 0 && testCase.parameters.rows.length > 0
+        ? { ...testCase.parameters, names }
+        : undefined;
+}
+
+/**
+ * Playwright config for a downloaded suite. The JSON reporter output can be posted to POST /:resourceId/results.
+ */
+export function playwrightConfig(websiteUrl: string): string {
+    return [
+        `import { defineConfig } from '@playwright/test';`,
+        ``,
+        `export default defineConfig({`,
+        `    testDir: './tests',`,
+        `    reporter: [['list'], ['json', { outputFile: 'results.json' }]],`,
+        `    use: {`,
+        `        baseURL: process.env.BASE_URL || ${quote(websiteUrl)},`,
+        `        trace: 'retain-on-failure'`,
+        `    }`,
+        `});`,
+        ``
+    ].join('\n');
+}
+
+export function slugify(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+}
+
+function quote(text: string): string {
+    return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\s*\r?\n\s*/g, ' ')}'`;
+}
+
+/**
+ * Template literal of a text, with the @name placeholders of the parameters read from the current row
+ */
+function template(text: string, names: string[]): string {
+    const escaped = comment(text).replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+    return `\`${substituteParameters(escaped, names, name => `\${row.${name}}`)}\``;
+}
+
+function comment(text: string): string {
+    return text.replace(/\s*\r?\n\s*/g, ' ').trim();
+}
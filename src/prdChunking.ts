@@ -0,0 +1,280 @@
+import { flattenTestSteps, parseTestSteps } from './testStepsXml';
+
+/**
+ * A part of a PRD that is sent to the model on its own
+ */
+export interface PrdSection {
+    /** Heading path, e.g. "2. Functional Requirements > 2.1 Workspace Management" */
+    title: string;
+    content: string;
+    tokens: number;
+}
+
+/**
+ * An addressable requirement of a PRD: a numbered heading ("#### 2.2.1 View Access Tokens")
+ */
+export interface PrdRequirement {
+    /** Section number ("2.2.1"), or a slug of the heading path for PRDs without numbered headings */
+    id: string;
+    title: string;
+    /** Id of the enclosing requirement */
+    parentId?: string;
+    /** Heading path, e.g. "2. Functional Requirements > 2.2 Access Token Management > 2.2.1 View Access Tokens" */
+    path: string;
+    /** Text under the heading, up to the next heading */
+    content: string;
+}
+
+// Headings as written in our PRDs: markdown headings ("## 2.1 Workspace Management")
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+// Section numbering at the start of a heading: "2.", "2.1", "2.1.1"
+const SECTION_NUMBER = /^(\d+(?:\.\d+)*)\.?\s+(.+)$/;
+
+// Rough tokenizer estimate for GPT models on English text and markdown (cl100k averages ~4 characters per token)
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the number of tokens a text takes up in a prompt
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Split a PRD into sections of at most maxTokens each, following its headings.
+ * Sections that fit the budget are kept whole (adjacent small sections are packed together),
+ * larger ones are split at their sub-headings and, failing that, at paragraphs.
+ */
+export function splitPrdSections(prd: string, maxTokens: number): PrdSection[] {
+    const text = prd.replace(/\r\n/g, '\n').trim();
+    if (!text) {
+        return [];
+    }
+
+    return packSections(splitText(text, [], Math.max(1, maxTokens)), Math.max(1, maxTokens));
+}
+
+/**
+ * Parse a PRD into requirements, one per numbered heading. PRDs without numbered headings get one
+ * requirement per heading below the document title instead.
+ */
+export function parsePrdRequirements(prd: string): PrdRequirement[] {
+    const headings: Array<{ level: number; text: string; lines: string[] }> = [];
+    for (const line of prd.replace(/\r\n/g, '\n').split('\n')) {
+        const heading = line.match(HEADING);
+        if (heading) {
+            headings.push({ level: heading[1].length, text: heading[2], lines: [] });
+        } else if (headings.length > 0) {
+            headings[headings.length - 1].lines.push(line);
+        }
+    }
+
+    const numbered = headings.some(heading => SECTION_NUMBER.test(heading.text));
+    const topLevel = Math.min(...headings.map(heading => heading.level));
+    const requirements: PrdRequirement[] = [];
+    // Enclosing requirements of the current heading, outermost first
+    const stack: Array<{ level: number; requirement: PrdRequirement }> = [];
+
+    for (const heading of headings) {
+        const number = heading.text.match(SECTION_NUMBER);
+        if (numbered ? !number : heading.level === topLevel) {
+            continue;
+        }
+
+        while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+            stack.pop();
+        }
+        const parent = stack[stack.length - 1]?.requirement;
+        const path = parent ? `${parent.path} > ${heading.text}` : heading.text;
+
+        let id = number ? number[1] : slugify(path);
+        // Keep ids unique when a PRD repeats a number or heading
+        for (let suffix = 2; requirements.some(requirement => requirement.id === id); suffix++) {
+            id = `${number ? number[1] : slugify(path)}-${suffix}`;
+        }
+
+        const requirement: PrdRequirement = {
+            id,
+            title: number ? number[2] : heading.text,
+            ...(parent && { parentId: parent.id }),
+            path,
+            content: heading.lines.join('\n').trim()
+        };
+        requirements.push(requirement);
+        stack.push({ level: heading.level, requirement });
+    }
+
+    return requirements;
+}
+
+function slugify(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Condense existing test cases to titles and step actions, so they can be compared with the PRD
+ * without pasting whole ADO payloads into the prompt. Test cases that don't fit maxTokens are
+ * listed by title only, and once titles don't fit either they are counted.
+ */
+export function condenseTestCases(testCases: any[], maxTokens: number): string {
+    const condensed = testCases.map(toCondensedTestCase);
+    const lines: string[] = [];
+    let tokens = 0;
+    let omitted = 0;
+
+    for (const testCase of condensed) {
+        const full = [`- ${testCase.title}`, ...testCase.steps.map((step, index) => `  ${index + 1}. ${step}`)].join('\n');
+        const titleOnly = `- ${testCase.title}`;
+
+        if (tokens + estimateTokens(full) <= maxTokens) {
+            lines.push(full);
+            tokens += estimateTokens(full);
+        } else if (tokens + estimateTokens(titleOnly) <= maxTokens) {
+            lines.push(titleOnly);
+            tokens += estimateTokens(titleOnly);
+        } else {
+            omitted++;
+        }
+    }
+
+    if (omitted > 0) {
+        lines.push(`- ... and ${omitted} more test case(s)`);
+    }
+    return lines.join('\n');
+}
+
+function splitText(text: string, path: string[], maxTokens: number): PrdSection[] {
+    if (estimateTokens(text) <= maxTokens) {
+        return [toSection(path, text)];
+    }
+
+    const lines = text.split('\n');
+    // The section's own heading (first line) stays with its intro text
+    const headingLevels = lines
+        .slice(1)
+        .map(line => line.match(HEADING)?.[1].length)
+        .filter((level): level is number => level !== undefined);
+
+    if (headingLevels.length > 0) {
+        const level = Math.min(...headingLevels);
+        const parts: Array<{ heading?: string; lines: string[] }> = [{ lines: [] }];
+
+        lines.forEach((line, index) => {
+            const heading = line.match(HEADING);
+            if (index > 0 && heading && heading[1].length === level) {
+                parts.push({ heading: heading[2], lines: [] });
+            }
+            parts[parts.length - 1].lines.push(line);
+        });
+
+        return parts
+            .filter(part => part.lines.join('\n').trim())
+            .flatMap(part => {
+                const partPath = part.heading ? [...path, part.heading] : path;
+                return splitText(part.lines.join('\n').trim(), partPath, maxTokens);
+            });
+    }
+
+    return splitParagraphs(text, path, maxTokens);
+}
+
+/**
+ * Last resort for a section without sub-headings: pack its paragraphs (and cut paragraphs that
+ * are too long on their own) into parts that fit the budget
+ */
+function splitParagraphs(text: string, path: string[], maxTokens: number): PrdSection[] {
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    const pieces = text
+        .split(/\n\s*\n/)
+        .flatMap(paragraph => {
+            const cut: string[] = [];
+            for (let start = 0; start < paragraph.length; start += maxChars) {
+                cut.push(paragraph.slice(start, start + maxChars));
+            }
+            return cut;
+        });
+
+    const parts: string[] = [];
+    for (const piece of pieces) {
+        const last = parts[parts.length - 1];
+        if (last !== undefined && estimateTokens(`${last}\n\n${piece}`) <= maxTokens) {
+            parts[parts.length - 1] = `${last}\n\n${piece}`;
+        } else {
+            parts.push(piece);
+        }
+    }
+
+    return parts.map((part, index) => toSection(path, part, parts.length > 1 ? ` (part ${index + 1}/${parts.length})` : ''));
+}
+
+/**
+ * Merge adjacent sections while they fit the budget, so small sections don't each cost a model call
+ */
+function packSections(sections: PrdSection[], maxTokens: number): PrdSection[] {
+    const packed: PrdSection[] = [];
+
+    for (const section of sections) {
+        const last = packed[packed.length - 1];
+        const content = last ? `${last.content}\n\n${section.content}` : section.content;
+
+        if (last && estimateTokens(content) <= maxTokens) {
+            packed[packed.length - 1] = {
+                title: last.title === section.title ? last.title : `${last.title}; ${section.title}`,
+                content,
+                tokens: estimateTokens(content)
+            };
+        } else {
+            packed.push(section);
+        }
+    }
+
+    return packed;
+}
+
+function toSection(path: string[], content: string, suffix = ''): PrdSection {
+    return {
+        title: `${path.length > 0 ? path.join(' > ') : 'PRD'}${suffix}`,
+        content,
+        tokens: estimateTokens(content)
+    };
+}
+
+/**
+ * Title and step actions of a test case, whichever shape it comes in: an ADO suite test case
+ * (workItem with workItemFields), test case details (fields.title / parsedSteps) or a stored TestCase
+ */
+export function toCondensedTestCase(testCase: any): { title: string; steps: string[] } {
+    const workItemFields: Record<string, any> = Object.assign({}, ...(testCase.workItem?.workItemFields || []));
+    const title = testCase.workItem?.name
+        || workItemFields['System.Title']
+        || testCase.fields?.title
+        || testCase.name
+        || testCase.title
+        || `Test case ${testCase.workItem?.id || testCase.testCaseId || testCase.id || ''}`.trim();
+
+    let steps: string[] = [];
+    if (Array.isArray(testCase.parsedSteps)) {
+        steps = testCase.parsedSteps.map((step: any) => step.action).filter(Boolean);
+    } else if (workItemFields['Microsoft.VSTS.TCM.Steps']) {
+        steps = stepActionsFromXml(workItemFields['Microsoft.VSTS.TCM.Steps']);
+    } else if (Array.isArray(testCase.steps)) {
+        steps = testCase.steps.filter((step: any) => typeof step === 'string' && step !== 'No test steps available');
+    }
+
+    return { title: String(title), steps };
+}
+
+/**
+ * Action text of each step in a Microsoft.VSTS.TCM.Steps XML value
+ */
+function stepActionsFromXml(stepsXml: string): string[] {
+    try {
+        return flattenTestSteps(parseTestSteps(stepsXml).steps)
+            .map(step => step.kind === 'step' ? step.action.text.replace(/\s+/g, ' ') : '')
+            .filter(Boolean);
+    } catch (error) {
+        console.warn('Failed to parse test steps XML:', error);
+        return [];
+    }
+}
@@ -0,0 +1,120 @@
+import { AzureDevOpsTestPlansClient } from './AzureDevOpsTestPlansClient';
+import { TestPlanRecommendation } from './AzureOpenAIService';
+
+type RecommendedTestCase = TestPlanRecommendation['testCases'][number];
+
+export interface ApplyRecommendationsOptions {
+    /** Suite the test cases are added to (defaults to the plan's root suite) */
+    suiteId?: number;
+    /** Create a static suite named after each recommendation instead, under parentSuiteId or the root suite */
+    createSuite?: boolean;
+    parentSuiteId?: number;
+    areaPath?: string;
+    iterationPath?: string;
+}
+
+export interface AppliedRecommendation {
+    recommendation: string;
+    suiteId?: number;
+    suiteCreated: boolean;
+    testCases: Array<{ title: string; workItemId?: number; error?: string }>;
+    error?: string;
+}
+
+// ADO Microsoft.VSTS.Common.Priority values
+const ADO_PRIORITIES: Record<RecommendedTestCase['priority'], number> = {
+    Critical: 1,
+    High: 2,
+    Medium: 3,
+    Low: 4
+};
+
+/**
+ * Turns accepted AI recommendations into ADO test case work items and adds them to a suite
+ */
+export class RecommendationApplier {
+    // Root suite per plan, looked up once
+    private rootSuiteIds: Map<number, number> = new Map();
+
+    constructor(private client: AzureDevOpsTestPlansClient) {}
+
+    async apply(planId: number, recommendations: TestPlanRecommendation[], options: ApplyRecommendationsOptions = {}): Promise<AppliedRecommendation[]> {
+        const applied: AppliedRecommendation[] = [];
+
+        for (const recommendation of recommendations) {
+            const result: AppliedRecommendation = { recommendation: recommendation.name, suiteCreated: false, testCases: [] };
+            applied.push(result);
+
+            try {
+                const suiteId = await this.resolveSuite(planId, recommendation, options);
+                result.suiteId = suiteId;
+                result.suiteCreated = !!options.createSuite;
+
+                for (const testCase of recommendation.testCases) {
+                    try {
+                        const workItem = await this.client.createTestCase(
+                            testCase.title,
+                            this.toStepsText(testCase),
+                            ADO_PRIORITIES[testCase.priority] || ADO_PRIORITIES.Medium,
+                            options.areaPath,
+                            options.iterationPath
+                        );
+                        result.testCases.push({ title: testCase.title, workItemId: workItem.id });
+                    } catch (error: any) {
+                        result.testCases.push({ title: testCase.title, error: error?.message || 'Unknown error' });
+                    }
+                }
+
+                const workItemIds = result.testCases
+                    .map(testCase => testCase.workItemId)
+                    .filter((id): id is number => id !== undefined);
+                if (workItemIds.length > 0) {
+                    await this.client.addTestCasesToSuite(planId, suiteId, workItemIds.map(String));
+                }
+            } catch (error: any) {
+                console.error(`Failed to apply recommendation "${recommendation.name}":`, error);
+                result.error = error?.message || 'Unknown error';
+            }
+        }
+
+        const created = applied.reduce((count, result) => count + result.testCases.filter(testCase => testCase.workItemId).length, 0);
+        console.log(`✅ Applied ${recommendations.length} recommendation(s) to plan ${planId}: ${created} test case(s) created`);
+        return applied;
+    }
+
+    private async resolveSuite(planId: number, recommendation: TestPlanRecommendation, options: ApplyRecommendationsOptions): Promise<number> {
+        if (options.createSuite) {
+            const suite = await this.client.createStaticTestSuite(planId, recommendation.name, options.parentSuiteId);
+            return suite.id;
+        }
+        if (options.suiteId) {
+            return options.suiteId;
+        }
+
+        if (!this.rootSuiteIds.has(planId)) {
+            const rootSuiteId = (await this.client.getTestPlan(planId))?.rootSuite?.id;
+            if (!rootSuiteId) {
+                throw new Error(`Test plan ${planId} not found or has no root suite`);
+            }
+            this.rootSuiteIds.set(planId, rootSuiteId);
+        }
+        return this.rootSuiteIds.get(planId)!;
+    }
+
+    /**
+     * Steps in the "1. Action|Expected result" line format createTestCase expects.
+     * The recommendation's expected result belongs to its last step.
+     */
+    private toStepsText(testCase: RecommendedTestCase): string {
+        // "|" and line breaks are separators in that format
+        const clean = (text: string) => text.replace(/[|\r\n]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+        return testCase.steps
+            .map((step, index) => {
+                const action = clean(step.replace(/^\s*(?:step\s*)?\d+[.:)]\s*/i, ''));
+                const expected = index === testCase.steps.length - 1 && testCase.expectedResult ? `|${clean(testCase.expectedResult)}` : '';
+                return `${index + 1}. ${action}${expected}`;
+            })
+            .join('\n');
+    }
+}
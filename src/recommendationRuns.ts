@@ -0,0 +1,187 @@
+import { createHash, randomUUID } from 'crypto';
+import { TestPlanRecommendation } from './AzureOpenAIService';
+import { ConcurrencyConflictError, CosmosService, RecommendationRun, RecommendationState, ReviewedRecommendation } from './cosmosService';
+import { DroppedRecommendation } from './recommendationSchema';
+
+// Most recent rejections sent back to the model, to keep the prompt size bounded
+const MAX_REJECTED_FEEDBACK = 50;
+
+/**
+ * A review that can't be applied to the recommendation (unknown id, missing reason, already applied)
+ */
+export class RecommendationReviewError extends Error {
+    constructor(message: string, readonly statusCode: number) {
+        super(message);
+        this.name = 'RecommendationReviewError';
+    }
+}
+
+export interface RecommendationReview {
+    state: Exclude<RecommendationState, 'applied'>;
+    /** Required when rejecting */
+    reason?: string;
+    reviewedBy?: string;
+}
+
+export interface RejectedRecommendation {
+    title: string;
+    reason?: string;
+}
+
+/**
+ * Stores generated recommendations as runs and tracks their review:
+ * proposed -> accepted / rejected -> applied (once created in ADO)
+ */
+export class RecommendationRunService {
+    constructor(private storage: CosmosService) {}
+
+    async createRun(
+        resourceId: string,
+        planId: string,
+        prd: string,
+        model: string,
+        recommendations: TestPlanRecommendation[],
+        dropped: DroppedRecommendation[]
+    ): Promise<RecommendationRun> {
+        const run = await this.storage.saveRecommendationRun({
+            resourceId,
+            runId: randomUUID(),
+            planId: String(planId),
+            prdHash: createHash('sha256').update(prd).digest('hex'),
+            model,
+            createdAt: new Date().toISOString(),
+            recommendations: recommendations.map((recommendation, index) => ({
+                id: String(index + 1),
+                state: 'proposed',
+                recommendation
+            })),
+            dropped
+        });
+
+        console.log(`💾 Saved recommendation run ${run.runId} (${recommendations.length} recommendation(s)) for resourceId: ${resourceId}`);
+        return run;
+    }
+
+    async getRun(resourceId: string, runId: string): Promise<RecommendationRun | null> {
+        return this.storage.getRecommendationRun(resourceId, runId);
+    }
+
+    async listRuns(resourceId: string, planId?: string): Promise<RecommendationRun[]> {
+        return this.storage.getRecommendationRuns(resourceId, planId);
+    }
+
+    /**
+     * Recommendations rejected in earlier runs for the plan, newest first and one per title
+     */
+    async getRejected(resourceId: string, planId: string): Promise<RejectedRecommendation[]> {
+        const rejected = new Map<string, RejectedRecommendation>();
+
+        for (const run of await this.storage.getRecommendationRuns(resourceId, String(planId))) {
+            const reviewed = run.recommendations
+                .filter(item => item.state === 'rejected')
+                .sort((a, b) => (b.reviewedAt || '').localeCompare(a.reviewedAt || ''));
+
+            for (const item of reviewed) {
+                const key = item.recommendation.name.trim().toLowerCase();
+                if (!rejected.has(key)) {
+                    rejected.set(key, { title: item.recommendation.name, reason: item.rejectionReason });
+                }
+            }
+        }
+
+        return [...rejected.values()].slice(0, MAX_REJECTED_FEEDBACK);
+    }
+
+    /**
+     * Accept, reject or reopen (proposed) a recommendation. Returns null when the run doesn't exist.
+     */
+    async review(
+        resourceId: string,
+        runId: string,
+        recommendationId: string,
+        review: RecommendationReview,
+        ifMatch?: string
+    ): Promise<RecommendationRun | null> {
+        const run = await this.storage.getRecommendationRun(resourceId, runId);
+        if (!run) {
+            return null;
+        }
+
+        const item = this.findRecommendation(run, recommendationId);
+        if (item.state === 'applied') {
+            throw new RecommendationReviewError(`Recommendation ${recommendationId} was already applied to ADO`, 409);
+        }
+
+        const reason = review.reason?.trim();
+        if (review.state === 'rejected' && !reason) {
+            throw new RecommendationReviewError('A reason is required to reject a recommendation', 400);
+        }
+
+        const reviewed: ReviewedRecommendation = {
+            id: item.id,
+            state: review.state,
+            recommendation: item.recommendation,
+            ...(review.state === 'rejected' && { rejectionReason: reason }),
+            ...(review.state !== 'proposed' && {
+                reviewedAt: new Date().toISOString(),
+                ...(review.reviewedBy && { reviewedBy: review.reviewedBy })
+            })
+        };
+
+        const saved = await this.storage.saveRecommendationRun({
+            ...run,
+            recommendations: run.recommendations.map(existing => existing.id === item.id ? reviewed : existing),
+            // A client-supplied ETag must match the run it reviewed, otherwise the one just read must still be current
+            _etag: ifMatch || run._etag
+        });
+
+        console.log(`📝 Recommendation ${recommendationId} of run ${runId} marked ${review.state}`);
+        return saved;
+    }
+
+    /**
+     * Record the ADO work items created for recommendations of a run. Retries once when the run
+     * was reviewed concurrently, since the applied state has to be kept either way.
+     */
+    async markApplied(
+        resourceId: string,
+        runId: string,
+        applied: Array<{ recommendationId: string; workItemIds: number[]; suiteId?: number }>
+    ): Promise<RecommendationRun | null> {
+        for (let attempt = 1; ; attempt++) {
+            const run = await this.storage.getRecommendationRun(resourceId, runId);
+            if (!run) {
+                return null;
+            }
+
+            const appliedAt = new Date().toISOString();
+            const recommendations = run.recommendations.map(item => {
+                const result = applied.find(entry => entry.recommendationId === item.id);
+                return result ? {
+                    ...item,
+                    state: 'applied' as const,
+                    adoWorkItemIds: result.workItemIds,
+                    ...(result.suiteId !== undefined && { adoSuiteId: result.suiteId }),
+                    appliedAt
+                } : item;
+            });
+
+            try {
+                return await this.storage.saveRecommendationRun({ ...run, recommendations });
+            } catch (error) {
+                if (!(error instanceof ConcurrencyConflictError) || attempt > 1) {
+                    throw error;
+                }
+                console.warn(`⚠️ Recommendation run ${runId} changed while applying, retrying`);
+            }
+        }
+    }
+
+    findRecommendation(run: RecommendationRun, recommendationId: string): ReviewedRecommendation {
+        const item = run.recommendations.find(candidate => candidate.id === recommendationId);
+        if (!item) {
+            throw new RecommendationReviewError(`Recommendation ${recommendationId} not found in run ${run.runId}`, 404);
+        }
+        return item;
+    }
+}
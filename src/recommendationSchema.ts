@@ -0,0 +1,184 @@
+/**
+ * A recommended E2E test as returned by the model in "recommended_e2e_tests"
+ */
+export interface E2ETestRecommendation {
+    title: string;
+    prd_reference: string;
+    reason: string;
+    missing_in_ado: boolean;
+    steps: string[];
+}
+
+/**
+ * A recommendation that failed validation and was left out of the result
+ */
+export interface DroppedRecommendation {
+    index: number;
+    /** PRD section the recommendation was generated for, when the PRD was split */
+    section?: string;
+    title?: string;
+    errors: string[];
+}
+
+export interface RecommendationValidationResult {
+    recommendations: E2ETestRecommendation[];
+    dropped: DroppedRecommendation[];
+    /** Problems with the reply as a whole (not JSON, no recommended_e2e_tests array...) */
+    errors: string[];
+}
+
+/**
+ * JSON Schema for the model reply, used with structured output (response_format json_schema).
+ * Strict mode requires every property to be listed as required and no additional properties.
+ */
+export const RECOMMENDATIONS_JSON_SCHEMA = {
+    name: 'recommended_e2e_tests',
+    strict: true,
+    schema: {
+        type: 'object',
+        properties: {
+            recommended_e2e_tests: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        title: { type: 'string', description: 'Descriptive scenario title' },
+                        prd_reference: { type: 'string', description: 'Section or line in the PRD that defines the requirement' },
+                        reason: { type: 'string', description: 'Why this test is required' },
+                        missing_in_ado: { type: 'boolean' },
+                        steps: { type: 'array', items: { type: 'string' } }
+                    },
+                    required: ['title', 'prd_reference', 'reason', 'missing_in_ado', 'steps'],
+                    additionalProperties: false
+                }
+            }
+        },
+        required: ['recommended_e2e_tests'],
+        additionalProperties: false
+    }
+};
+
+/**
+ * Parse a model reply and validate every recommendation field by field.
+ * Invalid recommendations are dropped (and reported) instead of failing the whole reply.
+ */
+export function validateRecommendationsReply(content: string): RecommendationValidationResult {
+    const result: RecommendationValidationResult = { recommendations: [], dropped: [], errors: [] };
+
+    let parsed: any;
+    try {
+        // Models without structured output sometimes still wrap the JSON in markdown code blocks
+        parsed = JSON.parse(content.replace(/```json\s*\n?/g, '').replace(/```\s*\n?/g, '').trim());
+    } catch (error) {
+        result.errors.push(`Reply is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return result;
+    }
+
+    if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.recommended_e2e_tests)) {
+        result.errors.push('Reply must be an object with a "recommended_e2e_tests" array');
+        return result;
+    }
+
+    parsed.recommended_e2e_tests.forEach((test: any, index: number) => {
+        const errors = validateRecommendation(test);
+        if (errors.length > 0) {
+            result.dropped.push({
+                index,
+                ...(typeof test?.title === 'string' && test.title.trim() && { title: test.title.trim() }),
+                errors
+            });
+            return;
+        }
+
+        result.recommendations.push({
+            title: test.title.trim(),
+            prd_reference: test.prd_reference.trim(),
+            reason: test.reason.trim(),
+            missing_in_ado: test.missing_in_ado,
+            steps: test.steps.map((step: string) => step.trim())
+        });
+    });
+
+    return result;
+}
+
+function validateRecommendation(test: any): string[] {
+    if (!test || typeof test !== 'object' || Array.isArray(test)) {
+        return ['must be an object'];
+    }
+
+    const errors: string[] = [];
+    for (const field of ['title', 'reason'] as const) {
+        if (typeof test[field] !== 'string' || !test[field].trim()) {
+            errors.push(`"${field}" must be a non-empty string`);
+        }
+    }
+    if (typeof test.prd_reference !== 'string') {
+        errors.push('"prd_reference" must be a string');
+    }
+    if (typeof test.missing_in_ado !== 'boolean') {
+        errors.push('"missing_in_ado" must be a boolean');
+    }
+    if (!Array.isArray(test.steps) || test.steps.length === 0) {
+        errors.push('"steps" must be a non-empty array');
+    } else {
+        test.steps.forEach((step: any, stepIndex: number) => {
+            if (typeof step !== 'string' || !step.trim()) {
+                errors.push(`"steps[${stepIndex}]" must be a non-empty string`);
+            }
+        });
+    }
+
+    return errors;
+}
+
+/**
+ * Merge recommendations generated for different PRD sections. Recommendations with the same
+ * (or nearly the same) title are combined: the one with the most steps is kept and the PRD
+ * references of both are listed.
+ */
+export function mergeRecommendations(tests: E2ETestRecommendation[]): E2ETestRecommendation[] {
+    const merged: Array<{ words: Set<string>; test: E2ETestRecommendation }> = [];
+
+    for (const test of tests) {
+        const words = titleWords(test.title);
+        const duplicate = merged.find(entry => similarity(entry.words, words) >= DUPLICATE_TITLE_SIMILARITY);
+
+        if (!duplicate) {
+            merged.push({ words, test });
+            continue;
+        }
+
+        const references = [...new Set([duplicate.test.prd_reference, test.prd_reference].filter(Boolean))];
+        const kept = test.steps.length > duplicate.test.steps.length ? test : duplicate.test;
+        duplicate.test = {
+            ...kept,
+            prd_reference: references.join('; '),
+            missing_in_ado: duplicate.test.missing_in_ado || test.missing_in_ado
+        };
+        duplicate.words = titleWords(kept.title);
+    }
+
+    return merged.map(entry => entry.test);
+}
+
+// Share of title words two recommendations need in common to count as the same scenario
+const DUPLICATE_TITLE_SIMILARITY = 0.8;
+
+// Words that don't tell scenarios apart ("Create a new workspace" is "Create new workspace")
+const STOP_WORDS = new Set(['a', 'an', 'the', 'and', 'or', 'of', 'to', 'for', 'in', 'on', 'with', 'by', 'from']);
+
+function titleWords(title: string): Set<string> {
+    return new Set(title.toLowerCase().split(/[^a-z0-9]+/).filter(word => word && !STOP_WORDS.has(word)));
+}
+
+/**
+ * Jaccard similarity of two word sets
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) {
+        return 1;
+    }
+    const shared = [...a].filter(word => b.has(word)).length;
+    return shared / (a.size + b.size - shared);
+}
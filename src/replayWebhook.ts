@@ -0,0 +1,61 @@
+import { randomUUID } from 'crypto';
+import { readFileSync } from 'fs';
+import * as dotenv from 'dotenv';
+import { signWebhookPayload } from './githubWebhookService';
+
+dotenv.config();
+
+/**
+ * Replay a recorded GitHub webhook payload against a running server, signed with GITHUB_WEBHOOK_SECRET.
+ * The file is either a delivery saved from GET /webhooks/github/deliveries/:deliveryId ({ event, payload })
+ * or a raw payload, in which case the event name must be passed.
+ * Usage: npm run webhook:replay -- <file.json> [event] [url]
+ */
+async function main(): Promise<void> {
+    const [file, eventArg, urlArg] = process.argv.slice(2);
+    const secret = process.env.GITHUB_WEBHOOK_SECRET;
+
+    if (!file) {
+        throw new Error('Usage: npm run webhook:replay -- <file.json> [event] [url]');
+    }
+    if (!secret) {
+        throw new Error('GITHUB_WEBHOOK_SECRET is not set');
+    }
+
+    const recorded = JSON.parse(readFileSync(file, 'utf8'));
+    // Deliveries returned by the API are wrapped in { success, data }
+    const delivery = recorded.data?.payload ? recorded.data : recorded;
+    const isDelivery = delivery.payload !== undefined && typeof delivery.event === 'string';
+
+    const event = eventArg || (isDelivery ? delivery.event : undefined);
+    if (!event) {
+        throw new Error('The file is a raw payload, pass the event name (e.g. issues) as second argument');
+    }
+
+    const body = JSON.stringify(isDelivery ? delivery.payload : recorded);
+    const url = urlArg || `http://localhost:${process.env.PORT || 3000}/webhooks/github`;
+    const deliveryId = `replay-${randomUUID()}`;
+
+    console.log(`Replaying ${event} payload from ${file} to ${url} (delivery ${deliveryId})...`);
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'X-GitHub-Event': event,
+            'X-GitHub-Delivery': deliveryId,
+            'X-Hub-Signature-256': signWebhookPayload(secret, body)
+        },
+        body
+    });
+
+    console.log(`${response.status} ${response.statusText}`);
+    console.log(await response.text());
+    if (!response.ok) {
+        process.exit(1);
+    }
+}
+
+main().catch(error => {
+    console.error('Webhook replay failed:', error.message || error);
+    process.exit(1);
+});
@@ -2,10 +2,28 @@ import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
-import { AzureDevOpsTestPlansClient } from './AzureDevOpsTestPlansClient';
+import { AzureDevOpsTestPlansClient, TestPointOutcome, TestSuiteKind, TEST_RUN_OUTCOMES, TEST_SUITE_KINDS } from './AzureDevOpsTestPlansClient';
 import { AzureOpenAIService, TestPlanRecommendation } from './AzureOpenAIService';
-import { CosmosService, Connection, TestSuite, TestCase, TestPlan } from './cosmosService';
+import { CosmosService, Connection, TestSuite, TestCase, TestCaseDocument, TestPlan, TestResultReport, ConcurrencyConflictError, ReviewedRecommendation } from './cosmosService';
+import { DuplicateDetectionService } from './duplicateDetection';
 import { GitHubService, GitHubIssueData } from './githubService';
+import { GitHubWebhookService, verifyWebhookSignature } from './githubWebhookService';
+import { IssueAutoFiler } from './issueAutoFiler';
+import { TestCaseIssueLinker } from './issueLinking';
+import { IssueStateReconciler } from './issueStateReconciler';
+import { LlmConfigurationError, createLlmProvider } from './llmProvider';
+import { RecommendationApplier } from './recommendationApplier';
+import { RecommendationReviewError, RecommendationRunService } from './recommendationRuns';
+import { SharedStepsExtractor } from './sharedStepsExtractor';
+import { TraceabilityError, TraceabilityService } from './traceability';
+import { resolveAdoClient, transformPlanSuites } from './planIngestion';
+import { PlaywrightSkeletonGenerator, playwrightConfig, slugify } from './playwrightGenerator';
+import { SyncJobService } from './syncJobService';
+import { TestResultIngestionService } from './testResultIngestion';
+import { TestReportFormat, detectReportFormat } from './testReportParsers';
+import { createZip } from './zipArchive';
+import { parameterPlaceholders, validateParameters } from './testParameters';
+import { createHash } from 'crypto';
 import * as dotenv from 'dotenv';
 
 // Load environment variables
@@ -16,17 +34,26 @@ const PORT = process.env.PORT || 3000;
 
 // Middleware
 app.use(helmet()); // Security headers
-app.use(cors()); // Enable CORS
+app.use(cors({ exposedHeaders: ['ETag'] })); // Enable CORS (expose ETag for optimistic concurrency)
 app.use(morgan('combined')); // Logging
-app.use(express.json()); // Parse JSON bodies
+// Parse JSON bodies (test reports can be large); the raw bytes are kept for webhook signature checks
+app.use(express.json({
+    limit: '25mb',
+    verify: (req, res, buf) => {
+        (req as any).rawBody = buf;
+    }
+}));
 app.use(express.urlencoded({ extended: true })); // Parse URL-encoded bodies
 
 // Global Azure DevOps client instance
 let adoClient: AzureDevOpsTestPlansClient | null = null;
 
-// Global Cosmos DB service instance
+// Global storage service instance (Cosmos DB, in-memory or file, see STORAGE_BACKEND)
 let cosmosService: CosmosService | null = null;
 
+// Global background sync job engine (created once ADO and storage are ready)
+let syncJobService: SyncJobService | null = null;
+
 // Initialize Azure DevOps client
 async function initializeADOClient(): Promise<void> {
     try {
@@ -39,14 +66,51 @@ async function initializeADOClient(): Promise<void> {
     }
 }
 
+// GitHub issue state reconciler (only available when GITHUB_TOKEN is configured)
+let issueStateReconciler: IssueStateReconciler | null = null;
+
+// Initialize the sync job engine and pick up jobs left behind by a previous run
+async function initializeSyncJobService(): Promise<void> {
+    try {
+        syncJobService = new SyncJobService(cosmosService!, adoClient!);
+        await syncJobService.recover();
+        console.log('Sync job service initialized successfully');
+    } catch (error) {
+        console.error('Failed to initialize sync job service:', error);
+        process.exit(1);
+    }
+}
+
+// Initialize the GitHub issue reconciler and its schedule (GITHUB_ISSUE_SYNC_INTERVAL_MINUTES, 0 disables it)
+function initializeIssueStateReconciler(): void {
+    if (!process.env.GITHUB_TOKEN) {
+        console.warn('⚠️ GITHUB_TOKEN not set, GitHub issue state reconciliation is disabled');
+        return;
+    }
+
+    try {
+        issueStateReconciler = new IssueStateReconciler(cosmosService!, new GitHubService());
+
+        const intervalMinutes = parseFloat(process.env.GITHUB_ISSUE_SYNC_INTERVAL_MINUTES || '30');
+        if (intervalMinutes > 0) {
+            issueStateReconciler.start(intervalMinutes);
+        }
+    } catch (error) {
+        console.error('Failed to initialize GitHub issue state reconciler:', error);
+    }
+}
+
 // Initialize Cosmos DB service
 async function initializeCosmosService(): Promise<void> {
     try {
         cosmosService = new CosmosService();
         await cosmosService.initialize();
-        console.log('Cosmos DB service initialized successfully');
+        console.log(`Storage service initialized successfully (backend: ${cosmosService.backend})`);
+
+        // Split suites written before test cases had their own container (no-op once migrated)
+        await cosmosService.migrateEmbeddedTestCases();
     } catch (error) {
-        console.error('Failed to initialize Cosmos DB service:', error);
+        console.error('Failed to initialize storage service:', error);
         process.exit(1);
     }
 }
@@ -88,6 +152,63 @@ const errorHandler = (error: any, req: Request, res: Response, next: NextFunctio
     });
 };
 
+/**
+ * Read the If-Match request header. "*" matches any current version, so it is treated as unconditional.
+ */
+function getIfMatch(req: Request): string | undefined {
+    const ifMatch = req.header('If-Match')?.trim();
+    return ifMatch && ifMatch !== '*' ? ifMatch : undefined;
+}
+
+/**
+ * Split an If-Match header holding several ETags ("a", "b") into the individual ETags
+ */
+function parseETagList(header: string): string[] {
+    return header.match(/(?:W\/)?"[^"]*"/g) || [header];
+}
+
+/**
+ * Build a weak ETag for a list of stored documents from their individual _etag values
+ */
+function collectionETag(documents: Array<{ id?: string; _etag?: string }>): string {
+    const hash = createHash('sha1');
+    documents.forEach(document => hash.update(`${document.id}:${document._etag}|`));
+    return `W/"${hash.digest('hex')}"`;
+}
+
+/**
+ * Respond with 412 Precondition Failed if the error is a concurrency conflict.
+ * Returns true when the response has been sent.
+ */
+function handleConcurrencyConflict(error: any, res: Response): boolean {
+    if (!(error instanceof ConcurrencyConflictError)) {
+        return false;
+    }
+
+    res.status(412).json({
+        error: 'Precondition failed',
+        message: 'The resource was modified by someone else. Re-read it and retry with the current ETag.',
+        details: error.message
+    });
+    return true;
+}
+
+/**
+ * Respond with 503 Service Unavailable if the error says the LLM provider is not configured.
+ * Returns true when the response has been sent.
+ */
+function handleLlmConfigurationError(error: any, res: Response): boolean {
+    if (!(error instanceof LlmConfigurationError)) {
+        return false;
+    }
+
+    res.status(503).json({
+        error: 'LLM provider is not properly configured',
+        details: error.message
+    });
+    return true;
+}
+
 // Health check endpoint
 app.get('/health', async (req: Request, res: Response) => {
     const cosmosHealthy = cosmosService ? await cosmosService.healthCheck() : false;
@@ -112,6 +233,7 @@ app.get('/health', async (req: Request, res: Response) => {
         timestamp: new Date().toISOString(),
         clientInitialized: !!adoClient,
         cosmosDbConnected: cosmosHealthy,
+        storageBackend: cosmosService?.backend || null,
         githubConnected: githubHealthy,
         githubUser: githubUser,
         githubTokenConfigured: !!process.env.GITHUB_TOKEN
@@ -132,16 +254,66 @@ app.get('/', (req: Request, res: Response) => {
             'DELETE /api/testplans/:id': 'Delete test plan',
             'POST /api/testcases': 'Create new test case',
             'GET /api/testcases/:id': 'Get test case details by work item ID',
+            'PUT /api/testcases/:id': 'Update a test case (requires its current revision)',
+            'POST /api/testcases/:id/clone': 'Clone a test case, optionally into another project or suite',
+            'DELETE /api/testcases/:id': 'Remove a test case from a suite (?planId&suiteId) or delete it (?permanent=true)',
             'POST /api/testcases/batch': 'Get multiple test case details',
+            'PUT /api/testcases/:id/sharedparameters': 'Use a shared parameter set for the data rows of a test case',
+            'POST /api/sharedparameters': 'Create a shared parameter set',
+            'GET /api/sharedparameters/:id': 'Get a shared parameter set with its rows',
+            'POST /api/sharedsteps': 'Create a shared steps work item',
+            'POST /api/sharedsteps/extract': 'Move a step sequence repeated in several test cases into shared steps',
+            'GET /api/sharedsteps/:id': 'Get shared steps with their steps',
+            'PUT /api/testcases/:id/automation': 'Associate a test case with an automated test',
+            'DELETE /api/testcases/:id/automation': 'Remove the automated test association of a test case',
+            'GET /api/testplans/:planId/automation': 'Automated vs manual test cases per suite of a plan',
+            'GET /api/testplans/:planId/suites': 'Get all suites of a test plan',
+            'POST /api/testplans/:planId/suites': 'Create a static, requirement-based or query-based suite',
+            'GET /api/testplans/:planId/suites/:suiteId': 'Get a test suite with its child suites',
+            'PATCH /api/testplans/:planId/suites/:suiteId': 'Rename, move or change the query of a suite',
+            'DELETE /api/testplans/:planId/suites/:suiteId': 'Delete a suite and its child suites',
+            'PUT /api/testplans/:planId/suites/:suiteId/order': 'Reorder the child suites of a suite',
             'POST /api/testplans/:planId/suites/:suiteId/testcases': 'Add test cases to suite',
             'GET /api/testplans/:planId/suites/:suiteId/testcases': 'Get test cases from suite',
+            'GET /api/testplans/:planId/suites/:suiteId/points': 'Get test points of a suite',
+            'POST /api/testplans/:planId/runs': 'Create a test run for selected test points',
+            'GET /api/testruns/:runId/results': 'Get results of a test run',
+            'POST /api/testruns/:runId/results': 'Record outcomes (and step results) for test points of a run',
+            'POST /api/testruns/:runId/complete': 'Complete a test run',
             'GET /api/builds/:buildId/testresults': 'Get test results for build',
+            'POST /api/testplans/recommendations': 'Generate test case recommendations from a PRD',
+            'POST /api/testplans/:planId/recommendations/apply': 'Create ADO test cases for selected recommendations',
+            'POST /webhooks/github': 'Receive GitHub issues, issue_comment and pull_request webhooks (X-Hub-Signature-256)',
+            'GET /webhooks/github/deliveries': 'List received GitHub webhook deliveries',
+            'GET /webhooks/github/deliveries/:deliveryId': 'Get a received GitHub webhook delivery (payload can be replayed)',
             'POST /:resourceId/saveConnection': 'Save connection configuration',
             'GET /:resourceId': 'Get connection configuration',
             'GET /:resourceId/ado_plans': 'Get ADO test plans and suites',
             'GET /:resourceId/testPlans': 'Get existing test plans from database (supports ?forceRefresh=true)',
+            'POST /:resourceId/sync': 'Start a background ADO sync job (returns job id, ?mode=delta for an incremental sync)',
+            'GET /:resourceId/sync': 'List sync jobs for a resource',
+            'GET /:resourceId/sync/:jobId': 'Get sync job progress and result',
+            'POST /:resourceId/results': 'Ingest a Playwright JSON or JUnit XML report (?forwardToAdo=true to publish a test run)',
+            'GET /:resourceId/results': 'List ingested test result reports',
+            'GET /:resourceId/results/:reportId': 'Get an ingested test result report',
+            'GET /:resourceId/suites/:suiteId': 'Get a stored test suite (returns ETag)',
+            'PATCH /:resourceId/suites/:suiteId': 'Update a stored test suite (supports If-Match)',
+            'GET /:resourceId/plans/:planId': 'Get a stored test plan (returns ETag)',
+            'PATCH /:resourceId/plans/:planId': 'Update a stored test plan (supports If-Match)',
+            'GET /:resourceId/recommendations': 'List stored recommendation runs with review state counts (?planId=)',
+            'GET /:resourceId/recommendations/:runId': 'Get a stored recommendation run (returns ETag)',
+            'PATCH /:resourceId/recommendations/:runId/:recommendationId': 'Accept or reject a recommendation (supports If-Match)',
+            'GET /:resourceId/requirements': 'List requirements parsed from the PRD',
+            'GET /:resourceId/requirements/suggestions': 'Suggest PRD requirements for test cases (embeddings)',
+            'PUT /:resourceId/testcases/:testCaseId/requirements': 'Map a test case to the PRD requirements it covers',
+            'GET /:resourceId/duplicates': 'Cluster likely duplicate test cases by embedding similarity (?threshold=)',
+            'GET /:resourceId/traceability': 'Requirements traceability matrix (test cases, latest results, GitHub issues)',
+            'POST /:resourceId/testcases/:testCaseId/playwright': 'Generate a Playwright spec skeleton for a test case (?ai=true, ?download=true)',
+            'POST /:resourceId/suites/:suiteId/playwright': 'Download Playwright spec skeletons for a suite as a zip (?ai=true, ?format=json)',
             'POST /:resourceId/createIssue/:testCaseId': 'Create GitHub issue for test case (adds automated labels)',
-            'GET /:resourceId/github/test': 'Test GitHub connection and repository access'
+            'GET /:resourceId/github/test': 'Test GitHub connection and repository access',
+            'POST /:resourceId/github/sync': 'Reconcile GitHub issue state onto linked test cases',
+            'GET /:resourceId/github/sync': 'Get the last GitHub issue reconciliation result'
         },
         documentation: 'See README.md for detailed API documentation'
     });
@@ -299,11 +471,11 @@ app.delete('/api/testplans/:id', ensureClientInitialized, async (req: Request, r
 /**
  * POST /api/testcases
  * Create new test case
- * Body: { title, steps?, priority?, areaPath?, iterationPath? }
+ * Body: { title, steps?, priority?, areaPath?, iterationPath?, parameters?: { names?, rows?, sharedParameterSetId?, parameterMap? } }
  */
 app.post('/api/testcases', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const { title, steps, priority, areaPath, iterationPath } = req.body;
+        const { title, steps, priority, areaPath, iterationPath, parameters } = req.body;
         
         if (!title) {
             return res.status(400).json({ 
@@ -311,8 +483,23 @@ app.post('/api/testcases', ensureClientInitialized, async (req: Request, res: Re
                 message: 'title is required'
             });
         }
+
+        if (parameters !== undefined) {
+            const names: string[] = parameters.names || parameterPlaceholders(steps || '');
+            const problems = !Array.isArray(names)
+                ? ['parameters.names must be an array']
+                : !Array.isArray(parameters.rows || [])
+                    ? ['parameters.rows must be an array']
+                    : validateParameters(names, parameters.sharedParameterSetId ? [] : parameters.rows || []);
+            if (problems.length > 0) {
+                return res.status(400).json({
+                    error: 'Invalid parameters',
+                    message: problems.join('; ')
+                });
+            }
+        }
         
-        const testCase = await adoClient!.createTestCase(title, steps, priority, areaPath, iterationPath);
+        const testCase = await adoClient!.createTestCase(title, steps, priority, areaPath, iterationPath, parameters);
         
         res.status(201).json({
             success: true,
@@ -342,6 +529,132 @@ app.get('/api/testcases/:id', ensureClientInitialized, async (req: Request, res:
     }
 });
 
+/**
+ * PUT /api/testcases/:id
+ * Update a test case. revision must be the work item revision the update is based on (see GET /api/testcases/:id).
+ * Body: { revision, title?, steps?, priority?, areaPath?, iterationPath?, tags?, state?, description?, acceptanceCriteria? }
+ */
+app.put('/api/testcases/:id', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid test case ID' });
+        }
+
+        const { revision, title, steps, priority, areaPath, iterationPath, tags, state, description, acceptanceCriteria } = req.body || {};
+        if (!Number.isInteger(revision)) {
+            return res.status(400).json({
+                error: 'Missing required field',
+                message: 'revision (the current work item revision) is required'
+            });
+        }
+
+        const updates = { title, steps, priority, areaPath, iterationPath, tags, state, description, acceptanceCriteria };
+        if (Object.values(updates).every(value => value === undefined)) {
+            return res.status(400).json({
+                error: 'No updates provided',
+                message: 'Provide at least one of: title, steps, priority, areaPath, iterationPath, tags, state, description, acceptanceCriteria'
+            });
+        }
+
+        if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+            return res.status(400).json({ error: 'title cannot be empty' });
+        }
+
+        const testCase = await adoClient!.updateTestCase(id, updates, revision);
+
+        res.json({
+            success: true,
+            data: testCase,
+            message: 'Test case updated successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testcases/:id/clone
+ * Clone a test case
+ * Body: { targetProject?, targetPlanId?, targetSuiteId?, areaPathMap?, iterationPath?, title? }
+ */
+app.post('/api/testcases/:id/clone', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid test case ID' });
+        }
+
+        const { targetProject, targetPlanId, targetSuiteId, areaPathMap, iterationPath, title } = req.body || {};
+        if ((targetPlanId === undefined) !== (targetSuiteId === undefined)
+            || (targetPlanId !== undefined && (!Number.isInteger(targetPlanId) || !Number.isInteger(targetSuiteId)))) {
+            return res.status(400).json({ error: 'targetPlanId and targetSuiteId must be given together as numbers' });
+        }
+
+        if (areaPathMap !== undefined && (typeof areaPathMap !== 'object' || Array.isArray(areaPathMap)
+            || !Object.values(areaPathMap).every(value => typeof value === 'string'))) {
+            return res.status(400).json({ error: 'areaPathMap must map area path prefixes to area paths' });
+        }
+
+        const clone = await adoClient!.cloneTestCase(id, { targetProject, targetPlanId, targetSuiteId, areaPathMap, iterationPath, title });
+
+        res.status(201).json({
+            success: true,
+            data: clone,
+            sourceTestCaseId: id,
+            message: 'Test case cloned successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * DELETE /api/testcases/:id
+ * Remove a test case from a suite (?planId=&suiteId=) or delete the work item permanently (?permanent=true)
+ */
+app.delete('/api/testcases/:id', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid test case ID' });
+        }
+
+        if (req.query.planId !== undefined || req.query.suiteId !== undefined) {
+            const planId = parseInt(req.query.planId as string);
+            const suiteId = parseInt(req.query.suiteId as string);
+            if (isNaN(planId) || isNaN(suiteId)) {
+                return res.status(400).json({
+                    error: 'Invalid IDs',
+                    message: 'planId and suiteId must both be numbers'
+                });
+            }
+
+            await adoClient!.removeTestCaseFromSuite(planId, suiteId, id);
+            return res.json({
+                success: true,
+                message: `Test case ${id} removed from suite ${suiteId}`
+            });
+        }
+
+        if (req.query.permanent !== 'true') {
+            return res.status(400).json({
+                error: 'Missing delete mode',
+                message: 'Pass planId and suiteId to remove the test case from a suite, or permanent=true to delete the work item'
+            });
+        }
+
+        await adoClient!.deleteTestCase(id);
+
+        res.json({
+            success: true,
+            message: `Test case ${id} deleted permanently`
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
 /**
  * POST /api/testcases/batch
  * Get multiple test case details
@@ -373,36 +686,40 @@ app.post('/api/testcases/batch', ensureClientInitialized, async (req: Request, r
 });
 
 /**
- * POST /api/testplans/:planId/suites/:suiteId/testcases
- * Add test cases to suite
- * Body: { testCaseIds: string[] | string }
+ * PUT /api/testcases/:id/sharedparameters
+ * Make a test case take its data rows from a shared parameter set
+ * Body: { sharedParameterSetId, parameterMap?: { [testCaseParameter]: setColumn }, revision? }
  */
-app.post('/api/testplans/:planId/suites/:suiteId/testcases', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+app.put('/api/testcases/:id/sharedparameters', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const planId = parseInt(req.params.planId);
-        const suiteId = parseInt(req.params.suiteId);
-        const { testCaseIds } = req.body;
-        
-        if (isNaN(planId) || isNaN(suiteId)) {
-            return res.status(400).json({ 
-                error: 'Invalid IDs',
-                message: 'Plan ID and Suite ID must be numbers'
-            });
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid test case ID' });
         }
-        
-        if (!testCaseIds) {
-            return res.status(400).json({ 
+
+        const { sharedParameterSetId, parameterMap, revision } = req.body || {};
+        if (!Number.isInteger(sharedParameterSetId)) {
+            return res.status(400).json({
                 error: 'Missing required field',
-                message: 'testCaseIds is required'
+                message: 'sharedParameterSetId is required'
             });
         }
-        
-        const result = await adoClient!.addTestCasesToSuite(planId, suiteId, testCaseIds);
-        
+
+        if (parameterMap !== undefined && (typeof parameterMap !== 'object' || Array.isArray(parameterMap)
+            || !Object.values(parameterMap).every(value => typeof value === 'string'))) {
+            return res.status(400).json({ error: 'parameterMap must map test case parameter names to shared parameter names' });
+        }
+
+        if (revision !== undefined && !Number.isInteger(revision)) {
+            return res.status(400).json({ error: 'revision must be a number' });
+        }
+
+        const testCase = await adoClient!.attachSharedParameterSet(id, sharedParameterSetId, parameterMap, revision);
+
         res.json({
             success: true,
-            data: result,
-            message: 'Test cases added to suite successfully'
+            data: testCase,
+            message: 'Shared parameter set attached successfully'
         });
     } catch (error) {
         next(error);
@@ -410,29 +727,41 @@ app.post('/api/testplans/:planId/suites/:suiteId/testcases', ensureClientInitial
 });
 
 /**
- * GET /api/testplans/:planId/suites/:suiteId/testcases
- * Get test cases from suite
+ * POST /api/sharedparameters
+ * Create a shared parameter set
+ * Body: { name, rows: [{ [parameter]: value }], names? }
  */
-app.get('/api/testplans/:planId/suites/:suiteId/testcases', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+app.post('/api/sharedparameters', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const planId = parseInt(req.params.planId);
-        const suiteId = parseInt(req.params.suiteId);
-        
-        if (isNaN(planId) || isNaN(suiteId)) {
-            return res.status(400).json({ 
-                error: 'Invalid IDs',
-                message: 'Plan ID and Suite ID must be numbers'
+        const { name, rows } = req.body || {};
+
+        if (!name || !Array.isArray(rows)) {
+            return res.status(400).json({
+                error: 'Missing required fields',
+                message: 'name and a rows array are required'
             });
         }
-        
-        const testCases = await adoClient!.getTestCaseList(planId, suiteId);
-        
-        res.json({
+
+        // Without names, the columns are the keys used in the rows
+        const names: string[] = req.body.names
+            || [...new Set(rows.flatMap((row: any) => row && typeof row === 'object' ? Object.keys(row) : []))];
+        const problems = Array.isArray(names) ? validateParameters(names, rows) : ['names must be an array'];
+        if (names.length === 0) {
+            problems.push('At least one parameter is required');
+        }
+        if (problems.length > 0) {
+            return res.status(400).json({
+                error: 'Invalid parameters',
+                message: problems.join('; ')
+            });
+        }
+
+        const set = await adoClient!.createSharedParameterSet(name, names, rows);
+
+        res.status(201).json({
             success: true,
-            data: testCases,
-            count: testCases.length,
-            planId,
-            suiteId
+            data: set,
+            message: 'Shared parameter set created successfully'
         });
     } catch (error) {
         next(error);
@@ -440,573 +769,2116 @@ app.get('/api/testplans/:planId/suites/:suiteId/testcases', ensureClientInitiali
 });
 
 /**
- * GET /api/builds/:buildId/testresults
- * Get test results for build
+ * GET /api/sharedparameters/:id
+ * Get a shared parameter set with its rows
  */
-app.get('/api/builds/:buildId/testresults', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+app.get('/api/sharedparameters/:id', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const buildId = parseInt(req.params.buildId);
-        
-        if (isNaN(buildId)) {
-            return res.status(400).json({ 
-                error: 'Invalid build ID',
-                message: 'Build ID must be a number'
-            });
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid shared parameter set ID' });
         }
-        
-        const testResults = await adoClient!.getTestResultsFromBuildId(buildId);
-        
-        res.json({
-            success: true,
-            data: testResults,
-            buildId
-        });
+
+        const set = await adoClient!.getSharedParameterSet(id);
+        res.json(set);
     } catch (error) {
         next(error);
     }
 });
 
 /**
- * POST /:resourceId/saveConnection
- * Save connection configuration
- * Body: { github_url, prd, ado_url, website_url }
+ * POST /api/sharedsteps
+ * Create a Shared Steps work item
+ * Body: { title, steps: "1. Step one|Expected result one\n2. Step two|Expected result two", areaPath? }
  */
-app.post('/:resourceId/saveConnection', ensureCosmosInitialized, async (req: Request, res: Response) => {
+app.post('/api/sharedsteps', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        let { resourceId } = req.params;
-        
-        // Decode the URL-encoded resourceId
-        resourceId = decodeURIComponent(resourceId);
-        
-        const { github_url, prd, ado_url, website_url } = req.body;
+        const { title, steps, areaPath } = req.body || {};
 
-        // Validate required fields
-        if (!github_url || !prd || !ado_url || !website_url) {
+        if (!title || typeof steps !== 'string' || !steps.trim()) {
             return res.status(400).json({
                 error: 'Missing required fields',
-                message: 'github_url, prd, ado_url, and website_url are required'
+                message: 'title and steps are required'
             });
         }
 
-        // Generate a connection ID
-        const connectionId = Math.random().toString(36).substr(2, 10);
-
-        // Create connection object
-        const connection: Connection = {
-            resourceId,
-            connectionId,
-            github_url,
-            prd,
-            ado_url,
-            website_url
-        };
-
-        // Save connection to Cosmos DB
-        await cosmosService!.saveConnection(connection);
+        const sharedSteps = await adoClient!.createSharedSteps(title, steps, areaPath);
 
-        res.json({
-            message: "Connection saved successfully",
-            status: "success",
-            resourceId,
-            connectionId
-        });
-    } catch (error: any) {
-        console.error('Error saving connection:', error);
-        res.status(500).json({
-            error: 'Failed to save connection',
-            details: error.message
+        res.status(201).json({
+            success: true,
+            data: sharedSteps,
+            message: 'Shared steps created successfully'
         });
+    } catch (error) {
+        next(error);
     }
 });
 
 /**
- * GET /:resourceId
- * Get connection configuration
+ * POST /api/sharedsteps/extract
+ * Move a step sequence repeated in several test cases into one Shared Steps work item
+ * Body: { title, testCaseIds: number[], steps?: [{ action, expectedResult? }], minLength?, dryRun? }
  */
-app.get('/:resourceId', ensureCosmosInitialized, async (req: Request, res: Response) => {
+app.post('/api/sharedsteps/extract', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        let { resourceId } = req.params;
-        
-        // Decode the URL-encoded resourceId
-        resourceId = decodeURIComponent(resourceId);
-        
-        const connection = await cosmosService!.getConnection(resourceId);
+        const { title, testCaseIds, steps, minLength, dryRun } = req.body || {};
 
-        if (!connection) {
-            return res.status(404).json({
-                error: 'Connection not found',
-                message: `No connection found for resourceId: ${resourceId}`
+        if (!title || !Array.isArray(testCaseIds) || testCaseIds.length === 0 || !testCaseIds.every(Number.isInteger)) {
+            return res.status(400).json({
+                error: 'Missing required fields',
+                message: 'title and a testCaseIds array of work item IDs are required'
             });
         }
 
-        res.json({
-            github_url: connection.github_url,
-            prd: connection.prd,
-            ado_url: connection.ado_url,
-            website_url: connection.website_url,
-            resourceId: connection.resourceId,
-            connectionId: connection.connectionId
-        });
-    } catch (error: any) {
-        console.error('Error fetching connection:', error);
-        res.status(500).json({
-            error: 'Failed to fetch connection',
-            details: error.message
+        if (steps === undefined && testCaseIds.length < 2) {
+            return res.status(400).json({ error: 'At least two test cases are needed to detect a common sequence; pass steps to extract from one' });
+        }
+
+        if (steps !== undefined && (!Array.isArray(steps) || !steps.every((step: any) => typeof step?.action === 'string'))) {
+            return res.status(400).json({ error: 'steps must be an array of { action, expectedResult? }' });
+        }
+
+        if (minLength !== undefined && (!Number.isInteger(minLength) || minLength < 1)) {
+            return res.status(400).json({ error: 'minLength must be a positive number' });
+        }
+
+        const result = await new SharedStepsExtractor(adoClient!).extract({ title, testCaseIds, steps, minLength, dryRun: dryRun === true });
+
+        res.status(result.dryRun ? 200 : 201).json({
+            success: true,
+            data: result,
+            message: result.dryRun ? 'Dry run, no work items were changed' : 'Shared steps extracted successfully'
         });
+    } catch (error) {
+        next(error);
     }
 });
 
 /**
- * GET /:resourceId/ado_plans
- * Get ADO test plans and suites
+ * GET /api/sharedsteps/:id
+ * Get a Shared Steps work item with its steps
  */
-app.get('/:resourceId/ado_plans', ensureClientInitialized, ensureCosmosInitialized, async (req: Request, res: Response) => {
+app.get('/api/sharedsteps/:id', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        let { resourceId } = req.params;
-        
-        // Decode the URL-encoded resourceId
-        resourceId = decodeURIComponent(resourceId);
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid shared steps ID' });
+        }
 
-        // Check if connection exists
-        const connection = await cosmosService!.getConnection(resourceId);
-        if (!connection) {
-            return res.status(404).json({
-                error: 'Connection not found',
-                message: `No connection found for resourceId: ${resourceId}. Please save connection first.`
-            });
+        const sharedSteps = await adoClient!.getSharedSteps(id);
+        res.json(sharedSteps);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * PUT /api/testcases/:id/automation
+ * Associate a test case with an automated test
+ * Body: { automatedTestName, automatedTestStorage, automatedTestType?, automatedTestId? }
+ */
+app.put('/api/testcases/:id/automation', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid test case ID' });
         }
 
-        // Parse ADO URL to extract organization and project info
-        const adoUrlMatch = connection.ado_url.match(/https:\/\/dev\.azure\.com\/([^\/]+)\/?(.*)?/);
-        let organization = '';
-        let project = '';
-        
-        if (adoUrlMatch) {
-            organization = adoUrlMatch[1];
-            project = adoUrlMatch[2] ? adoUrlMatch[2].replace(/\/$/, '') : '';
+        const { automatedTestName, automatedTestStorage, automatedTestType, automatedTestId } = req.body || {};
+        if (typeof automatedTestName !== 'string' || !automatedTestName.trim() || typeof automatedTestStorage !== 'string' || !automatedTestStorage.trim()) {
+            return res.status(400).json({
+                error: 'Missing required fields',
+                message: 'automatedTestName and automatedTestStorage are required'
+            });
         }
 
-        console.log(`Fetching test plans for ADO URL: ${connection.ado_url}`);
-        console.log(`Organization: ${organization}, Project: ${project || 'default from env'}`);
+        const automation = await adoClient!.associateAutomation(id, {
+            automatedTestName: automatedTestName.trim(),
+            automatedTestStorage: automatedTestStorage.trim(),
+            automatedTestType,
+            automatedTestId
+        });
 
-        let testPlans;
-        connection.ado_url ="https://devdiv.visualstudio.com";
-        // Option 1: Create a new ADO client with the connection info
-        if (connection.ado_url && connection.ado_url !== process.env.AZURE_DEVOPS_ORG_URL) {
-            console.log('Creating new ADO client with connection-specific URL...');
-            try {
-                const connectionAdoClient = await AzureDevOpsTestPlansClient.createWithConnectionInfo(connection.ado_url);
-                testPlans = await connectionAdoClient.getAllTestPlans(true, true);
-                console.log(`Successfully fetched ${testPlans.length} test plans from connection-specific ADO instance`);
-            } catch (error) {
-                console.warn('Failed to use connection-specific ADO client, falling back to default:', error);
-                // Fallback to default client
-                testPlans = await adoClient!.getAllTestPlans(true, true);
-            }
-        } else {
-            // Option 2: Use the existing default client
-            console.log(`Using default ADO client configuration`);
-            testPlans = await adoClient!.getAllTestPlans(true, true);
+        res.json({
+            success: true,
+            data: automation,
+            message: 'Automated test associated successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * DELETE /api/testcases/:id/automation
+ * Remove the automated test association of a test case
+ */
+app.delete('/api/testcases/:id/automation', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            return res.status(400).json({ error: 'Invalid test case ID' });
         }
 
-        // Save test plans to Cosmos DB for this resourceId
-        await cosmosService!.saveTestPlans(resourceId, testPlans);
+        const automation = await adoClient!.clearAutomation(id);
 
-        // Transform the data following the specified order:
-        // 1) Get test plans (already done above)
-        // 2) Get test suites for each test plan
-        // 3) Get test cases for each suite
-        // 4) Get test case details for each test case
-        const suites: any[] = [];
-        
-        console.log(`Processing ${testPlans.length} test plans to extract suites and test cases...`);
-        
-        for (const plan of testPlans) {
-            try {
-                console.log(`Step 1: Processing test plan: ${plan.name} (ID: ${plan.id})`);
-                
-                let planWithSuitesAndTestCases;
-                
-                // Use connection-specific client if available, otherwise use default
-                if (connection.ado_url && connection.ado_url !== process.env.AZURE_DEVOPS_ORG_URL) {
-                    const connectionAdoClient = await AzureDevOpsTestPlansClient.createWithConnectionInfo(connection.ado_url);
-                    planWithSuitesAndTestCases = await connectionAdoClient.getTestPlanWithSuitesAndTestCases(plan.id!);
-                } else {
-                    planWithSuitesAndTestCases = await adoClient!.getTestPlanWithSuitesAndTestCases(plan.id!);
-                }
-                
-                // Step 2 & 3: Process each suite and its test cases
-                for (const suite of planWithSuitesAndTestCases.suites) {
-                    console.log(`Step 2: Processing suite: ${suite.name} (ID: ${suite.id})`);
-                    
-                    const transformedTestCases = suite.testCases.map((testCase: any) => {
-                        console.log(`Step 4: Processing test case ID ${testCase.id}: "${testCase.fields?.title || 'Untitled'}"`, {
-                            testCaseId: testCase.id,
-                            testCaseIdField: testCase.testCaseId,
-                            title: testCase.fields?.title,
-                            hasSteps: !!(testCase.parsedSteps && testCase.parsedSteps.length > 0),
-                            stepCount: testCase.parsedSteps?.length || 0
-                        });
-                        
-                        // Transform parsed steps into simple string array
-                        let steps: string[] = [];
-                        if (testCase.parsedSteps && testCase.parsedSteps.length > 0) {
-                            steps = testCase.parsedSteps.map((step: any, index: number) => {
-                                if (step.action && step.expectedResult) {
-                                    return `Step ${index + 1}: ${step.action} - Expected: ${step.expectedResult}`;
-                                } else if (step.action) {
-                                    return `Step ${index + 1}: ${step.action}`;
-                                } else {
-                                    return `Step ${index + 1}: No action specified`;
-                                }
-                            });
-                        } else {
-                            steps = ["No test steps available"];
-                        }
-                        
-                        return {
-                            testCaseId: testCase.testCaseId || testCase.id, // Add testCaseId field
-                            name: testCase.fields?.title || 'Untitled Test Case',
-                            steps: steps
-                        };
-                    });
+        res.json({
+            success: true,
+            data: automation,
+            message: 'Automated test association removed successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
 
-                    suites.push({
-                        name: `${plan.name} - ${suite.name}`,
-                        testCaseId: `${plan.id}-${suite.id}`,
-                        testCases: transformedTestCases
-                    });
-                }
-                
-                console.log(`✅ Processed test plan ${plan.name}: found ${planWithSuitesAndTestCases.suites.length} suites with ${planWithSuitesAndTestCases.suites.reduce((total: number, suite: any) => total + suite.testCases.length, 0)} total test cases`);
-                
-            } catch (error) {
-                console.warn(`⚠️ Could not process test plan ${plan.name} (ID: ${plan.id}):`, error);
-                
-                // Fallback: create a suite with error information
-                suites.push({
-                    name: plan.name || `Test Plan ${plan.id}`,
-                    testCaseId: plan.id?.toString() || '17',
-                    testCases: [{
-                        testCaseId: '17', // Add testCaseId field for fallback case
-                        name: `Test plan "${plan.name}" could not be processed`,
-                        steps: [
-                            "Error occurred while fetching test cases from Azure DevOps - using fallback test case 17",
-                            "Please check the test plan configuration and permissions",
-                            "Manual verification may be required"
-                        ]
-                    }]
-                });
-            }
+/**
+ * GET /api/testplans/:planId/automation
+ * Automated vs manual test cases per suite of a plan
+ */
+app.get('/api/testplans/:planId/automation', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        if (isNaN(planId)) {
+            return res.status(400).json({
+                error: 'Invalid plan ID',
+                message: 'Plan ID must be a number'
+            });
         }
 
-        console.log(`🎯 Total suites created: ${suites.length}`);
-        console.log(`📊 Total test cases found: ${suites.reduce((total: any, suite: any) => total + suite.testCases.length, 0)}`);
+        const suites = (await adoClient!.getPlanAutomation(planId)).map(suite => {
+            const automated = suite.testCases.filter(testCase => testCase.automated).length;
+            return {
+                ...suite,
+                total: suite.testCases.length,
+                automated,
+                manual: suite.testCases.length - automated,
+                automationPercent: suite.testCases.length > 0 ? Math.round((automated / suite.testCases.length) * 100) : 0
+            };
+        });
 
-        // Save the suites to Cosmos DB (keeping the existing suite structure for compatibility)
-        const cosmosTestSuites: TestSuite[] = suites.map((suite: any) => ({
-            resourceId,
-            name: suite.name,
-            testCaseId: suite.testCaseId,
-            testCases: suite.testCases.map((tc: any) => ({
-                testCaseId: tc.testCaseId, // Add testCaseId field to each test case
-                name: tc.name,
-                steps: tc.steps
-            }))
-        }));
-        await cosmosService!.saveTestSuites(resourceId, cosmosTestSuites);
+        // A test case can be in several suites; count it once for the plan
+        const testCases = new Map(suites.flatMap(suite => suite.testCases).map(testCase => [testCase.testCaseId, testCase]));
+        const automated = [...testCases.values()].filter(testCase => testCase.automated).length;
 
-        res.json({ suites });
-    } catch (error: any) {
-        console.error('Error fetching ADO plans:', error);
-        res.status(500).json({
-            error: 'Failed to fetch ADO plans',
-            details: error.message
+        res.json({
+            success: true,
+            planId,
+            summary: {
+                total: testCases.size,
+                automated,
+                manual: testCases.size - automated,
+                automationPercent: testCases.size > 0 ? Math.round((automated / testCases.size) * 100) : 0
+            },
+            suites
         });
+    } catch (error) {
+        next(error);
     }
 });
 
 /**
- * GET /:resourceId/testPlans
- * Get existing test plans from database for a resource
- * Query params: forceRefresh (boolean) - if true, re-fetch from ADO even if data exists
+ * GET /api/testplans/:planId/suites
+ * Get all suites of a test plan
  */
-app.get('/:resourceId/testPlans', ensureCosmosInitialized, async (req: Request, res: Response) => {
+app.get('/api/testplans/:planId/suites', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        let { resourceId } = req.params;
-        const forceRefresh = req.query.forceRefresh === 'true';
-        
-        // Decode the URL-encoded resourceId
-        resourceId = decodeURIComponent(resourceId);
+        const planId = parseInt(req.params.planId);
+        if (isNaN(planId)) {
+            return res.status(400).json({
+                error: 'Invalid plan ID',
+                message: 'Plan ID must be a number'
+            });
+        }
 
-        console.log(`Fetching existing test plans for resourceId: ${resourceId}, forceRefresh: ${forceRefresh}`);
+        const suites = await adoClient!.getTestSuites(planId);
 
-        // Check if connection exists
-        const connection = await cosmosService!.getConnection(resourceId);
-        if (!connection) {
-            return res.status(404).json({
-                error: 'Connection not found',
-                message: `No connection found for resourceId: ${resourceId}. Please save connection first.`
+        res.json({
+            success: true,
+            data: suites,
+            count: suites.length,
+            planId
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testplans/:planId/suites
+ * Create a suite
+ * Body: { suiteType: 'static' | 'requirement' | 'query', name?, parentSuiteId?, requirementId?, queryString? }
+ */
+app.post('/api/testplans/:planId/suites', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const { name, parentSuiteId, requirementId, queryString } = req.body || {};
+        const suiteType: TestSuiteKind = req.body?.suiteType || 'static';
+
+        if (isNaN(planId)) {
+            return res.status(400).json({
+                error: 'Invalid plan ID',
+                message: 'Plan ID must be a number'
             });
         }
 
-        // Get test suites from Cosmos DB
-        const testSuites = await cosmosService!.getTestSuites(resourceId);
-        
-        // Check if we need to force refresh or if we have fallback data
-        const hasOnlyFallbackData = testSuites && testSuites.length > 0 ? testSuites.every((suite: TestSuite) => 
-            suite.testCases.every((testCase: TestCase) => 
-                testCase.name.includes('could not be processed') ||
-                testCase.name.includes('Error occurred while fetching') ||
-                (testCase.steps && testCase.steps.some((step: string) => 
-                    step.includes('Error occurred while fetching test cases') ||
-                    step.includes('fallback test case 17') ||
-                    step.includes('Please check the test plan configuration')
-                ))
-            )
-        ) : false;
+        if (!TEST_SUITE_KINDS.includes(suiteType)) {
+            return res.status(400).json({
+                error: 'Invalid suite type',
+                message: `suiteType must be one of: ${TEST_SUITE_KINDS.join(', ')}`
+            });
+        }
 
-        console.log(`🔍 Fallback data detection: hasOnlyFallbackData=${hasOnlyFallbackData}, forceRefresh=${forceRefresh}, testSuites.length=${testSuites?.length || 0}`);
+        if (suiteType !== 'requirement' && !name) {
+            return res.status(400).json({
+                error: 'Missing required field',
+                message: 'name is required for static and query-based suites'
+            });
+        }
+
+        if (suiteType === 'requirement' && !Number.isInteger(requirementId)) {
+            return res.status(400).json({
+                error: 'Missing required field',
+                message: 'requirementId (work item ID) is required for requirement-based suites'
+            });
+        }
+
+        if (suiteType === 'query' && !queryString) {
+            return res.status(400).json({
+                error: 'Missing required field',
+                message: 'queryString (WIQL) is required for query-based suites'
+            });
+        }
+
+        if (parentSuiteId !== undefined && !Number.isInteger(parentSuiteId)) {
+            return res.status(400).json({ error: 'parentSuiteId must be a number' });
+        }
+
+        const suite = await adoClient!.createTestSuite(planId, { suiteType, name, parentSuiteId, requirementId, queryString });
+
+        res.status(201).json({
+            success: true,
+            data: suite,
+            message: 'Test suite created successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/testplans/:planId/suites/:suiteId
+ * Get a test suite with its child suites
+ */
+app.get('/api/testplans/:planId/suites/:suiteId', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+
+        const suite = await adoClient!.getTestSuite(planId, suiteId);
+        if (!suite) {
+            return res.status(404).json({ error: 'Test suite not found' });
+        }
+
+        res.json(suite);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * PATCH /api/testplans/:planId/suites/:suiteId
+ * Rename a suite, move it under another parent or change its query
+ * Body: { name?, parentSuiteId?, queryString? }
+ */
+app.patch('/api/testplans/:planId/suites/:suiteId', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        const { name, parentSuiteId, queryString } = req.body || {};
+
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+
+        if (name === undefined && parentSuiteId === undefined && queryString === undefined) {
+            return res.status(400).json({
+                error: 'No updates provided',
+                message: 'Provide name, parentSuiteId or queryString'
+            });
+        }
+
+        if (parentSuiteId !== undefined && (!Number.isInteger(parentSuiteId) || parentSuiteId === suiteId)) {
+            return res.status(400).json({ error: 'parentSuiteId must be the ID of another suite' });
+        }
+
+        const suite = await adoClient!.updateTestSuite(planId, suiteId, { name, parentSuiteId, queryString });
+
+        res.json({
+            success: true,
+            data: suite,
+            message: 'Test suite updated successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * DELETE /api/testplans/:planId/suites/:suiteId
+ * Delete a suite and its child suites (test case work items are kept)
+ */
+app.delete('/api/testplans/:planId/suites/:suiteId', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+
+        await adoClient!.deleteTestSuite(planId, suiteId);
+
+        res.json({
+            success: true,
+            message: 'Test suite deleted successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * PUT /api/testplans/:planId/suites/:suiteId/order
+ * Reorder the child suites of a suite
+ * Body: { childSuiteIds: number[] }
+ */
+app.put('/api/testplans/:planId/suites/:suiteId/order', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        const childSuiteIds = req.body?.childSuiteIds;
+
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+
+        if (!Array.isArray(childSuiteIds) || childSuiteIds.length === 0 || !childSuiteIds.every(id => Number.isInteger(id))
+            || new Set(childSuiteIds).size !== childSuiteIds.length) {
+            return res.status(400).json({ error: 'childSuiteIds must be a non-empty array of distinct suite IDs' });
+        }
+
+        const parent = await adoClient!.getTestSuite(planId, suiteId);
+        const children = new Set((parent?.children || []).map(child => child.id));
+        const unknown = childSuiteIds.filter((id: number) => !children.has(id));
+        if (unknown.length > 0) {
+            return res.status(400).json({
+                error: 'Invalid child suites',
+                message: `Suite(s) ${unknown.join(', ')} are not children of suite ${suiteId}`
+            });
+        }
+
+        const suite = await adoClient!.reorderChildSuites(planId, suiteId, childSuiteIds);
+
+        res.json({
+            success: true,
+            data: suite,
+            message: 'Child suites reordered successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testplans/:planId/suites/:suiteId/testcases
+ * Add test cases to suite
+ * Body: { testCaseIds: string[] | string }
+ */
+app.post('/api/testplans/:planId/suites/:suiteId/testcases', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        const { testCaseIds } = req.body;
+        
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({ 
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+        
+        if (!testCaseIds) {
+            return res.status(400).json({ 
+                error: 'Missing required field',
+                message: 'testCaseIds is required'
+            });
+        }
+        
+        const result = await adoClient!.addTestCasesToSuite(planId, suiteId, testCaseIds);
+        
+        res.json({
+            success: true,
+            data: result,
+            message: 'Test cases added to suite successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/testplans/:planId/suites/:suiteId/testcases
+ * Get test cases from suite
+ */
+app.get('/api/testplans/:planId/suites/:suiteId/testcases', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+        
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({ 
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+        
+        const testCases = await adoClient!.getTestCaseList(planId, suiteId);
+        
+        res.json({
+            success: true,
+            data: testCases,
+            count: testCases.length,
+            planId,
+            suiteId
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/testplans/:planId/suites/:suiteId/points
+ * Get test points (test case x configuration) of a suite
+ */
+app.get('/api/testplans/:planId/suites/:suiteId/points', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const suiteId = parseInt(req.params.suiteId);
+
+        if (isNaN(planId) || isNaN(suiteId)) {
+            return res.status(400).json({
+                error: 'Invalid IDs',
+                message: 'Plan ID and Suite ID must be numbers'
+            });
+        }
+
+        const testPoints = await adoClient!.getTestPoints(planId, suiteId);
+
+        res.json({
+            success: true,
+            data: testPoints,
+            count: testPoints.length,
+            planId,
+            suiteId
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testplans/:planId/runs
+ * Create a test run for selected test points
+ * Body: { name, pointIds: number[], comment?, automated?, buildId? }
+ */
+app.post('/api/testplans/:planId/runs', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const { name, pointIds, comment, automated, buildId } = req.body;
+
+        if (isNaN(planId)) {
+            return res.status(400).json({
+                error: 'Invalid plan ID',
+                message: 'Plan ID must be a number'
+            });
+        }
+
+        if (!name || !Array.isArray(pointIds) || pointIds.length === 0) {
+            return res.status(400).json({
+                error: 'Missing required fields',
+                message: 'name and a non-empty pointIds array are required'
+            });
+        }
+
+        const testRun = await adoClient!.createTestRun(planId, name, pointIds.map(Number), { comment, automated, buildId });
+
+        res.status(201).json({
+            success: true,
+            data: testRun,
+            message: 'Test run created successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/testruns/:runId/results
+ * Get the results of a test run
+ */
+app.get('/api/testruns/:runId/results', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const runId = parseInt(req.params.runId);
+
+        if (isNaN(runId)) {
+            return res.status(400).json({
+                error: 'Invalid run ID',
+                message: 'Run ID must be a number'
+            });
+        }
+
+        const results = await adoClient!.getTestRunResults(runId);
+
+        res.json({
+            success: true,
+            data: results,
+            count: results.length,
+            runId
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testruns/:runId/results
+ * Record outcomes for test points of a run
+ * Body: { results: [{ pointId, outcome, comment?, errorMessage?, durationInMs?, steps?: [{ outcome, stepId?, comment?, errorMessage? }], iterations?: [{ iteration, outcome, ..., steps? }] }] }
+ */
+app.post('/api/testruns/:runId/results', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const runId = parseInt(req.params.runId);
+        const results: TestPointOutcome[] = req.body.results;
+
+        if (isNaN(runId)) {
+            return res.status(400).json({
+                error: 'Invalid run ID',
+                message: 'Run ID must be a number'
+            });
+        }
+
+        if (!Array.isArray(results) || results.length === 0) {
+            return res.status(400).json({
+                error: 'Missing required field',
+                message: 'results must be a non-empty array'
+            });
+        }
+
+        const invalid = results.find(result =>
+            !result.pointId ||
+            !TEST_RUN_OUTCOMES.includes(result.outcome) ||
+            (result.steps || []).some(step => !TEST_RUN_OUTCOMES.includes(step.outcome)) ||
+            (result.iterations || []).some(iteration =>
+                !(iteration.iteration > 0) ||
+                !TEST_RUN_OUTCOMES.includes(iteration.outcome) ||
+                (iteration.steps || []).some(step => !TEST_RUN_OUTCOMES.includes(step.outcome)))
+        );
+        if (invalid) {
+            return res.status(400).json({
+                error: 'Invalid result',
+                message: `Each result needs a pointId and an outcome (and step and iteration outcome) of: ${TEST_RUN_OUTCOMES.join(', ')}; iterations are numbered from 1`,
+                result: invalid
+            });
+        }
+
+        const updatedResults = await adoClient!.recordTestRunOutcomes(runId, results);
+
+        res.json({
+            success: true,
+            data: updatedResults,
+            count: updatedResults.length,
+            message: 'Test outcomes recorded successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/testruns/:runId/complete
+ * Mark a test run as completed
+ * Body: { comment? }
+ */
+app.post('/api/testruns/:runId/complete', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const runId = parseInt(req.params.runId);
+
+        if (isNaN(runId)) {
+            return res.status(400).json({
+                error: 'Invalid run ID',
+                message: 'Run ID must be a number'
+            });
+        }
+
+        const testRun = await adoClient!.completeTestRun(runId, req.body?.comment);
+
+        res.json({
+            success: true,
+            data: testRun,
+            message: 'Test run completed successfully'
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/builds/:buildId/testresults
+ * Get test results for build
+ */
+app.get('/api/builds/:buildId/testresults', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const buildId = parseInt(req.params.buildId);
+        
+        if (isNaN(buildId)) {
+            return res.status(400).json({ 
+                error: 'Invalid build ID',
+                message: 'Build ID must be a number'
+            });
+        }
+        
+        const testResults = await adoClient!.getTestResultsFromBuildId(buildId);
+        
+        res.json({
+            success: true,
+            data: testResults,
+            buildId
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+// GitHub Webhook Routes
+
+/**
+ * POST /webhooks/github
+ * Receive a GitHub webhook delivery and apply it to the linked test cases.
+ * The X-Hub-Signature-256 header must be signed with GITHUB_WEBHOOK_SECRET.
+ * Headers: X-GitHub-Event, X-GitHub-Delivery, X-Hub-Signature-256
+ */
+app.post('/webhooks/github', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const secret = process.env.GITHUB_WEBHOOK_SECRET;
+        if (!secret) {
+            return res.status(500).json({
+                error: 'GitHub webhook secret not configured',
+                message: 'Set GITHUB_WEBHOOK_SECRET to receive GitHub webhooks'
+            });
+        }
+
+        const rawBody: Buffer | undefined = (req as any).rawBody;
+        if (!rawBody || !verifyWebhookSignature(secret, rawBody, req.header('X-Hub-Signature-256'))) {
+            return res.status(401).json({
+                error: 'Invalid signature',
+                message: 'X-Hub-Signature-256 does not match the payload'
+            });
+        }
+
+        const event = req.header('X-GitHub-Event');
+        const deliveryId = req.header('X-GitHub-Delivery');
+        if (!event || !deliveryId) {
+            return res.status(400).json({
+                error: 'Missing headers',
+                message: 'X-GitHub-Event and X-GitHub-Delivery headers are required'
+            });
+        }
+
+        // Sent once when the webhook is created
+        if (event === 'ping') {
+            return res.json({ success: true, message: 'pong' });
+        }
+
+        const webhookService = new GitHubWebhookService(cosmosService!);
+        const delivery = await webhookService.handle(event, deliveryId, req.body);
+
+        res.json({
+            success: true,
+            data: {
+                deliveryId: delivery.deliveryId,
+                event: delivery.event,
+                action: delivery.action,
+                testCasesUpdated: delivery.testCasesUpdated
+            }
+        });
+    } catch (error: any) {
+        console.error('Error handling GitHub webhook:', error);
+        res.status(500).json({
+            error: 'Failed to handle GitHub webhook',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * GET /webhooks/github/deliveries
+ * List received GitHub webhook deliveries, newest first (payloads left out)
+ */
+app.get('/webhooks/github/deliveries', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const deliveries = await cosmosService!.getWebhookDeliveries();
+
+        res.json({
+            success: true,
+            data: deliveries.map(({ payload, ...delivery }) => delivery),
+            count: deliveries.length
+        });
+    } catch (error: any) {
+        console.error('Error getting GitHub webhook deliveries:', error);
+        res.status(500).json({
+            error: 'Failed to get GitHub webhook deliveries',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * GET /webhooks/github/deliveries/:deliveryId
+ * Get a received delivery including its payload (save it to replay it with npm run webhook:replay)
+ */
+app.get('/webhooks/github/deliveries/:deliveryId', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const deliveryId = decodeURIComponent(req.params.deliveryId);
+        const delivery = await cosmosService!.getWebhookDelivery(deliveryId);
+
+        if (!delivery) {
+            return res.status(404).json({
+                error: 'Delivery not found',
+                message: `No GitHub webhook delivery found with ID: ${deliveryId}`
+            });
+        }
+
+        res.json({
+            success: true,
+            data: delivery
+        });
+    } catch (error: any) {
+        console.error('Error getting GitHub webhook delivery:', error);
+        res.status(500).json({
+            error: 'Failed to get GitHub webhook delivery',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * POST /:resourceId/saveConnection
+ * Save connection configuration
+ * Body: { github_url, prd, ado_url, website_url }
+ */
+app.post('/:resourceId/saveConnection', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        let { resourceId } = req.params;
+        
+        // Decode the URL-encoded resourceId
+        resourceId = decodeURIComponent(resourceId);
+        
+        const { github_url, prd, ado_url, website_url, issue_policy } = req.body;
+
+        // Validate required fields
+        if (!github_url || !prd || !ado_url || !website_url) {
+            return res.status(400).json({
+                error: 'Missing required fields',
+                message: 'github_url, prd, ado_url, and website_url are required'
+            });
+        }
+
+        if (issue_policy !== undefined && (
+            typeof issue_policy !== 'object' ||
+            typeof issue_policy.enabled !== 'boolean' ||
+            (issue_policy.labels !== undefined && !Array.isArray(issue_policy.labels)) ||
+            (issue_policy.assignees !== undefined && !Array.isArray(issue_policy.assignees)) ||
+            (issue_policy.failureThreshold !== undefined && !(Number.isInteger(issue_policy.failureThreshold) && issue_policy.failureThreshold >= 1))
+        )) {
+            return res.status(400).json({
+                error: 'Invalid issue_policy',
+                message: 'issue_policy must be { enabled: boolean, labels?: string[], assignees?: string[], failureThreshold?: integer >= 1 }'
+            });
+        }
+
+        // Keep the current issue policy when the request doesn't send one
+        const existingConnection = issue_policy === undefined ? await cosmosService!.getConnection(resourceId) : null;
+
+        // Generate a connection ID
+        const connectionId = Math.random().toString(36).substr(2, 10);
+
+        // Create connection object
+        const connection: Connection = {
+            resourceId,
+            connectionId,
+            github_url,
+            prd,
+            ado_url,
+            website_url,
+            issue_policy: issue_policy ?? existingConnection?.issue_policy
+        };
+
+        // Save connection to Cosmos DB (conditional when If-Match is supplied)
+        const savedConnection = await cosmosService!.saveConnection(connection, getIfMatch(req));
+
+        if (savedConnection._etag) {
+            res.set('ETag', savedConnection._etag);
+        }
+
+        res.json({
+            message: "Connection saved successfully",
+            status: "success",
+            resourceId,
+            connectionId
+        });
+    } catch (error: any) {
+        if (handleConcurrencyConflict(error, res)) {
+            return;
+        }
+        console.error('Error saving connection:', error);
+        res.status(500).json({
+            error: 'Failed to save connection',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * GET /:resourceId
+ * Get connection configuration
+ */
+app.get('/:resourceId', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        let { resourceId } = req.params;
+        
+        // Decode the URL-encoded resourceId
+        resourceId = decodeURIComponent(resourceId);
+        
+        const connection = await cosmosService!.getConnection(resourceId);
+
+        if (!connection) {
+            return res.status(404).json({
+                error: 'Connection not found',
+                message: `No connection found for resourceId: ${resourceId}`
+            });
+        }
+
+        if (connection._etag) {
+            res.set('ETag', connection._etag);
+        }
+
+        res.json({
+            github_url: connection.github_url,
+            prd: connection.prd,
+            ado_url: connection.ado_url,
+            website_url: connection.website_url,
+            resourceId: connection.resourceId,
+            connectionId: connection.connectionId,
+            ...(connection.issue_policy && { issue_policy: connection.issue_policy })
+        });
+    } catch (error: any) {
+        console.error('Error fetching connection:', error);
+        res.status(500).json({
+            error: 'Failed to fetch connection',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * GET /:resourceId/ado_plans
+ * Get ADO test plans and suites
+ */
+app.get('/:resourceId/ado_plans', ensureClientInitialized, ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        let { resourceId } = req.params;
+        
+        // Decode the URL-encoded resourceId
+        resourceId = decodeURIComponent(resourceId);
+
+        // Check if connection exists
+        const connection = await cosmosService!.getConnection(resourceId);
+        if (!connection) {
+            return res.status(404).json({
+                error: 'Connection not found',
+                message: `No connection found for resourceId: ${resourceId}. Please save connection first.`
+            });
+        }
+
+        // Parse ADO URL to extract organization and project info
+        const adoUrlMatch = connection.ado_url.match(/https:\/\/dev\.azure\.com\/([^\/]+)\/?(.*)?/);
+        let organization = '';
+        let project = '';
+        
+        if (adoUrlMatch) {
+            organization = adoUrlMatch[1];
+            project = adoUrlMatch[2] ? adoUrlMatch[2].replace(/\/$/, '') : '';
+        }
+
+        console.log(`Fetching test plans for ADO URL: ${connection.ado_url}`);
+        console.log(`Organization: ${organization}, Project: ${project || 'default from env'}`);
+
+        let testPlans;
+        connection.ado_url ="https://devdiv.visualstudio.com";
+        // Option 1: Create a new ADO client with the connection info
+        if (connection.ado_url && connection.ado_url !== process.env.AZURE_DEVOPS_ORG_URL) {
+            console.log('Creating new ADO client with connection-specific URL...');
+            try {
+                const connectionAdoClient = await AzureDevOpsTestPlansClient.createWithConnectionInfo(connection.ado_url);
+                testPlans = await connectionAdoClient.getAllTestPlans(true, true);
+                console.log(`Successfully fetched ${testPlans.length} test plans from connection-specific ADO instance`);
+            } catch (error) {
+                console.warn('Failed to use connection-specific ADO client, falling back to default:', error);
+                // Fallback to default client
+                testPlans = await adoClient!.getAllTestPlans(true, true);
+            }
+        } else {
+            // Option 2: Use the existing default client
+            console.log(`Using default ADO client configuration`);
+            testPlans = await adoClient!.getAllTestPlans(true, true);
+        }
+
+        // Save test plans to Cosmos DB for this resourceId
+        await cosmosService!.saveTestPlans(resourceId, testPlans);
+
+        // Transform the data following the specified order:
+        // 1) Get test plans (already done above)
+        // 2) Get test suites for each test plan
+        // 3) Get test cases for each suite
+        // 4) Get test case details for each test case
+        const suites: any[] = [];
+        
+        console.log(`Processing ${testPlans.length} test plans to extract suites and test cases...`);
+        
+        for (const plan of testPlans) {
+            try {
+                console.log(`Step 1: Processing test plan: ${plan.name} (ID: ${plan.id})`);
+                
+                let planWithSuitesAndTestCases;
+                
+                // Use connection-specific client if available, otherwise use default
+                if (connection.ado_url && connection.ado_url !== process.env.AZURE_DEVOPS_ORG_URL) {
+                    const connectionAdoClient = await AzureDevOpsTestPlansClient.createWithConnectionInfo(connection.ado_url);
+                    planWithSuitesAndTestCases = await connectionAdoClient.getTestPlanWithSuitesAndTestCases(plan.id!);
+                } else {
+                    planWithSuitesAndTestCases = await adoClient!.getTestPlanWithSuitesAndTestCases(plan.id!);
+                }
+                
+                // Step 2 & 3: Process each suite and its test cases
+                suites.push(...transformPlanSuites(resourceId, plan, planWithSuitesAndTestCases));
+                
+                console.log(`✅ Processed test plan ${plan.name}: found ${planWithSuitesAndTestCases.suites.length} suites with ${planWithSuitesAndTestCases.suites.reduce((total: number, suite: any) => total + suite.testCases.length, 0)} total test cases`);
+                
+            } catch (error) {
+                console.warn(`⚠️ Could not process test plan ${plan.name} (ID: ${plan.id}):`, error);
+                
+                // Fallback: create a suite with error information
+                suites.push({
+                    name: plan.name || `Test Plan ${plan.id}`,
+                    testCaseId: plan.id?.toString() || '17',
+                    testCases: [{
+                        testCaseId: '17', // Add testCaseId field for fallback case
+                        name: `Test plan "${plan.name}" could not be processed`,
+                        steps: [
+                            "Error occurred while fetching test cases from Azure DevOps - using fallback test case 17",
+                            "Please check the test plan configuration and permissions",
+                            "Manual verification may be required"
+                        ]
+                    }]
+                });
+            }
+        }
+
+        console.log(`🎯 Total suites created: ${suites.length}`);
+        console.log(`📊 Total test cases found: ${suites.reduce((total: any, suite: any) => total + suite.testCases.length, 0)}`);
+
+        // Save the suites to Cosmos DB (keeping the existing suite structure for compatibility)
+        const cosmosTestSuites: TestSuite[] = suites.map((suite: any) => ({
+            resourceId,
+            name: suite.name,
+            testCaseId: suite.testCaseId,
+            testCases: suite.testCases.map((tc: any) => ({
+                testCaseId: tc.testCaseId, // Add testCaseId field to each test case
+                name: tc.name,
+                steps: tc.steps
+            }))
+        }));
+        await cosmosService!.saveTestSuites(resourceId, cosmosTestSuites);
+
+        res.json({ suites });
+    } catch (error: any) {
+        console.error('Error fetching ADO plans:', error);
+        res.status(500).json({
+            error: 'Failed to fetch ADO plans',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * GET /:resourceId/testPlans
+ * Get existing test plans from database for a resource
+ * Query params: forceRefresh (boolean) - if true, re-fetch from ADO even if data exists
+ */
+app.get('/:resourceId/testPlans', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        let { resourceId } = req.params;
+        const forceRefresh = req.query.forceRefresh === 'true';
+        
+        // Decode the URL-encoded resourceId
+        resourceId = decodeURIComponent(resourceId);
+
+        console.log(`Fetching existing test plans for resourceId: ${resourceId}, forceRefresh: ${forceRefresh}`);
+
+        // Check if connection exists
+        const connection = await cosmosService!.getConnection(resourceId);
+        if (!connection) {
+            return res.status(404).json({
+                error: 'Connection not found',
+                message: `No connection found for resourceId: ${resourceId}. Please save connection first.`
+            });
+        }
+
+        // Get test suites from Cosmos DB
+        const testSuites = await cosmosService!.getTestSuites(resourceId);
+        
+        // Check if we need to force refresh or if we have fallback data
+        const hasOnlyFallbackData = testSuites && testSuites.length > 0 ? testSuites.every((suite: TestSuite) => 
+            suite.testCases.every((testCase: TestCase) => 
+                testCase.name.includes('could not be processed') ||
+                testCase.name.includes('Error occurred while fetching') ||
+                (testCase.steps && testCase.steps.some((step: string) => 
+                    step.includes('Error occurred while fetching test cases') ||
+                    step.includes('fallback test case 17') ||
+                    step.includes('Please check the test plan configuration')
+                ))
+            )
+        ) : false;
+
+        console.log(`🔍 Fallback data detection: hasOnlyFallbackData=${hasOnlyFallbackData}, forceRefresh=${forceRefresh}, testSuites.length=${testSuites?.length || 0}`);
+
+        if (forceRefresh || hasOnlyFallbackData || !testSuites || testSuites.length === 0) {
+            console.log(`${forceRefresh ? 'Force refresh requested' : hasOnlyFallbackData ? 'Fallback data detected' : 'No data found'}, fetching fresh data from Azure DevOps...`);
+            
+            // Redirect to ado_plans endpoint logic but return the result directly
+            try {
+                if (!adoClient) {
+                    return res.status(500).json({
+                        error: 'Azure DevOps client not initialized',
+                        message: 'Cannot refresh data from ADO, server not properly configured'
+                    });
+                }
+
+                // Fetch fresh data from ADO (simplified version of ado_plans logic)
+                let testPlans;
+                
+                // Parse ADO URL to get organization and project info
+                const adoUrlMatch = connection.ado_url.match(/https:\/\/dev\.azure\.com\/([^\/]+)\/?(.*)?/);
+                let canUseConnectionClient = false;
+                
+                if (adoUrlMatch) {
+                    canUseConnectionClient = true;
+                    console.log(`✅ Valid ADO URL format detected: ${connection.ado_url}`);
+                } else {
+                    console.log(`⚠️ ADO URL format not compatible with connection-specific client: ${connection.ado_url}`);
+                }
+                 connection.ado_url ="https://devdiv.visualstudio.com";
+                if (canUseConnectionClient && connection.ado_url !== process.env.AZURE_DEVOPS_ORG_URL) {
+                    console.log('Creating new ADO client with connection-specific URL for refresh...');
+                    try {
+                        const connectionAdoClient = await AzureDevOpsTestPlansClient.createWithConnectionInfo(connection.ado_url);
+                        testPlans = await connectionAdoClient.getAllTestPlans(true, true);
+                        console.log(`✅ Successfully fetched ${testPlans.length} test plans using connection-specific client`);
+                    } catch (error) {
+                        console.warn('Failed to use connection-specific ADO client, falling back to default:', error);
+                        testPlans = await adoClient!.getAllTestPlans(true, true);
+                    }
+                } else {
+                    console.log('Using default ADO client for refresh...');
+                    testPlans = await adoClient!.getAllTestPlans(true, true);
+                }
+
+                // Process and save the fresh data (same as ado_plans endpoint)
+                const suites: any[] = [];
+                for (const plan of testPlans) {
+                    try {
+                        let planWithSuitesAndTestCases;
+                        
+                        // Use the same client selection logic as above
+                        if (canUseConnectionClient && connection.ado_url !== process.env.AZURE_DEVOPS_ORG_URL) {
+                            console.log(`🔄 Processing plan ${plan.name} with connection-specific client...`);
+                            const connectionAdoClient = await AzureDevOpsTestPlansClient.createWithConnectionInfo(connection.ado_url);
+                            planWithSuitesAndTestCases = await connectionAdoClient.getTestPlanWithSuitesAndTestCases(plan.id!);
+                        } else {
+                            console.log(`🔄 Processing plan ${plan.name} with default client...`);
+                            planWithSuitesAndTestCases = await adoClient!.getTestPlanWithSuitesAndTestCases(plan.id!);
+                        }
+                        
+                        console.log(`📋 Processing ${planWithSuitesAndTestCases.suites.length} suite(s) of plan ${plan.name}`);
+                        suites.push(...transformPlanSuites(resourceId, plan, planWithSuitesAndTestCases));
+                    } catch (error) {
+                        console.error(`❌ Could not process test plan ${plan.name} during refresh:`, error);
+                        // Skip fallback for refresh - if it fails, don't save bad data
+                        // This prevents saving more fallback error data
+                    }
+                }
+
+                if (suites.length === 0) {
+                    console.warn('⚠️ No suites were successfully processed during refresh');
+                    return res.status(500).json({
+                        error: 'Failed to refresh test plans',
+                        message: 'No test plans could be processed successfully. Check Azure DevOps connection and permissions.',
+                        details: 'All test plans failed to process during refresh attempt'
+                    });
+                }
+
+                // Save the fresh suites to Cosmos DB
+                const cosmosTestSuites: TestSuite[] = suites.map((suite: any) => ({
+                    resourceId,
+                    name: suite.name,
+                    testCaseId: suite.testCaseId,
+                    testCases: suite.testCases.map((tc: any) => ({
+                        testCaseId: tc.testCaseId,
+                        name: tc.name,
+                        steps: tc.steps
+                    }))
+                }));
+                const freshTestSuites = await cosmosService!.saveTestSuites(resourceId, cosmosTestSuites);
+
+                console.log(`✅ Refreshed and saved ${suites.length} suites with fresh data from ADO`);
+                
+                // Continue with the fresh data
+                res.set('ETag', collectionETag(freshTestSuites));
+                return res.json({
+                    suites: freshTestSuites.map((suite: TestSuite) => ({
+                        name: suite.name,
+                        testCaseId: suite.testCaseId,
+                        etag: suite._etag,
+                        testCases: suite.testCases.map((testCase: TestCase, index: number) => {
+                            let enhancedSteps: any[] = [];
+                            if (testCase.steps && Array.isArray(testCase.steps)) {
+                                enhancedSteps = testCase.steps.map((step: string, stepIndex: number) => {
+                                    const stepMatch = step.match(/^Step (\d+):\s*(.+?)(?:\s*-\s*Expected:\s*(.+))?$/);
+                                    if (stepMatch) {
+                                        const stepNumber = stepMatch[1];
+                                        const stepDescription = stepMatch[2];
+                                        const expectedResult = stepMatch[3];
+                                        
+                                        return {
+                                            stepName: `Step ${stepNumber}`,
+                                            stepDescription: expectedResult ? 
+                                                `${stepDescription} - Expected: ${expectedResult}` : 
+                                                stepDescription
+                                        };
+                                    } else {
+                                        return {
+                                            stepName: `Step ${stepIndex + 1}`,
+                                            stepDescription: step
+                                        };
+                                    }
+                                });
+                            }
+
+                            return {
+                                testCaseId: testCase.testCaseId || `${suite.testCaseId}-${index + 1}`,
+                                name: testCase.name,
+                                steps: testCase.steps || [],
+                                status: testCase.status || 'Not Started',
+                                issueId: testCase.issueId || '',
+                                issueUrl: testCase.githubUrl || '',
+                                enhanced_Steps: enhancedSteps
+                            };
+                        })
+                    })),
+                    refreshed: true,
+                    message: 'Data refreshed from Azure DevOps'
+                });
+
+            } catch (refreshError: any) {
+                console.error('Failed to refresh data from ADO:', refreshError);
+                return res.status(500).json({
+                    error: 'Failed to refresh data from Azure DevOps',
+                    details: refreshError.message,
+                    suggestion: 'Check Azure DevOps connection settings and permissions'
+                });
+            }
+        }
+        
+        if (!testSuites || testSuites.length === 0) {
+            return res.json({
+                suites: [],
+                message: 'No test plans found for this resource. Please fetch test plans from Azure DevOps first.'
+            });
+        }
+
+        console.log(`Found ${testSuites.length} test suite(s) for resourceId: ${resourceId}`);
+
+        // Transform the data to match the requested format
+        const suites = testSuites.map((suite: TestSuite) => ({
+            name: suite.name,
+            testCaseId: suite.testCaseId,
+            etag: suite._etag,
+            testCases: suite.testCases.map((testCase: TestCase, index: number) => {
+                // Parse steps to create enhanced_Steps format
+                let enhancedSteps: any[] = [];
+                if (testCase.steps && Array.isArray(testCase.steps)) {
+                    enhancedSteps = testCase.steps.map((step: string, stepIndex: number) => {
+                        // Extract step name and description from the step string
+                        const stepMatch = step.match(/^Step (\d+):\s*(.+?)(?:\s*-\s*Expected:\s*(.+))?$/);
+                        if (stepMatch) {
+                            const stepNumber = stepMatch[1];
+                            const stepDescription = stepMatch[2];
+                            const expectedResult = stepMatch[3];
+                            
+                            return {
+                                stepName: `Step ${stepNumber}`,
+                                stepDescription: expectedResult ? 
+                                    `${stepDescription} - Expected: ${expectedResult}` : 
+                                    stepDescription
+                            };
+                        } else {
+                            return {
+                                stepName: `Step ${stepIndex + 1}`,
+                                stepDescription: step
+                            };
+                        }
+                    });
+                }
+
+                return {
+                    testCaseId: testCase.testCaseId || `${suite.testCaseId}-${index + 1}`, // Use stored testCaseId or create one
+                    name: testCase.name,
+                    steps: testCase.steps || [],
+                    status: testCase.status || 'Not Started',
+                    issueId: testCase.issueId || '',
+                    issueUrl: testCase.githubUrl || '',
+                    enhanced_Steps: enhancedSteps
+                };
+            })
+        }));
+
+        console.log(`Returning ${suites.length} suite(s) with ${suites.reduce((total, suite) => total + suite.testCases.length, 0)} total test cases`);
+
+        res.set('ETag', collectionETag(testSuites));
+        res.json({ suites });
+    } catch (error: any) {
+        console.error('Error fetching existing test plans:', error);
+        res.status(500).json({
+            error: 'Failed to fetch existing test plans',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * POST /:resourceId/sync
+ * Enqueue a background sync of ADO test plans, suites and test cases into storage.
+ * mode=delta (query string or body) only fetches test cases changed since the last sync.
+ */
+app.post('/:resourceId/sync', ensureClientInitialized, ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+
+        // Check if connection exists
+        const connection = await cosmosService!.getConnection(resourceId);
+        if (!connection) {
+            return res.status(404).json({
+                error: 'Connection not found',
+                message: `No connection found for resourceId: ${resourceId}. Please save connection first.`
+            });
+        }
+
+        const mode = req.query.mode || req.body?.mode || 'full';
+        if (mode !== 'full' && mode !== 'delta') {
+            return res.status(400).json({
+                error: 'Invalid sync mode',
+                message: 'mode must be either "full" or "delta"'
+            });
+        }
+
+        const { job, created } = await syncJobService!.enqueue(resourceId, mode);
+        const statusUrl = `/${encodeURIComponent(resourceId)}/sync/${job.jobId}`;
+
+        res.set('Location', statusUrl);
+        res.status(202).json({
+            message: created ? 'Sync job queued' : 'A sync job is already in progress for this resource',
+            jobId: job.jobId,
+            mode: job.mode,
+            status: job.status,
+            statusUrl
+        });
+    } catch (error: any) {
+        console.error('Error starting sync job:', error);
+        res.status(500).json({
+            error: 'Failed to start sync job',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * GET /:resourceId/sync
+ * List sync jobs for a resource, newest first
+ */
+app.get('/:resourceId/sync', ensureClientInitialized, ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const jobs = await syncJobService!.listJobs(resourceId);
+
+        res.json({
+            jobs,
+            count: jobs.length
+        });
+    } catch (error: any) {
+        console.error('Error listing sync jobs:', error);
+        res.status(500).json({
+            error: 'Failed to list sync jobs',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * GET /:resourceId/sync/:jobId
+ * Get sync job progress (plans/suites/test cases processed, failures) and final result
+ */
+app.get('/:resourceId/sync/:jobId', ensureClientInitialized, ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const job = await syncJobService!.getJob(resourceId, req.params.jobId);
+
+        if (!job) {
+            return res.status(404).json({
+                error: 'Sync job not found',
+                message: `No sync job ${req.params.jobId} found for resourceId: ${resourceId}`
+            });
+        }
+
+        res.json(job);
+    } catch (error: any) {
+        console.error('Error fetching sync job:', error);
+        res.status(500).json({
+            error: 'Failed to fetch sync job',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * POST /:resourceId/results
+ * Ingest a Playwright JSON reporter file or a JUnit XML report and map its results onto stored test cases.
+ * Query: format=playwright|junit (detected when omitted), forwardToAdo=true, runName
+ */
+app.post('/:resourceId/results', ensureCosmosInitialized, express.text({ type: ['application/xml', 'text/xml', 'text/plain'], limit: '25mb' }), async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const forwardToAdo = req.query.forwardToAdo === 'true';
+
+        const connection = await cosmosService!.getConnection(resourceId);
+        if (!connection) {
+            return res.status(404).json({
+                error: 'Connection not found',
+                message: `No connection found for resourceId: ${resourceId}. Please save connection first.`
+            });
+        }
+
+        const format = (req.query.format as TestReportFormat | undefined) || detectReportFormat(req.headers['content-type'], req.body);
+        if (format !== 'playwright' && format !== 'junit') {
+            return res.status(400).json({
+                error: 'Unsupported report format',
+                message: 'Send a Playwright JSON report (application/json) or a JUnit XML report (application/xml), or set ?format=playwright|junit'
+            });
+        }
+
+        if (forwardToAdo && !adoClient) {
+            return res.status(500).json({
+                error: 'Azure DevOps client not initialized',
+                message: 'Server is starting up, please try again in a moment'
+            });
+        }
+
+        const ingestionService = new TestResultIngestionService(cosmosService!);
+        let report: TestResultReport;
+        try {
+            report = await ingestionService.ingest(resourceId, format, req.body, {
+                adoClient: forwardToAdo ? await resolveAdoClient(connection.ado_url, adoClient!) : undefined,
+                runName: req.query.runName as string | undefined
+            });
+        } catch (error: any) {
+            if (error instanceof SyntaxError || /^Invalid (Playwright|JUnit) report/.test(error.message)) {
+                return res.status(400).json({
+                    error: 'Invalid report',
+                    details: error.message
+                });
+            }
+            throw error;
+        }
+
+        // File (or comment on) GitHub issues for failures when the connection's policy asks for it
+        if (connection.issue_policy?.enabled && report.summary.failed > 0) {
+            try {
+                const autoFiler = new IssueAutoFiler(cosmosService!, new GitHubService());
+                report.issues = await autoFiler.fileFailures(connection, report);
+            } catch (error: any) {
+                console.error('Automatic GitHub issue filing failed:', error);
+                report.issueError = error.message;
+            }
+            report = await cosmosService!.saveTestResultReport(report);
+        }
+
+        res.status(201).json(report);
+    } catch (error: any) {
+        console.error('Error ingesting test results:', error);
+        res.status(500).json({
+            error: 'Failed to ingest test results',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * GET /:resourceId/results
+ * List ingested test result reports, newest first
+ */
+app.get('/:resourceId/results', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const reports = await cosmosService!.getTestResultReports(resourceId);
+
+        res.json({
+            reports,
+            count: reports.length
+        });
+    } catch (error: any) {
+        console.error('Error listing test result reports:', error);
+        res.status(500).json({
+            error: 'Failed to list test result reports',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * GET /:resourceId/results/:reportId
+ * Get an ingested test result report with its matched and unmatched results
+ */
+app.get('/:resourceId/results/:reportId', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const report = await cosmosService!.getTestResultReport(resourceId, req.params.reportId);
+
+        if (!report) {
+            return res.status(404).json({
+                error: 'Test result report not found',
+                message: `No report ${req.params.reportId} found for resourceId: ${resourceId}`
+            });
+        }
+
+        res.json(report);
+    } catch (error: any) {
+        console.error('Error fetching test result report:', error);
+        res.status(500).json({
+            error: 'Failed to fetch test result report',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * GET /:resourceId/suites/:suiteId
+ * Get a stored test suite with its test cases. Returns the suite ETag.
+ */
+app.get('/:resourceId/suites/:suiteId', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const suiteId = decodeURIComponent(req.params.suiteId);
+
+        const suite = await cosmosService!.getTestSuite(resourceId, suiteId);
+        if (!suite) {
+            return res.status(404).json({
+                error: 'Test suite not found',
+                message: `No test suite ${suiteId} found for resourceId: ${resourceId}`
+            });
+        }
+
+        if (suite._etag) {
+            res.set('ETag', suite._etag);
+        }
+
+        res.json(suite);
+    } catch (error: any) {
+        console.error('Error fetching test suite:', error);
+        res.status(500).json({
+            error: 'Failed to fetch test suite',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * PATCH /:resourceId/suites/:suiteId
+ * Update a stored test suite. Honours If-Match and returns 412 on conflicts.
+ * Body: { name?, testCases? }
+ */
+app.patch('/:resourceId/suites/:suiteId', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const suiteId = decodeURIComponent(req.params.suiteId);
+        const { name, testCases } = req.body;
+
+        if (testCases !== undefined && !Array.isArray(testCases)) {
+            return res.status(400).json({
+                error: 'Invalid testCases',
+                message: 'testCases must be an array'
+            });
+        }
+
+        const updates: Partial<TestSuite> = {
+            ...(name !== undefined && { name }),
+            ...(testCases !== undefined && { testCases })
+        };
+
+        const suite = await cosmosService!.updateTestSuite(resourceId, suiteId, updates, getIfMatch(req));
+        if (!suite) {
+            return res.status(404).json({
+                error: 'Test suite not found',
+                message: `No test suite ${suiteId} found for resourceId: ${resourceId}`
+            });
+        }
+
+        if (suite._etag) {
+            res.set('ETag', suite._etag);
+        }
+
+        res.json(suite);
+    } catch (error: any) {
+        if (handleConcurrencyConflict(error, res)) {
+            return;
+        }
+        console.error('Error updating test suite:', error);
+        res.status(500).json({
+            error: 'Failed to update test suite',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * GET /:resourceId/plans/:planId
+ * Get a stored test plan. Returns the plan ETag.
+ */
+app.get('/:resourceId/plans/:planId', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const planId = parseInt(req.params.planId);
+
+        if (isNaN(planId)) {
+            return res.status(400).json({
+                error: 'Invalid test plan ID',
+                message: 'Test plan ID must be a number'
+            });
+        }
+
+        const plan = await cosmosService!.getTestPlan(resourceId, planId);
+        if (!plan) {
+            return res.status(404).json({
+                error: 'Test plan not found',
+                message: `No test plan ${planId} found for resourceId: ${resourceId}`
+            });
+        }
+
+        if (plan._etag) {
+            res.set('ETag', plan._etag);
+        }
+
+        res.json(plan);
+    } catch (error: any) {
+        console.error('Error fetching test plan:', error);
+        res.status(500).json({
+            error: 'Failed to fetch test plan',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * PATCH /:resourceId/plans/:planId
+ * Update a stored test plan. Honours If-Match and returns 412 on conflicts.
+ * Body: { name?, description?, state?, iteration?, areaPath?, startDate?, endDate? }
+ */
+app.patch('/:resourceId/plans/:planId', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const planId = parseInt(req.params.planId);
+
+        if (isNaN(planId)) {
+            return res.status(400).json({
+                error: 'Invalid test plan ID',
+                message: 'Test plan ID must be a number'
+            });
+        }
+
+        const { name, description, state, iteration, areaPath, startDate, endDate } = req.body;
+        const updates: Partial<TestPlan> = {
+            ...(name !== undefined && { name }),
+            ...(description !== undefined && { description }),
+            ...(state !== undefined && { state }),
+            ...(iteration !== undefined && { iteration }),
+            ...(areaPath !== undefined && { areaPath }),
+            ...(startDate !== undefined && { startDate: new Date(startDate) }),
+            ...(endDate !== undefined && { endDate: new Date(endDate) })
+        };
+
+        const plan = await cosmosService!.updateTestPlan(resourceId, planId, updates, getIfMatch(req));
+        if (!plan) {
+            return res.status(404).json({
+                error: 'Test plan not found',
+                message: `No test plan ${planId} found for resourceId: ${resourceId}`
+            });
+        }
 
-        if (forceRefresh || hasOnlyFallbackData || !testSuites || testSuites.length === 0) {
-            console.log(`${forceRefresh ? 'Force refresh requested' : hasOnlyFallbackData ? 'Fallback data detected' : 'No data found'}, fetching fresh data from Azure DevOps...`);
-            
-            // Redirect to ado_plans endpoint logic but return the result directly
-            try {
-                if (!adoClient) {
-                    return res.status(500).json({
-                        error: 'Azure DevOps client not initialized',
-                        message: 'Cannot refresh data from ADO, server not properly configured'
-                    });
-                }
+        if (plan._etag) {
+            res.set('ETag', plan._etag);
+        }
 
-                // Fetch fresh data from ADO (simplified version of ado_plans logic)
-                let testPlans;
-                
-                // Parse ADO URL to get organization and project info
-                const adoUrlMatch = connection.ado_url.match(/https:\/\/dev\.azure\.com\/([^\/]+)\/?(.*)?/);
-                let canUseConnectionClient = false;
-                
-                if (adoUrlMatch) {
-                    canUseConnectionClient = true;
-                    console.log(`✅ Valid ADO URL format detected: ${connection.ado_url}`);
-                } else {
-                    console.log(`⚠️ ADO URL format not compatible with connection-specific client: ${connection.ado_url}`);
-                }
-                 connection.ado_url ="https://devdiv.visualstudio.com";
-                if (canUseConnectionClient && connection.ado_url !== process.env.AZURE_DEVOPS_ORG_URL) {
-                    console.log('Creating new ADO client with connection-specific URL for refresh...');
-                    try {
-                        const connectionAdoClient = await AzureDevOpsTestPlansClient.createWithConnectionInfo(connection.ado_url);
-                        testPlans = await connectionAdoClient.getAllTestPlans(true, true);
-                        console.log(`✅ Successfully fetched ${testPlans.length} test plans using connection-specific client`);
-                    } catch (error) {
-                        console.warn('Failed to use connection-specific ADO client, falling back to default:', error);
-                        testPlans = await adoClient!.getAllTestPlans(true, true);
-                    }
-                } else {
-                    console.log('Using default ADO client for refresh...');
-                    testPlans = await adoClient!.getAllTestPlans(true, true);
-                }
+        res.json(plan);
+    } catch (error: any) {
+        if (handleConcurrencyConflict(error, res)) {
+            return;
+        }
+        console.error('Error updating test plan:', error);
+        res.status(500).json({
+            error: 'Failed to update test plan',
+            details: error.message
+        });
+    }
+});
 
-                // Process and save the fresh data (same as ado_plans endpoint)
-                const suites: any[] = [];
-                for (const plan of testPlans) {
-                    try {
-                        let planWithSuitesAndTestCases;
-                        
-                        // Use the same client selection logic as above
-                        if (canUseConnectionClient && connection.ado_url !== process.env.AZURE_DEVOPS_ORG_URL) {
-                            console.log(`🔄 Processing plan ${plan.name} with connection-specific client...`);
-                            const connectionAdoClient = await AzureDevOpsTestPlansClient.createWithConnectionInfo(connection.ado_url);
-                            planWithSuitesAndTestCases = await connectionAdoClient.getTestPlanWithSuitesAndTestCases(plan.id!);
-                        } else {
-                            console.log(`🔄 Processing plan ${plan.name} with default client...`);
-                            planWithSuitesAndTestCases = await adoClient!.getTestPlanWithSuitesAndTestCases(plan.id!);
-                        }
-                        
-                        for (const suite of planWithSuitesAndTestCases.suites) {
-                            console.log(`📋 Processing suite: ${suite.name} with ${suite.testCases.length} test cases`);
-                            
-                            const transformedTestCases = suite.testCases.map((testCase: any) => {
-                                console.log(`📝 Processing test case: ${testCase.fields?.title || 'Untitled'} (ID: ${testCase.id})`);
-                                
-                                let steps: string[] = [];
-                                if (testCase.parsedSteps && testCase.parsedSteps.length > 0) {
-                                    console.log(`✅ Found ${testCase.parsedSteps.length} parsed steps for test case ${testCase.id}`);
-                                    steps = testCase.parsedSteps.map((step: any, index: number) => {
-                                        if (step.action && step.expectedResult) {
-                                            return `Step ${index + 1}: ${step.action} - Expected: ${step.expectedResult}`;
-                                        } else if (step.action) {
-                                            return `Step ${index + 1}: ${step.action}`;
-                                        } else {
-                                            return `Step ${index + 1}: No action specified`;
-                                        }
-                                    });
-                                } else {
-                                    console.log(`⚠️ No parsed steps found for test case ${testCase.id}`);
-                                    steps = ["No test steps available"];
-                                }
-                                
-                                return {
-                                    testCaseId: testCase.testCaseId || testCase.id,
-                                    name: testCase.fields?.title || 'Untitled Test Case',
-                                    steps: steps
-                                };
-                            });
-
-                            suites.push({
-                                name: `${plan.name} - ${suite.name}`,
-                                testCaseId: `${plan.id}-${suite.id}`,
-                                testCases: transformedTestCases
-                            });
-                        }
-                    } catch (error) {
-                        console.error(`❌ Could not process test plan ${plan.name} during refresh:`, error);
-                        // Skip fallback for refresh - if it fails, don't save bad data
-                        // This prevents saving more fallback error data
-                    }
-                }
+/**
+ * GET /:resourceId/recommendations
+ * List stored recommendation runs, newest first, with the number of recommendations per review state
+ * Query: planId? - only runs for this test plan
+ */
+app.get('/:resourceId/recommendations', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const planId = req.query.planId ? String(req.query.planId) : undefined;
+
+        const runs = await new RecommendationRunService(cosmosService!).listRuns(resourceId, planId);
+
+        res.json(runs.map(run => ({
+            runId: run.runId,
+            planId: run.planId,
+            prdHash: run.prdHash,
+            model: run.model,
+            createdAt: run.createdAt,
+            counts: run.recommendations.reduce((counts, item) => ({ ...counts, [item.state]: counts[item.state] + 1 }), {
+                proposed: 0,
+                accepted: 0,
+                rejected: 0,
+                applied: 0
+            }),
+            droppedCount: run.dropped.length
+        })));
+    } catch (error: any) {
+        console.error('Error fetching recommendation runs:', error);
+        res.status(500).json({
+            error: 'Failed to fetch recommendation runs',
+            details: error.message
+        });
+    }
+});
 
-                if (suites.length === 0) {
-                    console.warn('⚠️ No suites were successfully processed during refresh');
-                    return res.status(500).json({
-                        error: 'Failed to refresh test plans',
-                        message: 'No test plans could be processed successfully. Check Azure DevOps connection and permissions.',
-                        details: 'All test plans failed to process during refresh attempt'
-                    });
-                }
+/**
+ * GET /:resourceId/recommendations/:runId
+ * Get a stored recommendation run with the review state of every recommendation. Returns the run ETag.
+ */
+app.get('/:resourceId/recommendations/:runId', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const runId = decodeURIComponent(req.params.runId);
 
-                // Save the fresh suites to Cosmos DB
-                const cosmosTestSuites: TestSuite[] = suites.map((suite: any) => ({
-                    resourceId,
-                    name: suite.name,
-                    testCaseId: suite.testCaseId,
-                    testCases: suite.testCases.map((tc: any) => ({
-                        testCaseId: tc.testCaseId,
-                        name: tc.name,
-                        steps: tc.steps
-                    }))
-                }));
-                await cosmosService!.saveTestSuites(resourceId, cosmosTestSuites);
+        const run = await new RecommendationRunService(cosmosService!).getRun(resourceId, runId);
+        if (!run) {
+            return res.status(404).json({
+                error: 'Recommendation run not found',
+                message: `No recommendation run ${runId} found for resourceId: ${resourceId}`
+            });
+        }
 
-                console.log(`✅ Refreshed and saved ${suites.length} suites with fresh data from ADO`);
-                
-                // Continue with the fresh data
-                const freshTestSuites = cosmosTestSuites;
-                return res.json({
-                    suites: freshTestSuites.map((suite: TestSuite) => ({
-                        name: suite.name,
-                        testCaseId: suite.testCaseId,
-                        testCases: suite.testCases.map((testCase: TestCase, index: number) => {
-                            let enhancedSteps: any[] = [];
-                            if (testCase.steps && Array.isArray(testCase.steps)) {
-                                enhancedSteps = testCase.steps.map((step: string, stepIndex: number) => {
-                                    const stepMatch = step.match(/^Step (\d+):\s*(.+?)(?:\s*-\s*Expected:\s*(.+))?$/);
-                                    if (stepMatch) {
-                                        const stepNumber = stepMatch[1];
-                                        const stepDescription = stepMatch[2];
-                                        const expectedResult = stepMatch[3];
-                                        
-                                        return {
-                                            stepName: `Step ${stepNumber}`,
-                                            stepDescription: expectedResult ? 
-                                                `${stepDescription} - Expected: ${expectedResult}` : 
-                                                stepDescription
-                                        };
-                                    } else {
-                                        return {
-                                            stepName: `Step ${stepIndex + 1}`,
-                                            stepDescription: step
-                                        };
-                                    }
-                                });
-                            }
+        if (run._etag) {
+            res.set('ETag', run._etag);
+        }
+
+        res.json(run);
+    } catch (error: any) {
+        console.error('Error fetching recommendation run:', error);
+        res.status(500).json({
+            error: 'Failed to fetch recommendation run',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * PATCH /:resourceId/recommendations/:runId/:recommendationId
+ * Review a recommendation. Honours If-Match (run ETag) and returns 412 on conflicts.
+ * Body: { state: 'proposed' | 'accepted' | 'rejected', reason? (required to reject), reviewedBy? }
+ * Recommendations become 'applied' through POST /api/testplans/:planId/recommendations/apply.
+ */
+app.patch('/:resourceId/recommendations/:runId/:recommendationId', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const runId = decodeURIComponent(req.params.runId);
+        const recommendationId = decodeURIComponent(req.params.recommendationId);
+        const { state, reason, reviewedBy } = req.body;
+
+        if (!['proposed', 'accepted', 'rejected'].includes(state)) {
+            return res.status(400).json({
+                error: 'Invalid state',
+                message: 'state must be one of: proposed, accepted, rejected'
+            });
+        }
+        if ((reason !== undefined && typeof reason !== 'string') || (reviewedBy !== undefined && typeof reviewedBy !== 'string')) {
+            return res.status(400).json({
+                error: 'Invalid review',
+                message: 'reason and reviewedBy must be strings'
+            });
+        }
+
+        const run = await new RecommendationRunService(cosmosService!).review(
+            resourceId,
+            runId,
+            recommendationId,
+            { state, reason, reviewedBy },
+            getIfMatch(req)
+        );
+        if (!run) {
+            return res.status(404).json({
+                error: 'Recommendation run not found',
+                message: `No recommendation run ${runId} found for resourceId: ${resourceId}`
+            });
+        }
+
+        if (run._etag) {
+            res.set('ETag', run._etag);
+        }
+
+        res.json(run);
+    } catch (error: any) {
+        if (handleConcurrencyConflict(error, res)) {
+            return;
+        }
+        if (error instanceof RecommendationReviewError) {
+            return res.status(error.statusCode).json({
+                error: 'Invalid review',
+                message: error.message
+            });
+        }
+        console.error('Error reviewing recommendation:', error);
+        res.status(500).json({
+            error: 'Failed to review recommendation',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * GET /:resourceId/requirements
+ * Requirements parsed from the connection's PRD (one per numbered heading, e.g. "2.2.1 View Access Tokens")
+ */
+app.get('/:resourceId/requirements', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+
+        const requirements = await new TraceabilityService(cosmosService!).getRequirements(resourceId);
+
+        res.json(requirements);
+    } catch (error: any) {
+        if (error instanceof TraceabilityError) {
+            return res.status(error.statusCode).json({
+                error: 'Failed to fetch requirements',
+                message: error.message
+            });
+        }
+        console.error('Error fetching requirements:', error);
+        res.status(500).json({
+            error: 'Failed to fetch requirements',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * GET /:resourceId/requirements/suggestions
+ * Suggest requirements for stored test cases by embedding similarity (nothing is saved)
+ * Query: minScore? (default 0.35), limit? (per test case, default 3), includeMapped? (default false)
+ */
+app.get('/:resourceId/requirements/suggestions', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const minScore = req.query.minScore !== undefined ? Number(req.query.minScore) : undefined;
+        const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit)) : undefined;
+
+        if ((minScore !== undefined && isNaN(minScore)) || (limit !== undefined && (isNaN(limit) || limit < 1))) {
+            return res.status(400).json({
+                error: 'Invalid query',
+                message: 'minScore must be a number and limit a positive integer'
+            });
+        }
+
+        const suggestions = await new TraceabilityService(cosmosService!).suggest(resourceId, createLlmProvider(), {
+            minScore,
+            limit,
+            includeMapped: req.query.includeMapped === 'true'
+        });
+
+        res.json(suggestions);
+    } catch (error: any) {
+        if (error instanceof TraceabilityError) {
+            return res.status(error.statusCode).json({
+                error: 'Failed to suggest requirements',
+                message: error.message
+            });
+        }
+        console.error('Error suggesting requirements:', error);
+        if (handleLlmConfigurationError(error, res)) {
+            return;
+        }
+        res.status(500).json({
+            error: 'Failed to suggest requirements',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * PUT /:resourceId/testcases/:testCaseId/requirements
+ * Set the PRD requirements a test case covers (replaces earlier mappings, in every suite the test case is in)
+ * Body: { requirementIds: string[] }
+ */
+app.put('/:resourceId/testcases/:testCaseId/requirements', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const testCaseId = decodeURIComponent(req.params.testCaseId);
+        const { requirementIds } = req.body;
+
+        if (!Array.isArray(requirementIds) || requirementIds.some((id: any) => typeof id !== 'string')) {
+            return res.status(400).json({
+                error: 'Invalid requirementIds',
+                message: 'requirementIds must be an array of requirement ids'
+            });
+        }
+
+        const testCases = await new TraceabilityService(cosmosService!).mapTestCase(resourceId, testCaseId, requirementIds);
+
+        res.json({
+            testCaseId,
+            requirementIds: testCases[0]?.requirementIds || [],
+            suiteIds: testCases.map(testCase => testCase.suiteId)
+        });
+    } catch (error: any) {
+        if (error instanceof TraceabilityError) {
+            return res.status(error.statusCode).json({
+                error: 'Failed to map test case',
+                message: error.message
+            });
+        }
+        console.error('Error mapping test case to requirements:', error);
+        res.status(500).json({
+            error: 'Failed to map test case to requirements',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * GET /:resourceId/duplicates
+ * Cluster stored test cases that are likely duplicates by embedding similarity (title + steps).
+ * Embeddings are cached and only recomputed for changed test cases.
+ * Query: threshold? - minimum cosine similarity (default DUPLICATE_SIMILARITY_THRESHOLD or 0.9)
+ */
+app.get('/:resourceId/duplicates', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const threshold = req.query.threshold !== undefined ? Number(req.query.threshold) : undefined;
+
+        if (threshold !== undefined && (isNaN(threshold) || threshold <= 0 || threshold > 1)) {
+            return res.status(400).json({
+                error: 'Invalid threshold',
+                message: 'threshold must be a number between 0 and 1'
+            });
+        }
+
+        const report = await new DuplicateDetectionService(cosmosService!, createLlmProvider()).findDuplicates(resourceId, threshold);
+
+        res.json(report);
+    } catch (error: any) {
+        console.error('Error finding duplicate test cases:', error);
+        if (handleLlmConfigurationError(error, res)) {
+            return;
+        }
+        res.status(500).json({
+            error: 'Failed to find duplicate test cases',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * GET /:resourceId/traceability
+ * Requirements traceability matrix: requirement -> test cases -> latest result -> GitHub issue,
+ * including requirements no test case covers
+ */
+app.get('/:resourceId/traceability', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+
+        const matrix = await new TraceabilityService(cosmosService!).buildMatrix(resourceId);
+
+        res.json(matrix);
+    } catch (error: any) {
+        if (error instanceof TraceabilityError) {
+            return res.status(error.statusCode).json({
+                error: 'Failed to build traceability matrix',
+                message: error.message
+            });
+        }
+        console.error('Error building traceability matrix:', error);
+        res.status(500).json({
+            error: 'Failed to build traceability matrix',
+            details: error.message
+        });
+    }
+});
 
-                            return {
-                                testCaseId: testCase.testCaseId || `${suite.testCaseId}-${index + 1}`,
-                                name: testCase.name,
-                                steps: testCase.steps || [],
-                                status: testCase.status || 'Not Started',
-                                issueId: testCase.issueId || '',
-                                issueUrl: testCase.githubUrl || '',
-                                enhanced_Steps: enhancedSteps
-                            };
-                        })
-                    })),
-                    refreshed: true,
-                    message: 'Data refreshed from Azure DevOps'
-                });
+/**
+ * POST /:resourceId/testcases/:testCaseId/playwright
+ * Generate a Playwright spec skeleton for a stored test case (one test.step per ADO step)
+ * Query: ai=true - let the LLM suggest locators and assertions; download=true - send the .spec.ts file itself
+ */
+app.post('/:resourceId/testcases/:testCaseId/playwright', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const testCaseId = decodeURIComponent(req.params.testCaseId);
 
-            } catch (refreshError: any) {
-                console.error('Failed to refresh data from ADO:', refreshError);
-                return res.status(500).json({
-                    error: 'Failed to refresh data from Azure DevOps',
-                    details: refreshError.message,
-                    suggestion: 'Check Azure DevOps connection settings and permissions'
-                });
-            }
+        const connection = await cosmosService!.getConnection(resourceId);
+        if (!connection) {
+            return res.status(404).json({
+                error: 'Connection not found',
+                message: `No connection found for resourceId: ${resourceId}. Please save connection first.`
+            });
         }
-        
-        if (!testSuites || testSuites.length === 0) {
-            return res.json({
-                suites: [],
-                message: 'No test plans found for this resource. Please fetch test plans from Azure DevOps first.'
+
+        const [testCase] = await cosmosService!.findTestCases(resourceId, testCaseId);
+        if (!testCase) {
+            return res.status(404).json({
+                error: 'Test case not found',
+                message: `No test case ${testCaseId} found for resourceId: ${resourceId}`
             });
         }
 
-        console.log(`Found ${testSuites.length} test suite(s) for resourceId: ${resourceId}`);
+        const generator = new PlaywrightSkeletonGenerator(req.query.ai === 'true' ? createLlmProvider() : undefined);
+        const spec = await generator.generate(testCase, connection.website_url);
 
-        // Transform the data to match the requested format
-        const suites = testSuites.map((suite: TestSuite) => ({
-            name: suite.name,
-            testCaseId: suite.testCaseId,
-            testCases: suite.testCases.map((testCase: TestCase, index: number) => {
-                // Parse steps to create enhanced_Steps format
-                let enhancedSteps: any[] = [];
-                if (testCase.steps && Array.isArray(testCase.steps)) {
-                    enhancedSteps = testCase.steps.map((step: string, stepIndex: number) => {
-                        // Extract step name and description from the step string
-                        const stepMatch = step.match(/^Step (\d+):\s*(.+?)(?:\s*-\s*Expected:\s*(.+))?$/);
-                        if (stepMatch) {
-                            const stepNumber = stepMatch[1];
-                            const stepDescription = stepMatch[2];
-                            const expectedResult = stepMatch[3];
-                            
-                            return {
-                                stepName: `Step ${stepNumber}`,
-                                stepDescription: expectedResult ? 
-                                    `${stepDescription} - Expected: ${expectedResult}` : 
-                                    stepDescription
-                            };
-                        } else {
-                            return {
-                                stepName: `Step ${stepIndex + 1}`,
-                                stepDescription: step
-                            };
-                        }
-                    });
-                }
+        if (req.query.download === 'true') {
+            res.set('Content-Type', 'text/plain; charset=utf-8');
+            res.set('Content-Disposition', `attachment; filename="${spec.fileName}"`);
+            return res.send(spec.content);
+        }
 
-                return {
-                    testCaseId: testCase.testCaseId || `${suite.testCaseId}-${index + 1}`, // Use stored testCaseId or create one
-                    name: testCase.name,
-                    steps: testCase.steps || [],
-                    status: testCase.status || 'Not Started',
-                    issueId: testCase.issueId || '',
-                    issueUrl: testCase.githubUrl || '',
-                    enhanced_Steps: enhancedSteps
-                };
-            })
-        }));
+        res.json(spec);
+    } catch (error: any) {
+        console.error('Error generating Playwright spec:', error);
+        if (handleLlmConfigurationError(error, res)) {
+            return;
+        }
+        res.status(500).json({
+            error: 'Failed to generate Playwright spec',
+            details: error.message
+        });
+    }
+});
 
-        console.log(`Returning ${suites.length} suite(s) with ${suites.reduce((total, suite) => total + suite.testCases.length, 0)} total test cases`);
+/**
+ * POST /:resourceId/suites/:suiteId/playwright
+ * Generate Playwright spec skeletons for every test case of a stored suite, as a zip with a playwright.config.ts
+ * Query: ai=true - let the LLM suggest locators and assertions; format=json - return the files as JSON instead
+ */
+app.post('/:resourceId/suites/:suiteId/playwright', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const suiteId = decodeURIComponent(req.params.suiteId);
 
-        res.json({ suites });
+        const connection = await cosmosService!.getConnection(resourceId);
+        if (!connection) {
+            return res.status(404).json({
+                error: 'Connection not found',
+                message: `No connection found for resourceId: ${resourceId}. Please save connection first.`
+            });
+        }
+
+        const suite = await cosmosService!.getTestSuite(resourceId, suiteId);
+        if (!suite) {
+            return res.status(404).json({
+                error: 'Test suite not found',
+                message: `No test suite ${suiteId} found for resourceId: ${resourceId}`
+            });
+        }
+
+        const generator = new PlaywrightSkeletonGenerator(req.query.ai === 'true' ? createLlmProvider() : undefined);
+        const specs = [];
+        for (const testCase of suite.testCases) {
+            specs.push(await generator.generate(testCase, connection.website_url));
+        }
+        console.log(`🎭 Generated ${specs.length} Playwright spec(s) for suite ${suiteId}`);
+
+        if (req.query.format === 'json') {
+            return res.json({
+                suiteId,
+                name: suite.name,
+                config: playwrightConfig(connection.website_url),
+                specs
+            });
+        }
+
+        const archive = createZip([
+            { name: 'playwright.config.ts', content: playwrightConfig(connection.website_url) },
+            ...specs.map(spec => ({ name: `tests/${spec.fileName}`, content: spec.content }))
+        ]);
+
+        res.set('Content-Type', 'application/zip');
+        res.set('Content-Disposition', `attachment; filename="${slugify(suite.name) || 'suite'}-playwright.zip"`);
+        res.send(archive);
     } catch (error: any) {
-        console.error('Error fetching existing test plans:', error);
+        console.error('Error generating Playwright specs for suite:', error);
+        if (handleLlmConfigurationError(error, res)) {
+            return;
+        }
         res.status(500).json({
-            error: 'Failed to fetch existing test plans',
+            error: 'Failed to generate Playwright specs',
             details: error.message
         });
     }
@@ -1051,6 +2923,19 @@ app.post('/:resourceId/createIssue/:testCaseId', ensureCosmosInitialized, async
             });
         }
 
+        // Check If-Match before filing the issue; it lists one ETag per stored copy of the test case
+        const issueLinker = new TestCaseIssueLinker(cosmosService!);
+        const targets = await issueLinker.findTargets(resourceId, testCaseId);
+        const ifMatch = getIfMatch(req);
+        const expectedEtags = ifMatch ? parseETagList(ifMatch) : undefined;
+        if (issueLinker.findStale(targets, expectedEtags).length > 0) {
+            return res.status(412).json({
+                error: 'Precondition failed',
+                message: 'The test case was modified by someone else. Re-read it and retry with the current ETag of every suite it is in.',
+                testCaseId
+            });
+        }
+
         let githubIssue = null;
         let issueCreationStatus = 'Failed';
         let errorDetails = null;
@@ -1091,7 +2976,6 @@ app.post('/:resourceId/createIssue/:testCaseId', ensureCosmosInitialized, async
 - **Resource ID:** ${resourceId}
 - **ADO URL:** ${connection.ado_url}
 - **Website:** ${connection.website_url}
-- **Environment:** ${connection.prd}
 - **Created:** ${new Date().toISOString()}
 
 *This issue was automatically created from Azure DevOps Test Plans API*`,
@@ -1113,32 +2997,33 @@ app.post('/:resourceId/createIssue/:testCaseId', ensureCosmosInitialized, async
             // Don't return error here, we'll still update the test suite with failure info
         }
 
-        // Get existing suites for this resource
-        let suites = await cosmosService!.getTestSuites(resourceId);
-        
-        // Find the test case and update it with issue information
-        let issueUpdated = false;
         const issueId = githubIssue ? githubIssue.number.toString() : Math.random().toString(36).substr(2, 8);
-        
-        suites = suites.map((suite: TestSuite) => {
-            if (suite.testCaseId === testCaseId) {
-                suite.testCases = suite.testCases.map((testCase: TestCase) => ({
-                    ...testCase,
-                    issueId,
-                    status: issueCreationStatus,
-                    ...(githubIssue && {
-                        githubUrl: githubIssue.html_url,
-                        githubIssueNumber: githubIssue.number,
-                        githubIssueId: githubIssue.id
-                    }),
-                    ...(errorDetails && { errorDetails })
-                }));
-                issueUpdated = true;
-            }
-            return suite;
-        });
+        const issueUpdates: Partial<TestCase> = {
+            issueId,
+            status: issueCreationStatus,
+            ...(githubIssue && {
+                githubUrl: githubIssue.html_url,
+                githubIssueNumber: githubIssue.number,
+                githubIssueId: githubIssue.id
+            }),
+            ...(errorDetails && { errorDetails })
+        };
+
+        // Patch only the issue fields of the affected test cases instead of rewriting every suite
+        const { testCases, conflictSuiteId } = await issueLinker.link(resourceId, targets, issueUpdates, expectedEtags);
+        if (conflictSuiteId !== undefined) {
+            // The issue exists by now; return it so the client can link it instead of filing another one
+            return res.status(412).json({
+                error: 'Precondition failed',
+                message: 'The test case was modified while the GitHub issue was being created. The issue was not linked to it.',
+                testCaseId,
+                suiteId: conflictSuiteId,
+                ...(githubIssue && { githubIssue: { id: githubIssue.id, number: githubIssue.number, url: githubIssue.html_url } }),
+                testCases
+            });
+        }
 
-        if (!issueUpdated) {
+        if (testCases.length === 0) {
             // If test case not found, create a new suite entry
             const newSuite: TestSuite = {
                 resourceId,
@@ -1146,25 +3031,17 @@ app.post('/:resourceId/createIssue/:testCaseId', ensureCosmosInitialized, async
                 testCaseId,
                 testCases: [
                     {
+                        testCaseId,
                         name: title,
                         steps: [body],
-                        issueId,
-                        status: issueCreationStatus,
-                        ...(githubIssue && {
-                            githubUrl: githubIssue.html_url,
-                            githubIssueNumber: githubIssue.number,
-                            githubIssueId: githubIssue.id
-                        }),
-                        ...(errorDetails && { errorDetails })
+                        ...issueUpdates
                     }
                 ]
             };
-            suites.push(newSuite);
+            const [savedSuite] = await cosmosService!.saveTestSuites(resourceId, [newSuite]);
+            testCases.push(...(savedSuite.testCases as TestCaseDocument[]));
         }
 
-        // Update the stored suites in Cosmos DB
-        await cosmosService!.saveTestSuites(resourceId, suites);
-
         // Prepare response
         const response: any = {
             success: issueCreationStatus === 'Created',
@@ -1174,7 +3051,9 @@ app.post('/:resourceId/createIssue/:testCaseId', ensureCosmosInitialized, async
             testCaseId,
             resourceId,
             status: issueCreationStatus,
-            suites
+            // All suites of the resource, as before test cases were stored individually
+            suites: await cosmosService!.getTestSuites(resourceId),
+            testCases
         };
 
         if (githubIssue) {
@@ -1197,6 +3076,9 @@ app.post('/:resourceId/createIssue/:testCaseId', ensureCosmosInitialized, async
         res.status(statusCode).json(response);
 
     } catch (error: any) {
+        if (handleConcurrencyConflict(error, res)) {
+            return;
+        }
         console.error('Error in createIssue endpoint:', error);
         res.status(500).json({
             error: 'Failed to create GitHub issue',
@@ -1291,10 +3173,77 @@ app.get('/:resourceId/github/test', ensureCosmosInitialized, async (req: Request
     }
 });
 
+/**
+ * POST /:resourceId/github/sync
+ * Reconcile the state, assignees, labels and linked PRs of linked GitHub issues onto the test cases
+ */
+app.post('/:resourceId/github/sync', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+
+        if (!issueStateReconciler) {
+            return res.status(500).json({
+                error: 'GitHub integration not configured',
+                message: 'Set GITHUB_TOKEN to enable GitHub issue reconciliation'
+            });
+        }
+
+        const connection = await cosmosService!.getConnection(resourceId);
+        if (!connection) {
+            return res.status(404).json({
+                error: 'Connection not found',
+                message: `No connection found for resourceId: ${resourceId}. Please save connection first.`
+            });
+        }
+
+        if (!connection.github_url) {
+            return res.status(400).json({
+                error: 'GitHub URL not configured',
+                message: 'GitHub URL is required in the connection configuration'
+            });
+        }
+
+        const state = await issueStateReconciler.reconcile(connection);
+        res.json(state);
+    } catch (error: any) {
+        console.error('Error reconciling GitHub issues:', error);
+        res.status(500).json({
+            error: 'Failed to reconcile GitHub issues',
+            details: error.message
+        });
+    }
+});
+
+/**
+ * GET /:resourceId/github/sync
+ * Get the result and time of the last GitHub issue reconciliation
+ */
+app.get('/:resourceId/github/sync', ensureCosmosInitialized, async (req: Request, res: Response) => {
+    try {
+        const resourceId = decodeURIComponent(req.params.resourceId);
+        const state = await cosmosService!.getIssueSyncState(resourceId);
+
+        if (!state) {
+            return res.status(404).json({
+                error: 'GitHub issues not synced yet',
+                message: `GitHub issues have not been reconciled for resourceId: ${resourceId}`
+            });
+        }
+
+        res.json(state);
+    } catch (error: any) {
+        console.error('Error fetching GitHub issue sync state:', error);
+        res.status(500).json({
+            error: 'Failed to fetch GitHub issue sync state',
+            details: error.message
+        });
+    }
+});
+
 // POST /api/testplans/recommendations - Generate test plan recommendations based on PRD
 app.post('/api/testplans/recommendations', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const { prd, testPlanId } = req.body;
+        const { prd, testPlanId, resourceId } = req.body;
         
         // Validate required fields
         if (!prd) {
@@ -1303,6 +3252,21 @@ app.post('/api/testplans/recommendations', ensureClientInitialized, async (req:
                 error: 'PRD (Product Requirements Document) is required'
             });
         }
+
+        // With a resourceId the run is stored for review and earlier rejections are fed back to the model
+        if (resourceId !== undefined && (typeof resourceId !== 'string' || !resourceId)) {
+            return res.status(400).json({
+                success: false,
+                error: 'resourceId must be a non-empty string'
+            });
+        }
+        if (resourceId && !cosmosService) {
+            return res.status(500).json({
+                success: false,
+                error: 'Cosmos DB service not initialized',
+                message: 'Server is starting up, please try again in a moment'
+            });
+        }
         
         // Use testPlanId from request body or fallback to environment variable
         const planId = testPlanId || process.env.TEST_PLAN_ID;
@@ -1323,7 +3287,8 @@ app.post('/api/testplans/recommendations', ensureClientInitialized, async (req:
             
             // Get test cases from the test plan
             if (testPlanResponse && testPlanResponse.rootSuite?.id) {
-                const testCasesResponse = await adoClient!.getTestCaseList(planId, testPlanResponse.rootSuite.id);
+                // Titles and steps are all the prompt needs from each test case
+                const testCasesResponse = await adoClient!.getTestCaseList(planId, testPlanResponse.rootSuite.id, 'System.Title,Microsoft.VSTS.TCM.Steps');
                 existingTestPlans = testCasesResponse || [];
             }
             
@@ -1333,17 +3298,37 @@ app.post('/api/testplans/recommendations', ensureClientInitialized, async (req:
             // Continue with empty existing plans - this allows the API to work even if ADO fetch fails
         }
         
+        const runService = resourceId ? new RecommendationRunService(cosmosService!) : null;
+        const rejected = runService ? await runService.getRejected(resourceId, planId) : [];
+        
         // Initialize Azure OpenAI service
-        const openAIService = new AzureOpenAIService();
+        const provider = createLlmProvider();
+        const openAIService = new AzureOpenAIService(provider);
+
+        // Stored test cases of the plan already have cached embeddings; only new or changed ones are embedded
+        const existingEmbeddings = resourceId
+            ? async () => {
+                const { testCases, computed } = await new DuplicateDetectionService(cosmosService!, provider).getEmbeddedTestCases(resourceId);
+                return {
+                    testCases: testCases.filter(testCase => testCase.suiteIds.some(suiteId => suiteId.startsWith(`${planId}-`))),
+                    computed
+                };
+            }
+            : undefined;
         
         // Generate recommendations using Azure OpenAI
-        const recommendations = await openAIService.generateTestPlanRecommendations(
+        const { recommendations, dropped, attempts, sections, duplicates, duplicateCheck } = await openAIService.generateTestPlanRecommendations(
             prd,
             existingTestPlans,
-            planId
+            planId,
+            { rejected, existingEmbeddings }
         );
         
-        console.log(`Generated ${recommendations.length} test plan recommendations`);
+        console.log(`Generated ${recommendations.length} test plan recommendations (${dropped.length} dropped, ${attempts} attempt(s))`);
+
+        const run = runService
+            ? await runService.createRun(resourceId, planId, prd, openAIService.model, recommendations, dropped)
+            : null;
         
         res.json({
             success: true,
@@ -1352,25 +3337,40 @@ app.post('/api/testplans/recommendations', ensureClientInitialized, async (req:
                 prdLength: prd.length,
                 existingTestCasesCount: existingTestPlans.length,
                 recommendations,
+                ...(run && {
+                    runId: run.runId,
+                    // Ids to review the recommendations with, in the same order
+                    recommendationIds: run.recommendations.map(item => item.id),
+                    previouslyRejectedCount: rejected.length
+                }),
+                sections,
+                // Recommendations left out because they restate an existing test case
+                duplicates,
+                duplicateCheck,
+                validation: {
+                    attempts,
+                    droppedCount: dropped.length,
+                    dropped
+                },
                 generatedAt: new Date().toISOString()
             }
         });
         
     } catch (error: any) {
         console.error('Error generating test plan recommendations:', error);
+        if (handleLlmConfigurationError(error, res)) {
+            return;
+        }
         
         // Provide more specific error messages
         let errorMessage = 'Failed to generate test plan recommendations';
         let statusCode = 500;
         
-        if (error.message?.includes('Azure OpenAI configuration missing')) {
-            errorMessage = 'Azure OpenAI service is not properly configured';
-            statusCode = 503;
-        } else if (error.message?.includes('Failed to generate recommendations')) {
+        if (error.message?.includes('Failed to generate recommendations')) {
             errorMessage = error.message;
             statusCode = 502;
         } else if (error.message?.includes('Failed to parse recommendations')) {
-            errorMessage = 'Azure OpenAI returned invalid response format';
+            errorMessage = 'LLM returned invalid response format';
             statusCode = 502;
         }
         
@@ -1383,6 +3383,153 @@ app.post('/api/testplans/recommendations', ensureClientInitialized, async (req:
     }
 });
 
+/**
+ * POST /api/testplans/:planId/recommendations/apply
+ * Create ADO test cases for the selected recommendations and add them to a suite
+ * Body: { recommendations: TestPlanRecommendation[], suiteId?, createSuite?, parentSuiteId?, areaPath?, iterationPath? }
+ *    or: { resourceId, runId, recommendationIds?, ...same options } to apply reviewed recommendations of a stored run
+ *        (the accepted ones unless recommendationIds is given); they are marked applied with their ADO work item ids
+ * Without suiteId the test cases go to the plan's root suite; createSuite creates a static suite per recommendation.
+ */
+app.post('/api/testplans/:planId/recommendations/apply', ensureClientInitialized, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const planId = parseInt(req.params.planId);
+        const { resourceId, runId, recommendationIds, suiteId, createSuite, parentSuiteId, areaPath, iterationPath } = req.body;
+        let { recommendations } = req.body;
+
+        if (isNaN(planId)) {
+            return res.status(400).json({
+                error: 'Invalid plan ID',
+                message: 'Plan ID must be a number'
+            });
+        }
+
+        let runService: RecommendationRunService | null = null;
+        let runItemIds: string[] = [];
+        if (runId !== undefined) {
+            if (typeof resourceId !== 'string' || !resourceId || typeof runId !== 'string' || !runId) {
+                return res.status(400).json({
+                    error: 'Invalid run',
+                    message: 'resourceId and runId must be non-empty strings'
+                });
+            }
+            if (recommendationIds !== undefined && (!Array.isArray(recommendationIds) || recommendationIds.some((id: any) => typeof id !== 'string'))) {
+                return res.status(400).json({
+                    error: 'Invalid recommendationIds',
+                    message: 'recommendationIds must be an array of strings'
+                });
+            }
+            if (!cosmosService) {
+                return res.status(500).json({
+                    error: 'Cosmos DB service not initialized',
+                    message: 'Server is starting up, please try again in a moment'
+                });
+            }
+
+            runService = new RecommendationRunService(cosmosService);
+            const run = await runService.getRun(resourceId, runId);
+            if (!run) {
+                return res.status(404).json({
+                    error: 'Recommendation run not found',
+                    message: `No recommendation run ${runId} found for resourceId: ${resourceId}`
+                });
+            }
+            if (run.planId !== String(planId)) {
+                return res.status(400).json({
+                    error: 'Plan mismatch',
+                    message: `Recommendation run ${runId} was generated for test plan ${run.planId}`
+                });
+            }
+
+            let selected: ReviewedRecommendation[];
+            try {
+                selected = recommendationIds
+                    ? recommendationIds.map((id: string) => runService!.findRecommendation(run, id))
+                    : run.recommendations.filter(item => item.state === 'accepted');
+            } catch (error) {
+                if (error instanceof RecommendationReviewError) {
+                    return res.status(error.statusCode).json({
+                        error: 'Recommendation not found',
+                        message: error.message
+                    });
+                }
+                throw error;
+            }
+
+            const alreadyApplied = selected.filter(item => item.state === 'applied');
+            if (alreadyApplied.length > 0) {
+                return res.status(409).json({
+                    error: 'Already applied',
+                    message: `Recommendation(s) ${alreadyApplied.map(item => item.id).join(', ')} were already applied to ADO`
+                });
+            }
+
+            runItemIds = selected.map(item => item.id);
+            recommendations = selected.map(item => item.recommendation);
+            if (recommendations.length === 0) {
+                return res.status(400).json({
+                    error: 'No recommendations to apply',
+                    message: `Run ${runId} has no accepted recommendations; accept some or pass recommendationIds`
+                });
+            }
+        }
+
+        const invalid = !Array.isArray(recommendations) || recommendations.length === 0 || recommendations.some((recommendation: any) =>
+            typeof recommendation?.name !== 'string'
+            || !Array.isArray(recommendation.testCases)
+            || recommendation.testCases.some((testCase: any) => typeof testCase?.title !== 'string' || !Array.isArray(testCase.steps))
+        );
+        if (invalid) {
+            return res.status(400).json({
+                error: 'Invalid recommendations',
+                message: 'recommendations must be a non-empty array of recommendations with a name and testCases (title, steps)'
+            });
+        }
+
+        if ((suiteId !== undefined && isNaN(Number(suiteId))) || (parentSuiteId !== undefined && isNaN(Number(parentSuiteId)))) {
+            return res.status(400).json({
+                error: 'Invalid suite ID',
+                message: 'suiteId and parentSuiteId must be numbers'
+            });
+        }
+
+        const applier = new RecommendationApplier(adoClient!);
+        const results = await applier.apply(planId, recommendations, {
+            suiteId: suiteId !== undefined ? Number(suiteId) : undefined,
+            createSuite: createSuite === true,
+            parentSuiteId: parentSuiteId !== undefined ? Number(parentSuiteId) : undefined,
+            areaPath,
+            iterationPath
+        });
+
+        const workItemIds = results.map(result => result.testCases
+            .map(testCase => testCase.workItemId)
+            .filter((id): id is number => id !== undefined));
+        const createdWorkItemIds = workItemIds.flat();
+        const failed = results.filter(result => result.error || result.testCases.some(testCase => testCase.error)).length;
+
+        if (runService) {
+            // Results are in the order of the recommendations, so they line up with runItemIds
+            await runService.markApplied(resourceId, runId, runItemIds
+                .map((recommendationId, index) => ({ recommendationId, workItemIds: workItemIds[index], suiteId: results[index].suiteId }))
+                .filter(entry => entry.workItemIds.length > 0));
+        }
+
+        res.status(createdWorkItemIds.length > 0 ? 201 : 502).json({
+            success: failed === 0,
+            data: {
+                planId,
+                ...(runService && { runId, recommendationIds: runItemIds }),
+                createdWorkItemIds,
+                results
+            },
+            message: `${createdWorkItemIds.length} test case(s) created, ${failed} recommendation(s) with errors`
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
 // 404 handler for unknown routes (MUST BE LAST)
 app.use('*', (req: Request, res: Response) => {
     res.status(404).json({
@@ -1403,6 +3550,12 @@ async function startServer() {
         
         // Initialize Azure DevOps client
         await initializeADOClient();
+
+        // Start the background sync job engine
+        await initializeSyncJobService();
+
+        // Keep test cases in line with their GitHub issues
+        initializeIssueStateReconciler();
         
         // Start the server
         app.listen(PORT, () => {
@@ -1410,7 +3563,7 @@ async function startServer() {
             console.log(`📚 API Documentation: http://localhost:${PORT}`);
             console.log(`🔍 Health Check: http://localhost:${PORT}/health`);
             console.log(`📋 Test Plans: http://localhost:${PORT}/api/testplans`);
-            console.log(`💾 Cosmos DB: Connected and ready`);
+            console.log(`💾 Storage (${cosmosService!.backend}): Connected and ready`);
         });
     } catch (error) {
         console.error('Failed to start server:', error);
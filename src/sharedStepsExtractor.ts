@@ -0,0 +1,199 @@
+import { AzureDevOpsTestPlansClient, WorkItemStepsXml } from './AzureDevOpsTestPlansClient';
+import { TestStepNode, TestStepsDocument, flattenTestSteps, parseTestSteps, serializeTestSteps, stepKey } from './testStepsXml';
+
+export interface ExtractSharedStepsOptions {
+    /** Title of the new Shared Steps work item */
+    title: string;
+    testCaseIds: number[];
+    /** Sequence to extract; when omitted, the longest sequence all test cases have in common is used */
+    steps?: Array<{ action: string; expectedResult?: string }>;
+    /** Minimum length of a detected common sequence (default 2) */
+    minLength?: number;
+    /** Report what would change without creating or updating work items */
+    dryRun?: boolean;
+}
+
+export interface ExtractedTestCase {
+    testCaseId: number;
+    status: 'updated' | 'would-update' | 'sequence-not-found' | 'failed';
+    /** Ids of the steps replaced by the shared step reference */
+    replacedStepIds?: number[];
+    revision?: number;
+    error?: string;
+}
+
+export interface ExtractSharedStepsResult {
+    /** Not set on a dry run */
+    sharedStepsId?: number;
+    title: string;
+    steps: Array<{ action: string; expectedResult: string }>;
+    dryRun: boolean;
+    testCases: ExtractedTestCase[];
+}
+
+/**
+ * An extraction that can't be done (nothing in common, unknown test cases)
+ */
+export class SharedStepsExtractionError extends Error {
+    constructor(message: string, readonly statusCode: number) {
+        super(message);
+        this.name = 'SharedStepsExtractionError';
+    }
+}
+
+/**
+ * Moves a step sequence repeated in several test cases into one Shared Steps work item, and replaces
+ * the sequence in each test case with a reference to it. Steps are compared by their action and
+ * expected result text, ignoring case and whitespace.
+ */
+export class SharedStepsExtractor {
+    constructor(private client: AzureDevOpsTestPlansClient) {}
+
+    async extract(options: ExtractSharedStepsOptions): Promise<ExtractSharedStepsResult> {
+        const testCaseIds = [...new Set(options.testCaseIds)];
+        const loaded = await Promise.allSettled(testCaseIds.map(id => this.client.getStepsXml(id)));
+
+        const testCases: Array<{ source: WorkItemStepsXml; document: TestStepsDocument; nodes: TestStepNode[]; keys: string[] }> = [];
+        const failed: ExtractedTestCase[] = [];
+        loaded.forEach((result, index) => {
+            if (result.status === 'rejected') {
+                failed.push({ testCaseId: testCaseIds[index], status: 'failed', error: errorMessage(result.reason) });
+                return;
+            }
+            try {
+                // Steps nested in shared step references are written back after the reference
+                const document = parseTestSteps(result.value.stepsXml);
+                const nodes = flattenTestSteps(document.steps);
+                testCases.push({ source: result.value, document, nodes, keys: nodes.map(nodeKey) });
+            } catch (error) {
+                failed.push({ testCaseId: testCaseIds[index], status: 'failed', error: errorMessage(error) });
+            }
+        });
+
+        if (testCases.length === 0) {
+            throw new SharedStepsExtractionError(`None of the test cases could be read: ${failed.map(entry => `${entry.testCaseId} (${entry.error})`).join(', ')}`, 404);
+        }
+
+        const sequence = options.steps
+            ? options.steps.map(step => stepKey({ action: step.action, expectedResult: step.expectedResult || '' }))
+            : this.longestCommonSequence(testCases.map(testCase => testCase.keys), options.minLength ?? 2);
+        if (sequence.length === 0) {
+            throw new SharedStepsExtractionError(options.steps
+                ? 'steps must contain at least one step'
+                : `The test cases have no sequence of at least ${options.minLength ?? 2} steps in common`, 422);
+        }
+
+        // The shared steps are taken over from the first test case containing the sequence, keeping its formatting
+        const template = testCases.find(testCase => indexOfSequence(testCase.keys, sequence, 0) >= 0);
+        if (!template) {
+            throw new SharedStepsExtractionError('None of the test cases contains the given steps', 422);
+        }
+        const start = indexOfSequence(template.keys, sequence, 0);
+        // Renumbered from 2, as ADO numbers the steps of a new work item
+        const sharedNodes = template.nodes.slice(start, start + sequence.length)
+            .map((node, index): TestStepNode => ({ ...node, id: index + 2, ...(node.kind === 'step' && { attachments: [] }) }));
+        const steps = sharedNodes.map(node => node.kind === 'step'
+            ? { action: node.action.text, expectedResult: node.expectedResult.text }
+            : { action: `Shared steps ${node.sharedStepsId}`, expectedResult: '' });
+
+        const dryRun = !!options.dryRun;
+        let sharedStepsId: number | undefined;
+        if (!dryRun) {
+            const shared = await this.client.createSharedStepsFromXml(options.title, serializeTestSteps({ id: 0, last: sharedNodes.length + 1, steps: sharedNodes }), template.source.areaPath);
+            sharedStepsId = shared.id;
+        }
+
+        const results: ExtractedTestCase[] = [];
+        for (const testCase of testCases) {
+            const replaced = this.replaceSequence(testCase.document, testCase.nodes, testCase.keys, sequence, sharedStepsId ?? 0);
+            if (!replaced) {
+                results.push({ testCaseId: testCase.source.id, status: 'sequence-not-found' });
+                continue;
+            }
+            if (dryRun) {
+                results.push({ testCaseId: testCase.source.id, status: 'would-update', replacedStepIds: replaced.replacedStepIds });
+                continue;
+            }
+
+            try {
+                const workItem = await this.client.updateStepsXml(testCase.source.id, serializeTestSteps(replaced.document), testCase.source.revision);
+                results.push({ testCaseId: testCase.source.id, status: 'updated', replacedStepIds: replaced.replacedStepIds, revision: workItem.rev });
+            } catch (error) {
+                results.push({ testCaseId: testCase.source.id, status: 'failed', replacedStepIds: replaced.replacedStepIds, error: errorMessage(error) });
+            }
+        }
+
+        const updated = results.filter(result => result.status === 'updated').length;
+        console.log(`🧩 ${dryRun ? 'Dry run: would extract' : `Extracted shared steps ${sharedStepsId}:`} ${sequence.length} step(s) from ${dryRun ? results.filter(result => result.status === 'would-update').length : updated} of ${testCaseIds.length} test case(s)`);
+
+        return {
+            ...(sharedStepsId !== undefined && { sharedStepsId }),
+            title: options.title,
+            steps,
+            dryRun,
+            testCases: [...results, ...failed]
+        };
+    }
+
+    /**
+     * Longest run of consecutive steps that occurs in every test case
+     */
+    private longestCommonSequence(keyLists: string[][], minLength: number): string[] {
+        const shortest = [...keyLists].sort((a, b) => a.length - b.length)[0];
+        for (let length = shortest.length; length >= Math.max(1, minLength); length--) {
+            for (let start = 0; start + length <= shortest.length; start++) {
+                const candidate = shortest.slice(start, start + length);
+                if (keyLists.every(keys => indexOfSequence(keys, candidate, 0) >= 0)) {
+                    return candidate;
+                }
+            }
+        }
+        return [];
+    }
+
+    /**
+     * Replace every occurrence of the sequence with a reference to the shared steps, numbered after the last step id
+     */
+    private replaceSequence(document: TestStepsDocument, nodes: TestStepNode[], keys: string[], sequence: string[], sharedStepsId: number): { document: TestStepsDocument; replacedStepIds: number[] } | undefined {
+        let nextId = document.last + 1;
+        const result: TestStepNode[] = [];
+        const replacedStepIds: number[] = [];
+
+        let index = 0;
+        while (index < nodes.length) {
+            if (indexOfSequence(keys, sequence, index) === index) {
+                replacedStepIds.push(...nodes.slice(index, index + sequence.length).map(node => node.id));
+                result.push({ kind: 'sharedSteps', id: nextId++, sharedStepsId, steps: [] });
+                index += sequence.length;
+            } else {
+                result.push(nodes[index++]);
+            }
+        }
+
+        return replacedStepIds.length > 0
+            ? { document: { ...document, last: nextId - 1, steps: result }, replacedStepIds }
+            : undefined;
+    }
+}
+
+/**
+ * Shared step references only match references to the same shared steps
+ */
+function nodeKey(node: TestStepNode): string {
+    return node.kind === 'step'
+        ? stepKey({ action: node.action.text, expectedResult: node.expectedResult.text })
+        : `@shared:${node.sharedStepsId}`;
+}
+
+function indexOfSequence(keys: string[], sequence: string[], from: number): number {
+    for (let start = from; start + sequence.length <= keys.length; start++) {
+        if (sequence.every((key, offset) => keys[start + offset] === key)) {
+            return start;
+        }
+    }
+    return -1;
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,269 @@
+import { randomUUID } from 'crypto';
+import { AzureDevOpsTestPlansClient } from './AzureDevOpsTestPlansClient';
+import { CosmosService, SyncJob, SyncMode, SyncWatermark } from './cosmosService';
+import { DeltaSyncService } from './deltaSync';
+import { resolveAdoClient, transformPlanSuites } from './planIngestion';
+
+// A job interrupted by more restarts than this is marked failed instead of being resumed again
+const MAX_RESUMES = 3;
+
+/**
+ * Runs ADO -> storage plan ingestion in the background.
+ * Jobs are processed one at a time and persisted after every plan, so a restarted server can
+ * resume them from the last completed plan.
+ */
+export class SyncJobService {
+    private queue: Array<{ resourceId: string; jobId: string }> = [];
+    private processing: boolean = false;
+    private deltaSync: DeltaSyncService;
+
+    constructor(private storage: CosmosService, private defaultClient: AzureDevOpsTestPlansClient) {
+        this.deltaSync = new DeltaSyncService(storage);
+    }
+
+    /**
+     * Enqueue a sync for a resource. If one is already queued or running, that job is returned instead.
+     */
+    async enqueue(resourceId: string, mode: SyncMode = 'full'): Promise<{ job: SyncJob; created: boolean }> {
+        const activeJobs = [
+            ...await this.storage.getSyncJobs(resourceId, 'running'),
+            ...await this.storage.getSyncJobs(resourceId, 'queued')
+        ];
+        if (activeJobs.length > 0) {
+            console.log(`Sync already in progress for resourceId: ${resourceId} (job ${activeJobs[0].jobId})`);
+            return { job: activeJobs[0], created: false };
+        }
+
+        const job = await this.storage.saveSyncJob({
+            resourceId,
+            jobId: randomUUID(),
+            mode,
+            status: 'queued',
+            createdAt: new Date().toISOString(),
+            progress: {
+                plansTotal: 0,
+                plansProcessed: 0,
+                suitesProcessed: 0,
+                testCasesProcessed: 0,
+                completedPlanIds: [],
+                failures: []
+            }
+        });
+
+        console.log(`📥 Queued ${mode} sync job ${job.jobId} for resourceId: ${resourceId}`);
+        this.schedule(resourceId, job.jobId);
+        return { job, created: true };
+    }
+
+    async getJob(resourceId: string, jobId: string): Promise<SyncJob | null> {
+        return this.storage.getSyncJob(resourceId, jobId);
+    }
+
+    async listJobs(resourceId: string): Promise<SyncJob[]> {
+        return this.storage.getSyncJobs(resourceId);
+    }
+
+    /**
+     * Pick up jobs left behind by a previous process: queued jobs are re-queued, interrupted
+     * running jobs are resumed (or failed once they exceed MAX_RESUMES)
+     */
+    async recover(): Promise<void> {
+        const queuedJobs = await this.storage.getSyncJobs(undefined, 'queued');
+        const runningJobs = await this.storage.getSyncJobs(undefined, 'running');
+
+        for (const job of runningJobs) {
+            const resumeCount = (job.resumeCount || 0) + 1;
+
+            if (resumeCount > MAX_RESUMES) {
+                console.warn(`⚠️ Sync job ${job.jobId} was interrupted ${resumeCount} times, marking it failed`);
+                await this.storage.saveSyncJob({
+                    ...job,
+                    status: 'failed',
+                    error: 'Job was interrupted by a server restart too many times',
+                    completedAt: new Date().toISOString()
+                });
+                continue;
+            }
+
+            console.log(`🔁 Resuming interrupted sync job ${job.jobId} for resourceId: ${job.resourceId}`);
+            await this.storage.saveSyncJob({ ...job, status: 'queued', resumeCount });
+            this.schedule(job.resourceId, job.jobId);
+        }
+
+        // Oldest first, so jobs keep their original order
+        for (const job of queuedJobs.reverse()) {
+            this.schedule(job.resourceId, job.jobId);
+        }
+
+        if (queuedJobs.length + runningJobs.length > 0) {
+            console.log(`Recovered ${queuedJobs.length} queued and ${runningJobs.length} interrupted sync job(s)`);
+        }
+    }
+
+    private schedule(resourceId: string, jobId: string): void {
+        this.queue.push({ resourceId, jobId });
+        void this.processQueue();
+    }
+
+    private async processQueue(): Promise<void> {
+        if (this.processing) {
+            return;
+        }
+
+        this.processing = true;
+        try {
+            let next = this.queue.shift();
+            while (next) {
+                await this.runJob(next.resourceId, next.jobId);
+                next = this.queue.shift();
+            }
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    private async runJob(resourceId: string, jobId: string): Promise<void> {
+        let job = await this.storage.getSyncJob(resourceId, jobId);
+        if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+            return;
+        }
+
+        try {
+            const connection = await this.storage.getConnection(resourceId);
+            if (!connection) {
+                throw new Error(`No connection found for resourceId: ${resourceId}`);
+            }
+
+            job = await this.storage.saveSyncJob({
+                ...job,
+                status: 'running',
+                startedAt: job.startedAt || new Date().toISOString()
+            });
+
+            const client = await resolveAdoClient(connection.ado_url, this.defaultClient);
+
+            if (job.mode === 'delta') {
+                const watermark = await this.storage.getSyncWatermark(resourceId);
+                if (watermark) {
+                    await this.runDeltaJob(job, client, watermark);
+                    return;
+                }
+
+                console.log(`Sync job ${jobId}: no sync watermark for resourceId: ${resourceId}, running a full sync instead`);
+                job = await this.storage.saveSyncJob({ ...job, mode: 'full' });
+            }
+
+            console.log(`🔄 Sync job ${jobId}: fetching test plans for resourceId: ${resourceId}`);
+            const suiteRevisions: Record<string, number> = {};
+            const testPlans = await client.getAllTestPlans(true, true);
+            await this.storage.saveTestPlans(resourceId, testPlans);
+
+            job.progress.plansTotal = testPlans.length;
+            job = await this.storage.saveSyncJob(job);
+
+            for (const plan of testPlans) {
+                if (job.progress.completedPlanIds.includes(plan.id!)) {
+                    continue;
+                }
+
+                try {
+                    console.log(`🔄 Sync job ${jobId}: processing test plan ${plan.name} (ID: ${plan.id})`);
+                    const planWithSuitesAndTestCases = await client.getTestPlanWithSuitesAndTestCases(plan.id!);
+                    const suites = transformPlanSuites(resourceId, plan, planWithSuitesAndTestCases);
+                    await this.storage.saveTestSuites(resourceId, suites);
+
+                    for (const suite of planWithSuitesAndTestCases.suites) {
+                        if (suite.revision !== undefined) {
+                            suiteRevisions[`${plan.id}-${suite.id}`] = suite.revision;
+                        }
+                    }
+
+                    job.progress.suitesProcessed += suites.length;
+                    job.progress.testCasesProcessed += suites.reduce((total, suite) => total + suite.testCases.length, 0);
+                    job.progress.completedPlanIds.push(plan.id!);
+                } catch (error: any) {
+                    console.warn(`⚠️ Sync job ${jobId}: could not process test plan ${plan.name} (ID: ${plan.id}):`, error);
+                    job.progress.failures.push({
+                        planId: plan.id,
+                        planName: plan.name,
+                        message: error?.message || 'Unknown error',
+                        timestamp: new Date().toISOString()
+                    });
+                }
+
+                job.progress.plansProcessed++;
+                job = await this.storage.saveSyncJob(job);
+            }
+
+            const allPlansFailed = testPlans.length > 0 && job.progress.completedPlanIds.length === 0;
+            job = await this.storage.saveSyncJob({
+                ...job,
+                status: allPlansFailed ? 'failed' : 'completed',
+                error: allPlansFailed ? 'No test plans could be processed successfully' : undefined,
+                completedAt: new Date().toISOString(),
+                result: {
+                    plans: job.progress.completedPlanIds.length,
+                    suites: job.progress.suitesProcessed,
+                    testCases: job.progress.testCasesProcessed
+                }
+            });
+
+            // A clean full sync becomes the baseline for later delta syncs. Suites processed before a
+            // restart have no recorded revision, so a delta sync simply re-reads their membership.
+            if (job.progress.failures.length === 0) {
+                const existingWatermark = await this.storage.getSyncWatermark(resourceId);
+                await this.storage.saveSyncWatermark({
+                    resourceId,
+                    lastSyncedAt: job.startedAt!,
+                    planRevisions: Object.fromEntries(testPlans
+                        .filter(plan => plan.revision !== undefined)
+                        .map(plan => [String(plan.id), plan.revision!])),
+                    suiteRevisions,
+                    _etag: existingWatermark?._etag
+                });
+            }
+
+            console.log(`✅ Sync job ${jobId} ${job.status}: ${job.progress.suitesProcessed} suite(s), ${job.progress.testCasesProcessed} test case(s), ${job.progress.failures.length} failure(s)`);
+        } catch (error: any) {
+            console.error(`❌ Sync job ${jobId} failed:`, error);
+            try {
+                const latest = await this.storage.getSyncJob(resourceId, jobId);
+                await this.storage.saveSyncJob({
+                    ...(latest || job),
+                    status: 'failed',
+                    error: error?.message || 'Unknown error',
+                    completedAt: new Date().toISOString()
+                });
+            } catch (saveError) {
+                console.error(`Failed to record failure of sync job ${jobId}:`, saveError);
+            }
+        }
+    }
+
+    /**
+     * Run a delta sync. Delta syncs are idempotent, so an interrupted one is simply run again on resume.
+     */
+    private async runDeltaJob(job: SyncJob, client: AzureDevOpsTestPlansClient, watermark: SyncWatermark): Promise<void> {
+        console.log(`🔄 Sync job ${job.jobId}: running delta sync for resourceId: ${job.resourceId}`);
+
+        const summary = await this.deltaSync.sync(job.resourceId, client, watermark, async progress => {
+            job.progress.plansTotal = progress.plansTotal;
+            job.progress.plansProcessed = progress.plansProcessed;
+            job = await this.storage.saveSyncJob(job);
+        });
+
+        job = await this.storage.saveSyncJob({
+            ...job,
+            status: 'completed',
+            completedAt: new Date().toISOString(),
+            result: {
+                plans: job.progress.plansProcessed,
+                suites: summary.suitesAdded + summary.suitesUpdated + summary.suitesRemoved,
+                testCases: summary.testCasesAdded + summary.testCasesUpdated + summary.testCasesRemoved,
+                delta: summary
+            }
+        });
+
+        console.log(`✅ Sync job ${job.jobId} completed: ${summary.testCasesAdded} added, ${summary.testCasesUpdated} updated, ${summary.testCasesRemoved} removed test case(s)`);
+    }
+}
@@ -0,0 +1,210 @@
+import { decodeXmlEntities, escapeXmlAttribute, escapeXmlText } from './xmlEntities';
+
+/**
+ * Parameters of a data-driven test case: the @name placeholders used in its steps and one data row
+ * per iteration. Rows either live on the test case (LocalDataSource) or come from a shared parameter set.
+ */
+export interface TestCaseParameters {
+    names: string[];
+    rows: Array<Record<string, string>>;
+    /** Rows are read from this shared parameter set work item */
+    sharedParameterSetId?: number;
+    /** Test case parameter -> shared parameter set column, where the names differ */
+    parameterMap?: Record<string, string>;
+}
+
+/**
+ * A "Shared Parameter" work item: a data table several test cases can use
+ */
+export interface SharedParameterSet {
+    id: number;
+    name: string;
+    names: string[];
+    rows: Array<Record<string, string>>;
+    revision?: number;
+    /** Work item URL, used to link test cases to the set */
+    url: string;
+}
+
+// ADO parameter names: letters, digits and underscores, not starting with a digit
+const PARAMETER_NAME = /^[A-Za-z_]\w*$/;
+
+// @name in step text, but not the domain part of an e-mail address
+const PLACEHOLDER = /(?<![\w@])@([A-Za-z_]\w*)/g;
+
+/**
+ * Parameter names referenced as @name in step texts, in order of first use
+ */
+export function parameterPlaceholders(...texts: string[]): string[] {
+    const names = texts.flatMap(text => [...(text || '').matchAll(PLACEHOLDER)].map(match => match[1]));
+    return [...new Set(names)];
+}
+
+/**
+ * Replace the @name placeholders of the given parameters in a text; other @words are kept
+ */
+export function substituteParameters(text: string, names: string[], replacement: (name: string) => string): string {
+    return text.replace(PLACEHOLDER, (placeholder, name) => names.includes(name) ? replacement(name) : placeholder);
+}
+
+/**
+ * Whether a name is a valid ADO parameter name (and so also a valid identifier in generated code)
+ */
+export function isParameterName(name: string): boolean {
+    return PARAMETER_NAME.test(name);
+}
+
+/**
+ * Problems with parameter names and rows, empty when they can be saved to ADO
+ */
+export function validateParameters(names: string[], rows: Array<Record<string, string>> = []): string[] {
+    const problems: string[] = [];
+    const invalid = names.filter(name => !isParameterName(name));
+    if (invalid.length > 0) {
+        problems.push(`Invalid parameter name(s): ${invalid.join(', ')} (use letters, digits and underscores)`);
+    }
+    if (new Set(names.map(name => name.toLowerCase())).size !== names.length) {
+        problems.push('Parameter names must be unique (case-insensitive)');
+    }
+
+    rows.forEach((row, index) => {
+        if (!row || typeof row !== 'object' || Array.isArray(row)) {
+            problems.push(`Row ${index + 1} must be an object of parameter values`);
+            return;
+        }
+        const unknown = Object.keys(row).filter(key => !names.includes(key));
+        if (unknown.length > 0) {
+            problems.push(`Row ${index + 1} has value(s) for unknown parameter(s): ${unknown.join(', ')}`);
+        }
+    });
+
+    return problems;
+}
+
+/**
+ * Parameter names from Microsoft.VSTS.TCM.Parameters: <parameters><param name="user" bind="default"/></parameters>
+ */
+export function parseParametersXml(xml?: string): string[] {
+    if (!xml) {
+        return [];
+    }
+    return [...xml.matchAll(/<param\b[^>]*\sname="([^"]*)"/g)].map(match => decodeXmlEntities(match[1]));
+}
+
+export function buildParametersXml(names: string[]): string {
+    return `<parameters>${names.map(name => `<param name="${escapeXmlAttribute(name)}" bind="default"/>`).join('')}</parameters>`;
+}
+
+/**
+ * Read Microsoft.VSTS.TCM.LocalDataSource. It holds either the test case's own rows as a serialized
+ * DataSet (XML), or a JSON reference to shared parameter sets.
+ */
+export function parseLocalDataSource(value?: string): { rows: Array<Record<string, string>>; sharedParameterSetId?: number; parameterMap?: Record<string, string> } {
+    const text = (value || '').trim();
+    if (!text) {
+        return { rows: [] };
+    }
+
+    if (text.startsWith('{')) {
+        try {
+            const reference = JSON.parse(text);
+            const setId = Number(reference.sharedParameterDataSetIds?.[0]);
+            const parameterMap: Record<string, string> = {};
+            for (const entry of reference.parameterMap || []) {
+                if (entry?.paramName && entry.bind && entry.bind !== entry.paramName) {
+                    parameterMap[entry.paramName] = entry.bind;
+                }
+            }
+            return {
+                rows: [],
+                ...(!isNaN(setId) && { sharedParameterSetId: setId }),
+                ...(Object.keys(parameterMap).length > 0 && { parameterMap })
+            };
+        } catch (error) {
+            console.warn('Failed to parse shared parameter reference:', error);
+            return { rows: [] };
+        }
+    }
+
+    // Rows are the <Table1> elements after the inline schema; their children are the parameter values
+    const data = text.replace(/<xs:schema[\s\S]*?<\/xs:schema>/, '');
+    const rows = [...data.matchAll(/<Table1>([\s\S]*?)<\/Table1>/g)].map(match => {
+        const row: Record<string, string> = {};
+        for (const value of match[1].matchAll(/<(\w+)(?:\s*\/>|>([\s\S]*?)<\/\1>)/g)) {
+            row[value[1]] = decodeXmlEntities(value[2] || '');
+        }
+        return row;
+    });
+    return { rows };
+}
+
+/**
+ * Serialize rows as the DataSet XML ADO stores in LocalDataSource
+ */
+export function buildLocalDataSourceXml(names: string[], rows: Array<Record<string, string>>): string {
+    const columns = names.map(name => `<xs:element name="${name}" type="xs:string" minOccurs="0" />`).join('');
+    const schema = `<xs:schema id="NewDataSet" xmlns="" xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns:msdata="urn:schemas-microsoft-com:xml-msdata">`
+        + `<xs:element name="NewDataSet" msdata:IsDataSet="true" msdata:Locale=""><xs:complexType><xs:choice minOccurs="0" maxOccurs="unbounded">`
+        + `<xs:element name="Table1"><xs:complexType><xs:sequence>${columns}</xs:sequence></xs:complexType></xs:element>`
+        + `</xs:choice></xs:complexType></xs:element></xs:schema>`;
+    const data = rows
+        .map(row => `<Table1>${names.map(name => `<${name}>${escapeXmlText(row[name] ?? '')}</${name}>`).join('')}</Table1>`)
+        .join('');
+    return `<NewDataSet>${schema}${data}</NewDataSet>`;
+}
+
+/**
+ * LocalDataSource value that binds the test case parameters to a shared parameter set
+ */
+export function buildSharedParameterReference(sharedParameterSetId: number, names: string[], parameterMap: Record<string, string> = {}): string {
+    return JSON.stringify({
+        parameterMap: names.map(name => ({ paramName: name, bind: parameterMap[name] || name })),
+        sharedParameterDataSetIds: [sharedParameterSetId],
+        rowMappingType: 0
+    });
+}
+
+/**
+ * Parameter names and rows of a shared parameter set (its Microsoft.VSTS.TCM.Parameters field):
+ * <parameterSet><paramNames><param>user</param></paramNames><paramData lastId="1"><dataRow id="1"><kvp key="user" value="alice"/></dataRow></paramData></parameterSet>
+ */
+export function parseSharedParameterSetXml(xml?: string): { names: string[]; rows: Array<Record<string, string>> } {
+    if (!xml) {
+        return { names: [], rows: [] };
+    }
+
+    const names = [...(xml.match(/<paramNames>([\s\S]*?)<\/paramNames>/)?.[1] || '').matchAll(/<param>([\s\S]*?)<\/param>/g)]
+        .map(match => decodeXmlEntities(match[1]));
+    const rows = [...xml.matchAll(/<dataRow\b[^>]*>([\s\S]*?)<\/dataRow>/g)].map(match => {
+        const row: Record<string, string> = {};
+        for (const kvp of match[1].matchAll(/<kvp\b[^>]*>/g)) {
+            const key = kvp[0].match(/\skey="([^"]*)"/)?.[1];
+            if (key !== undefined) {
+                row[decodeXmlEntities(key)] = decodeXmlEntities(kvp[0].match(/\svalue="([^"]*)"/)?.[1] || '');
+            }
+        }
+        return row;
+    });
+    return { names, rows };
+}
+
+export function buildSharedParameterSetXml(names: string[], rows: Array<Record<string, string>>): string {
+    const paramNames = names.map(name => `<param>${escapeXmlText(name)}</param>`).join('');
+    const dataRows = rows
+        .map((row, index) => `<dataRow id="${index + 1}">${names.map(name => `<kvp key="${escapeXmlAttribute(name)}" value="${escapeXmlAttribute(row[name] ?? '')}"/>`).join('')}</dataRow>`)
+        .join('');
+    return `<parameterSet><paramNames>${paramNames}</paramNames><paramData lastId="${rows.length}">${dataRows}</paramData></parameterSet>`;
+}
+
+/**
+ * Rows of a shared parameter set under the test case's parameter names
+ */
+export function mapSharedRows(set: { rows: Array<Record<string, string>> }, names: string[], parameterMap: Record<string, string> = {}): Array<Record<string, string>> {
+    return set.rows.map(row => {
+        const mapped: Record<string, string> = {};
+        for (const name of names) {
+            mapped[name] = row[parameterMap[name] || name] ?? '';
+        }
+        return mapped;
+    });
+}
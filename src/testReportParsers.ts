@@ -0,0 +1,231 @@
+import { decodeXmlEntities } from './xmlEntities';
+
+export type TestReportFormat = 'playwright' | 'junit';
+
+export type TestResultOutcome = 'Passed' | 'Failed' | 'Skipped';
+
+/**
+ * A single test result extracted from a report, before it is matched to a stored test case
+ */
+export interface ParsedTestResult {
+    title: string;
+    fullTitle: string;
+    file?: string;
+    outcome: TestResultOutcome;
+    durationMs: number;
+    errorMessage?: string;
+    attachments: string[];
+    /** Test case ids declared through annotations (Playwright) or properties (JUnit) */
+    annotatedTestCaseIds: string[];
+    tags: string[];
+    /** Data row of a parameterized test case, from an Iteration annotation or property */
+    iteration?: number;
+}
+
+// Annotation / property names that carry an ADO test case id
+const TEST_CASE_ID_KEYS = /^(test[-_ ]?case[-_ ]?id|testcase|tc|ado)$/i;
+
+// Annotation / property name that carries the iteration (data row) number
+const ITERATION_KEY = /^iteration$/i;
+
+// Tags like @TC123, @tc-123 or @123 reference a test case id
+const TEST_CASE_TAG = /^@?(?:tc[-_]?)?(\d+)$/i;
+
+/**
+ * Detect the report format from the request content type or the payload itself
+ */
+export function detectReportFormat(contentType: string | undefined, body: any): TestReportFormat | undefined {
+    if (contentType && /xml/i.test(contentType)) {
+        return 'junit';
+    }
+    if (typeof body === 'string') {
+        const trimmed = body.trimStart();
+        if (trimmed.startsWith('<')) {
+            return 'junit';
+        }
+        return trimmed.startsWith('{') ? 'playwright' : undefined;
+    }
+    if (body && typeof body === 'object' && Array.isArray(body.suites)) {
+        return 'playwright';
+    }
+    return undefined;
+}
+
+/**
+ * Extract test case ids referenced by tags (e.g. "@TC123")
+ */
+export function testCaseIdsFromTags(tags: string[]): string[] {
+    return tags
+        .map(tag => tag.match(TEST_CASE_TAG)?.[1])
+        .filter((id): id is string => !!id);
+}
+
+/**
+ * Parse a report produced by Playwright's JSON reporter.
+ * The outcome comes from the test status, which already accounts for expected failures (test.fail())
+ * and for retries; the last attempt is only used for reports without one.
+ */
+export function parsePlaywrightReport(report: any): ParsedTestResult[] {
+    if (typeof report === 'string') {
+        report = JSON.parse(report);
+    }
+    if (!report || !Array.isArray(report.suites)) {
+        throw new Error('Invalid Playwright report: expected a "suites" array');
+    }
+
+    const results: ParsedTestResult[] = [];
+
+    const visitSuite = (suite: any, titlePath: string[]) => {
+        const suitePath = suite.title ? [...titlePath, suite.title] : titlePath;
+
+        for (const spec of suite.specs || []) {
+            for (const test of spec.tests || []) {
+                const attempts: any[] = test.results || [];
+                const lastAttempt = attempts[attempts.length - 1] || {};
+                const annotations: any[] = [...(spec.annotations || []), ...(test.annotations || [])];
+                const outcome = playwrightOutcome(test.status, lastAttempt.status);
+                const tags: string[] = [
+                    ...(spec.tags || []).map((tag: string) => tag.startsWith('@') ? tag : `@${tag}`),
+                    ...(spec.title.match(/@[\w-]+/g) || [])
+                ];
+
+                results.push({
+                    title: spec.title,
+                    fullTitle: [...suitePath, spec.title].join(' › '),
+                    file: spec.file,
+                    outcome,
+                    durationMs: lastAttempt.duration || 0,
+                    // An expected failure carries the error too, but isn't reported as one
+                    errorMessage: outcome === 'Failed' ? stripAnsi(lastAttempt.error?.message || lastAttempt.errors?.[0]?.message) : undefined,
+                    attachments: (lastAttempt.attachments || []).map((attachment: any) => attachment.name).filter(Boolean),
+                    annotatedTestCaseIds: annotations
+                        .filter(annotation => TEST_CASE_ID_KEYS.test(annotation.type || '') && annotation.description)
+                        .flatMap(annotation => splitIds(annotation.description)),
+                    tags: [...new Set(tags)],
+                    ...withIteration(annotations.find(annotation => ITERATION_KEY.test(annotation.type || ''))?.description)
+                });
+            }
+        }
+
+        for (const child of suite.suites || []) {
+            visitSuite(child, suitePath);
+        }
+    };
+
+    // Top-level suites are files; their titles are file paths and are left out of the title path
+    for (const fileSuite of report.suites) {
+        visitSuite({ ...fileSuite, title: '' }, []);
+    }
+
+    return results;
+}
+
+/**
+ * Parse a JUnit XML report (as produced by Playwright, Jest, pytest, Maven Surefire...).
+ * This is a simple regex based parser that covers the attributes and child elements test reporters emit.
+ */
+export function parseJUnitReport(xml: string): ParsedTestResult[] {
+    if (typeof xml !== 'string' || !/<testcase\b/.test(xml)) {
+        throw new Error('Invalid JUnit report: no <testcase> elements found');
+    }
+
+    const results: ParsedTestResult[] = [];
+    const testCaseMatches = xml.match(/<testcase\b[^>]*?(?:\/>|>[\s\S]*?<\/testcase>)/g) || [];
+
+    for (const testCaseXml of testCaseMatches) {
+        const openingTag = testCaseXml.match(/<testcase\b[^>]*>/)![0];
+        const name = decodeXmlEntities(readAttribute(openingTag, 'name') || 'Unnamed test');
+        const className = decodeXmlEntities(readAttribute(openingTag, 'classname') || '');
+        const time = parseFloat(readAttribute(openingTag, 'time') || '0');
+
+        const failure = testCaseXml.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+        const skipped = /<skipped\b/.test(testCaseXml);
+
+        const properties: Array<{ name: string; value: string }> = [];
+        for (const property of testCaseXml.match(/<property\b[^>]*>(?:[\s\S]*?<\/property>)?/g) || []) {
+            properties.push({
+                name: decodeXmlEntities(readAttribute(property, 'name') || ''),
+                value: decodeXmlEntities(readAttribute(property, 'value') || property.replace(/<[^>]*>/g, '').trim())
+            });
+        }
+
+        // Playwright's JUnit reporter lists attachments in system-out as [[ATTACHMENT|path]]
+        const attachments = [...testCaseXml.matchAll(/\[\[ATTACHMENT\|([^\]]+)\]\]/g)].map(match => match[1].trim());
+
+        const tags = [
+            ...(name.match(/@[\w-]+/g) || []),
+            ...properties.filter(property => property.name === 'tag').map(property => property.value)
+        ];
+
+        results.push({
+            title: name,
+            fullTitle: className ? `${className} › ${name}` : name,
+            file: readAttribute(openingTag, 'file') || undefined,
+            outcome: failure ? 'Failed' : skipped ? 'Skipped' : 'Passed',
+            durationMs: Math.round((isNaN(time) ? 0 : time) * 1000),
+            errorMessage: failure
+                ? decodeXmlEntities(readAttribute(failure[2], 'message') || stripCData(failure[3] || '').trim().split('\n')[0]) || undefined
+                : undefined,
+            attachments,
+            annotatedTestCaseIds: properties
+                .filter(property => TEST_CASE_ID_KEYS.test(property.name) && property.value)
+                .flatMap(property => splitIds(property.value)),
+            tags: [...new Set(tags)],
+            ...withIteration(properties.find(property => ITERATION_KEY.test(property.name))?.value)
+        });
+    }
+
+    return results;
+}
+
+/**
+ * Map Playwright's test status ('expected', 'unexpected', 'flaky', 'skipped'), falling back to the status
+ * of the last attempt ('passed', 'failed', 'timedOut', 'interrupted', 'skipped')
+ */
+function playwrightOutcome(testStatus?: string, attemptStatus?: string): TestResultOutcome {
+    switch (testStatus) {
+        case 'expected':
+            return 'Passed';
+        case 'flaky':
+            // Failed at first but passed on a retry
+            return 'Passed';
+        case 'unexpected':
+            return 'Failed';
+        case 'skipped':
+            return 'Skipped';
+        default:
+            return toOutcome(attemptStatus);
+    }
+}
+
+function toOutcome(status?: string): TestResultOutcome {
+    switch (status) {
+        case 'passed':
+            return 'Passed';
+        case 'skipped':
+            return 'Skipped';
+        default:
+            return 'Failed';
+    }
+}
+
+function withIteration(value?: string): { iteration?: number } {
+    const iteration = parseInt(value || '', 10);
+    return iteration > 0 ? { iteration } : {};
+}
+
+function splitIds(value: string): string[] {
+    return String(value).split(/[\s,;]+/).map(id => id.replace(/^#/, '')).filter(id => /^\d+$/.test(id));
+}
+
+function readAttribute(tag: string, attribute: string): string | undefined {
+    return tag.match(new RegExp(`\\s${attribute}="([^"]*)"`))?.[1];
+}
+
+function stripCData(text: string): string {
+    return text.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+}
+
+function stripAnsi(text?: string): string | undefined {
+    return text?.replace(/\u001b\[[0-9;]*m/g, '');
+}
@@ -0,0 +1,227 @@
+import { randomUUID } from 'crypto';
+import { AzureDevOpsTestPlansClient, TestPointOutcome, TestRunOutcome } from './AzureDevOpsTestPlansClient';
+import { CosmosService, TestCaseDocument, TestResultMatchKind, TestResultReport } from './cosmosService';
+import {
+    ParsedTestResult,
+    TestReportFormat,
+    TestResultOutcome,
+    parseJUnitReport,
+    parsePlaywrightReport,
+    testCaseIdsFromTags
+} from './testReportParsers';
+
+export interface TestResultIngestionOptions {
+    /** Also publish matched results to ADO as one completed test run per plan */
+    adoClient?: AzureDevOpsTestPlansClient;
+    runName?: string;
+}
+
+type MatchedResult = TestResultReport['matched'][number];
+
+// When several results map to the same test case, the most severe outcome is kept
+const OUTCOME_SEVERITY: Record<TestResultOutcome, number> = { Skipped: 0, Passed: 1, Failed: 2 };
+
+const ADO_OUTCOMES: Record<TestResultOutcome, TestRunOutcome> = {
+    Passed: 'Passed',
+    Failed: 'Failed',
+    Skipped: 'NotApplicable'
+};
+
+/**
+ * Ingests automated test reports: parses them, maps each result onto stored test cases
+ * (by test case id annotation, then @tag, then title) and records the outcome on the test case.
+ */
+export class TestResultIngestionService {
+    constructor(private storage: CosmosService) {}
+
+    async ingest(resourceId: string, format: TestReportFormat, payload: any, options: TestResultIngestionOptions = {}): Promise<TestResultReport> {
+        const results = format === 'junit' ? parseJUnitReport(payload) : parsePlaywrightReport(payload);
+        console.log(`📥 Ingesting ${format} report with ${results.length} result(s) for resourceId: ${resourceId}`);
+
+        const testCases = await this.storage.getTestCases(resourceId);
+        const byId = this.groupBy(testCases, testCase => String(testCase.testCaseId));
+        const byTitle = this.groupBy(testCases, testCase => this.normalizeTitle(testCase.name));
+
+        const reportId = randomUUID();
+        const receivedAt = new Date().toISOString();
+        const matchedByDocument = new Map<string, MatchedResult>();
+        const documents = new Map<string, TestCaseDocument>();
+        const unmatched: TestResultReport['unmatched'] = [];
+
+        for (const result of results) {
+            const match = this.findTestCases(result, byId, byTitle);
+            if (!match) {
+                unmatched.push({ title: result.fullTitle, outcome: result.outcome, errorMessage: result.errorMessage });
+                continue;
+            }
+
+            for (const testCase of match.testCases) {
+                const key = `${testCase.suiteId}_${testCase.testCaseId}`;
+                const previous = matchedByDocument.get(key);
+
+                // Every data row of a parameterized test case is kept as an iteration
+                const iterations = result.iteration !== undefined
+                    ? [...(previous?.iterations || []), {
+                        iteration: result.iteration,
+                        outcome: result.outcome,
+                        durationMs: result.durationMs,
+                        ...(result.errorMessage && { errorMessage: result.errorMessage })
+                    }]
+                    : previous?.iterations;
+
+                if (previous && OUTCOME_SEVERITY[previous.outcome] >= OUTCOME_SEVERITY[result.outcome]) {
+                    if (iterations) {
+                        previous.iterations = iterations;
+                    }
+                    continue;
+                }
+
+                documents.set(key, testCase);
+                matchedByDocument.set(key, {
+                    testCaseId: testCase.testCaseId,
+                    suiteId: testCase.suiteId,
+                    title: result.fullTitle,
+                    outcome: result.outcome,
+                    durationMs: result.durationMs,
+                    errorMessage: result.errorMessage,
+                    attachments: result.attachments,
+                    matchedBy: match.matchedBy,
+                    ...(iterations && { iterations })
+                });
+            }
+        }
+
+        const matched = [...matchedByDocument.values()];
+        matched.forEach(entry => entry.iterations?.sort((a, b) => a.iteration - b.iteration));
+        for (const [key, entry] of matchedByDocument.entries()) {
+            // Skipped results leave the failure streak untouched
+            const previousFailures = documents.get(key)!.consecutiveFailures || 0;
+            const consecutiveFailures = entry.outcome === 'Failed' ? previousFailures + 1 : entry.outcome === 'Passed' ? 0 : undefined;
+
+            await this.storage.patchTestCase(resourceId, entry.suiteId, entry.testCaseId, {
+                ...(consecutiveFailures !== undefined && { consecutiveFailures }),
+                lastResult: {
+                    reportId,
+                    format,
+                    title: entry.title,
+                    outcome: entry.outcome,
+                    durationMs: entry.durationMs,
+                    errorMessage: entry.errorMessage,
+                    attachments: entry.attachments,
+                    recordedAt: receivedAt,
+                    ...(entry.iterations && { iterations: entry.iterations })
+                }
+            });
+        }
+
+        let report: TestResultReport = {
+            resourceId,
+            reportId,
+            format,
+            receivedAt,
+            summary: {
+                total: results.length,
+                passed: results.filter(result => result.outcome === 'Passed').length,
+                failed: results.filter(result => result.outcome === 'Failed').length,
+                skipped: results.filter(result => result.outcome === 'Skipped').length,
+                matched: results.length - unmatched.length,
+                unmatched: unmatched.length
+            },
+            matched,
+            unmatched
+        };
+
+        if (options.adoClient && matched.length > 0) {
+            try {
+                report.adoRunIds = await this.publishToAdo(options.adoClient, matched, options.runName || `Automated results ${receivedAt}`);
+            } catch (error: any) {
+                console.warn(`⚠️ Could not publish report ${reportId} to ADO:`, error);
+                report.adoError = error?.message || 'Unknown error';
+            }
+        }
+
+        report = await this.storage.saveTestResultReport(report);
+        console.log(`✅ Report ${reportId}: ${report.summary.matched} matched, ${report.summary.unmatched} unmatched result(s)`);
+        return report;
+    }
+
+    /**
+     * Create, fill and complete one ADO test run per plan. Every test point (configuration)
+     * of a matched test case gets the result.
+     */
+    private async publishToAdo(client: AzureDevOpsTestPlansClient, matched: MatchedResult[], runName: string): Promise<number[]> {
+        const byPlan = this.groupBy(matched.filter(entry => /^\d+-\d+$/.test(entry.suiteId)), entry => entry.suiteId.split('-')[0]);
+        const runIds: number[] = [];
+
+        for (const [planId, entries] of byPlan.entries()) {
+            const outcomes: TestPointOutcome[] = [];
+
+            for (const [suiteId, suiteEntries] of this.groupBy(entries, entry => entry.suiteId.split('-')[1]).entries()) {
+                const points = await client.getTestPoints(Number(planId), Number(suiteId));
+
+                for (const entry of suiteEntries) {
+                    for (const point of points.filter(point => String(point.testCaseId) === entry.testCaseId)) {
+                        outcomes.push({
+                            pointId: point.id,
+                            outcome: ADO_OUTCOMES[entry.outcome],
+                            errorMessage: entry.errorMessage,
+                            durationInMs: entry.durationMs,
+                            comment: entry.attachments.length > 0 ? `Attachments: ${entry.attachments.join(', ')}` : undefined,
+                            ...(entry.iterations && {
+                                iterations: entry.iterations.map(iteration => ({
+                                    iteration: iteration.iteration,
+                                    outcome: ADO_OUTCOMES[iteration.outcome],
+                                    errorMessage: iteration.errorMessage,
+                                    durationInMs: iteration.durationMs
+                                }))
+                            })
+                        });
+                    }
+                }
+            }
+
+            if (outcomes.length === 0) {
+                continue;
+            }
+
+            const testRun = await client.createTestRun(Number(planId), runName, outcomes.map(outcome => outcome.pointId), { automated: true });
+            await client.recordTestRunOutcomes(testRun.id, outcomes);
+            await client.completeTestRun(testRun.id);
+            runIds.push(testRun.id);
+        }
+
+        return runIds;
+    }
+
+    private findTestCases(
+        result: ParsedTestResult,
+        byId: Map<string, TestCaseDocument[]>,
+        byTitle: Map<string, TestCaseDocument[]>
+    ): { testCases: TestCaseDocument[]; matchedBy: TestResultMatchKind } | undefined {
+        const candidates: Array<[TestResultMatchKind, TestCaseDocument[]]> = [
+            ['annotation', result.annotatedTestCaseIds.flatMap(id => byId.get(id) || [])],
+            ['tag', testCaseIdsFromTags(result.tags).flatMap(id => byId.get(id) || [])],
+            // Iterations of a data-driven test are titled "<test case title> [n]"
+            ['title', byTitle.get(this.normalizeTitle(result.iteration !== undefined ? result.title.replace(/\s*\[\d+\]$/, '') : result.title)) || []]
+        ];
+
+        const match = candidates.find(([, testCases]) => testCases.length > 0);
+        return match ? { matchedBy: match[0], testCases: match[1] } : undefined;
+    }
+
+    /**
+     * Titles are compared without @tags, case and extra whitespace
+     */
+    private normalizeTitle(title: string): string {
+        return title.replace(/@[\w-]+/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+    }
+
+    private groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+        const grouped = new Map<string, T[]>();
+        for (const item of items) {
+            const key = keyOf(item);
+            grouped.set(key, [...(grouped.get(key) || []), item]);
+        }
+        return grouped;
+    }
+}
@@ -0,0 +1,358 @@
+import { parameterPlaceholders } from './testParameters';
+import { decodeXmlEntities, escapeXmlAttribute, escapeXmlText } from './xmlEntities';
+
+/**
+ * ADO marks steps with an expected result as ValidateStep; steps without one are ActionStep
+ */
+export type TestStepType = 'ActionStep' | 'ValidateStep';
+
+/**
+ * Action or expected result of a step. ADO stores it as (XML-escaped) HTML when formatted.
+ */
+export interface TestStepText {
+    /** HTML with scripts, event handlers and javascript: links removed */
+    html: string;
+    /** Text for display and comparison: tags removed, entities decoded, paragraphs and <br> as new lines */
+    text: string;
+    /** isformatted="true": html is HTML rather than plain text */
+    formatted: boolean;
+}
+
+/**
+ * File attached to a step (an AttachedFile relation of the work item with a "[TestStep=<id>]:" comment)
+ */
+export interface TestStepAttachment {
+    name: string;
+    url: string;
+    comment?: string;
+}
+
+export interface TestStep {
+    kind: 'step';
+    id: number;
+    type: TestStepType;
+    action: TestStepText;
+    expectedResult: TestStepText;
+    /** Content of <description>; undefined when the element is missing */
+    description?: string;
+    /** @name parameters used in the action and expected result */
+    parameters: string[];
+    attachments: TestStepAttachment[];
+    /** Attributes and child elements this model doesn't know, written back unchanged */
+    extraAttributes?: Array<[string, string]>;
+    extraXml?: string[];
+}
+
+/**
+ * Reference to a Shared Steps work item (<compref>). ADO writes the steps that follow a reference inside
+ * its element; they are kept in steps, so the XML is written back the same way.
+ */
+export interface SharedStepReference {
+    kind: 'sharedSteps';
+    id: number;
+    sharedStepsId: number;
+    steps: TestStepNode[];
+    extraAttributes?: Array<[string, string]>;
+}
+
+export type TestStepNode = TestStep | SharedStepReference;
+
+/**
+ * A Microsoft.VSTS.TCM.Steps value: <steps id="0" last="N">...</steps>
+ */
+export interface TestStepsDocument {
+    id: number;
+    /** Highest step id handed out so far; new steps get ids above it */
+    last: number;
+    steps: TestStepNode[];
+}
+
+/**
+ * Parse steps XML into the step model. serializeTestSteps writes it back: for XML as ADO stores it the
+ * result is identical, apart from markup removed from the HTML by sanitizeStepHtml.
+ */
+export function parseTestSteps(xml?: string): TestStepsDocument {
+    if (!xml || !xml.trim()) {
+        return { id: 0, last: 0, steps: [] };
+    }
+
+    const root = parseXml(xml);
+    if (root.name !== 'steps') {
+        throw new Error(`Steps XML must have a <steps> root element, found <${root.name}>`);
+    }
+
+    const steps = toNodes(root.children);
+    const maxId = flattenTestSteps(steps).reduce((max, node) => Math.max(max, node.id), 0);
+    return {
+        id: toNumber(attribute(root, 'id'), 0),
+        last: Math.max(toNumber(attribute(root, 'last'), 0), maxId),
+        steps
+    };
+}
+
+/**
+ * Write the step model as steps XML. A document without steps that never had any (parsed from an
+ * empty field) is written as an empty field again.
+ */
+export function serializeTestSteps(document: TestStepsDocument): string {
+    if (document.steps.length === 0 && document.last === 0) {
+        return '';
+    }
+
+    const maxId = flattenTestSteps(document.steps).reduce((max, node) => Math.max(max, node.id), 0);
+    return writeXml({
+        name: 'steps',
+        attributes: [['id', String(document.id)], ['last', String(Math.max(document.last, maxId))]],
+        children: document.steps.map(fromNode),
+        selfClosing: false
+    });
+}
+
+/**
+ * Steps and shared step references in execution order, with the steps nested in references listed after them
+ */
+export function flattenTestSteps(nodes: TestStepNode[]): TestStepNode[] {
+    return nodes.flatMap(node => node.kind === 'step' ? [node] : [{ ...node, steps: [] }, ...flattenTestSteps(node.steps)]);
+}
+
+/**
+ * A step from plain text; a step with an expected result is a ValidateStep, as in the ADO editor
+ */
+export function createTestStep(id: number, action: string, expectedResult: string = ''): TestStep {
+    const toText = (text: string): TestStepText => ({
+        html: escapeXmlText(text.trim()).replace(/\r?\n/g, '<BR/>'),
+        text: text.trim(),
+        formatted: true
+    });
+
+    return {
+        kind: 'step',
+        id,
+        type: expectedResult.trim() ? 'ValidateStep' : 'ActionStep',
+        action: toText(action),
+        expectedResult: toText(expectedResult),
+        description: '',
+        parameters: parameterPlaceholders(action, expectedResult),
+        attachments: []
+    };
+}
+
+/**
+ * Add the step attachments among the work item relations to the steps they belong to
+ */
+export function applyStepAttachments(nodes: TestStepNode[], relations: Array<{ rel?: string; url?: string; attributes?: any }> = []): void {
+    const byStep = new Map<number, TestStepAttachment[]>();
+    for (const relation of relations) {
+        const stepId = String(relation.attributes?.comment || '').match(/^\[TestStep=(\d+)\]:?\s*([\s\S]*)$/);
+        if (relation.rel !== 'AttachedFile' || !stepId || !relation.url) {
+            continue;
+        }
+        const attachment: TestStepAttachment = {
+            name: relation.attributes?.name || relation.url.split('/').pop() || '',
+            url: relation.url,
+            ...(stepId[2].trim() && { comment: stepId[2].trim() })
+        };
+        byStep.set(Number(stepId[1]), [...(byStep.get(Number(stepId[1])) || []), attachment]);
+    }
+
+    // Steps nested in shared step references are the same objects in the flattened list
+    for (const node of flattenTestSteps(nodes)) {
+        if (node.kind === 'step') {
+            node.attachments = byStep.get(node.id) || [];
+        }
+    }
+}
+
+/**
+ * Key two steps are compared by when looking for the same sequence in several test cases
+ */
+export function stepKey(step: { action: string; expectedResult: string }): string {
+    const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+    return `${normalize(step.action)}|${normalize(step.expectedResult)}`;
+}
+
+/**
+ * Remove markup that could run code when step HTML is displayed: script-like elements, event handler
+ * attributes and javascript: links. Everything else (formatting, images, links) is kept.
+ */
+export function sanitizeStepHtml(html: string): string {
+    return html
+        .replace(/<(script|style|iframe|object|embed)\b[\s\S]*?<\/\1\s*>/gi, '')
+        .replace(/<\/?(script|style|iframe|object|embed)\b[^>]*>/gi, '')
+        .replace(/\s+on\w+\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, '')
+        .replace(/\s+(href|src)\s*=\s*("\s*javascript:[^"]*"|'\s*javascript:[^']*'|javascript:[^\s>]+)/gi, '');
+}
+
+/**
+ * Plain text of step HTML
+ */
+export function stepHtmlToText(html: string): string {
+    return decodeXmlEntities(html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|li|tr|h[1-6])\s*>/gi, '\n')
+        .replace(/<[^>]*>/g, '')
+        .replace(/&nbsp;/gi, ' '))
+        .replace(/\u00a0/g, ' ')
+        .split('\n')
+        .map(line => line.replace(/[ \t]+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n');
+}
+
+function toNodes(children: XmlNode[]): TestStepNode[] {
+    return children
+        .filter((child): child is XmlElement => typeof child !== 'string')
+        .filter(element => element.name === 'step' || element.name === 'compref')
+        .map((element): TestStepNode => {
+            if (element.name === 'compref') {
+                return {
+                    kind: 'sharedSteps',
+                    id: toNumber(attribute(element, 'id'), 0),
+                    sharedStepsId: toNumber(attribute(element, 'ref'), 0),
+                    steps: toNodes(element.children),
+                    ...extraAttributes(element, ['id', 'ref'])
+                };
+            }
+
+            const elements = element.children.filter((child): child is XmlElement => typeof child !== 'string');
+            const strings = elements.filter(child => child.name === 'parameterizedString');
+            const description = elements.find(child => child.name === 'description');
+            const unknown = elements.filter(child => child !== strings[0] && child !== strings[1] && child !== description);
+            const action = toStepText(strings[0]);
+            const expectedResult = toStepText(strings[1]);
+
+            return {
+                kind: 'step',
+                id: toNumber(attribute(element, 'id'), 0),
+                type: attribute(element, 'type') === 'ValidateStep' ? 'ValidateStep' : 'ActionStep',
+                action,
+                expectedResult,
+                ...(description && { description: textContent(description) }),
+                parameters: parameterPlaceholders(action.text, expectedResult.text),
+                attachments: [],
+                ...extraAttributes(element, ['id', 'type']),
+                ...(unknown.length > 0 && { extraXml: unknown.map(writeXml) })
+            };
+        });
+}
+
+function fromNode(node: TestStepNode): XmlElement {
+    if (node.kind === 'sharedSteps') {
+        return {
+            name: 'compref',
+            attributes: [['id', String(node.id)], ['ref', String(node.sharedStepsId)], ...(node.extraAttributes || [])],
+            children: node.steps.map(fromNode),
+            selfClosing: node.steps.length === 0
+        };
+    }
+
+    const parameterizedString = (text: TestStepText): XmlElement => ({
+        name: 'parameterizedString',
+        attributes: text.formatted ? [['isformatted', 'true']] : [],
+        children: text.html ? [text.html] : [],
+        selfClosing: !text.html
+    });
+
+    return {
+        name: 'step',
+        attributes: [['id', String(node.id)], ['type', node.type], ...(node.extraAttributes || [])],
+        children: [
+            parameterizedString(node.action),
+            parameterizedString(node.expectedResult),
+            ...(node.description !== undefined ? [{ name: 'description', attributes: [], children: node.description ? [node.description] : [], selfClosing: !node.description }] : []),
+            ...(node.extraXml || []).map(xml => parseXml(xml))
+        ],
+        selfClosing: false
+    };
+}
+
+function toStepText(element?: XmlElement): TestStepText {
+    const formatted = attribute(element, 'isformatted') === 'true';
+    const content = element ? textContent(element) : '';
+    const html = formatted ? sanitizeStepHtml(content) : content;
+    return { html, text: formatted ? stepHtmlToText(html) : content.trim(), formatted };
+}
+
+function extraAttributes(element: XmlElement, known: string[]): { extraAttributes?: Array<[string, string]> } {
+    const extra = element.attributes.filter(([name]) => !known.includes(name));
+    return extra.length > 0 ? { extraAttributes: extra } : {};
+}
+
+function toNumber(value: string | undefined, fallback: number): number {
+    const parsed = parseInt(value || '', 10);
+    return isNaN(parsed) ? fallback : parsed;
+}
+
+// Minimal XML tree: enough for steps XML (elements, attributes in order, text); no CDATA or namespaces
+
+type XmlNode = XmlElement | string;
+
+interface XmlElement {
+    name: string;
+    attributes: Array<[string, string]>;
+    children: XmlNode[];
+    selfClosing: boolean;
+}
+
+const XML_TOKEN = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<\/([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|[^<]+/g;
+
+function parseXml(xml: string): XmlElement {
+    const root: XmlElement = { name: '', attributes: [], children: [], selfClosing: false };
+    const open: XmlElement[] = [root];
+
+    for (const token of xml.matchAll(XML_TOKEN)) {
+        const [text, closingName, name, attributes, selfClosing] = token;
+        const parent = open[open.length - 1];
+
+        if (closingName) {
+            if (parent.name !== closingName) {
+                throw new Error(`Malformed steps XML: </${closingName}> does not close <${parent.name || '(none)'}>`);
+            }
+            open.pop();
+        } else if (name) {
+            const element: XmlElement = {
+                name,
+                attributes: [...(attributes || '').matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)]
+                    .map(match => [match[1], decodeXmlEntities(match[2] ?? match[3])] as [string, string]),
+                children: [],
+                selfClosing: !!selfClosing
+            };
+            parent.children.push(element);
+            if (!selfClosing) {
+                open.push(element);
+            }
+        } else if (!text.startsWith('<') && text.trim()) {
+            // Whitespace between elements is formatting, not content
+            parent.children.push(decodeXmlEntities(text));
+        } else if (text.startsWith('<') && !text.startsWith('<!--') && !text.startsWith('<?')) {
+            throw new Error(`Malformed steps XML near "${text.slice(0, 40)}"`);
+        }
+    }
+
+    if (open.length > 1) {
+        throw new Error(`Malformed steps XML: <${open[open.length - 1].name}> is not closed`);
+    }
+    const elements = root.children.filter((child): child is XmlElement => typeof child !== 'string');
+    if (elements.length !== 1) {
+        throw new Error('Steps XML must have a single root element');
+    }
+    return elements[0];
+}
+
+function writeXml(element: XmlElement): string {
+    const attributes = element.attributes.map(([name, value]) => ` ${name}="${escapeXmlAttribute(value)}"`).join('');
+    if (element.selfClosing && element.children.length === 0) {
+        return `<${element.name}${attributes}/>`;
+    }
+    const children = element.children.map(child => typeof child === 'string' ? escapeXmlText(child) : writeXml(child)).join('');
+    return `<${element.name}${attributes}>${children}</${element.name}>`;
+}
+
+function attribute(element: XmlElement | undefined, name: string): string | undefined {
+    return element?.attributes.find(([attributeName]) => attributeName === name)?.[1];
+}
+
+function textContent(element: XmlElement): string {
+    return element.children.map(child => typeof child === 'string' ? child : writeXml(child)).join('');
+}
+
@@ -0,0 +1,278 @@
+import { CosmosService, TestCaseDocument } from './cosmosService';
+import { DuplicateDetectionService } from './duplicateDetection';
+import { LlmProvider, cosineSimilarity, embedInBatches } from './llmProvider';
+import { PrdRequirement, parsePrdRequirements } from './prdChunking';
+
+export type RequirementStatus = 'passing' | 'failing' | 'not-run' | 'uncovered';
+
+/**
+ * A test case mapped to a requirement, with its latest automated result and GitHub issue
+ */
+export interface TraceabilityTestCase {
+    testCaseId: string;
+    name: string;
+    suiteIds: string[];
+    latestResult?: { outcome: string; recordedAt: string; reportId: string; errorMessage?: string };
+    issue?: { number?: number; url: string; state?: string };
+}
+
+export interface TraceabilityRequirement {
+    id: string;
+    title: string;
+    path: string;
+    parentId?: string;
+    /** Derived from the latest results of the test cases of the requirement and its sub-requirements */
+    status: RequirementStatus;
+    /** Test cases mapped to this requirement itself */
+    testCases: TraceabilityTestCase[];
+}
+
+export interface TraceabilityMatrix {
+    resourceId: string;
+    generatedAt: string;
+    summary: {
+        requirements: number;
+        covered: number;
+        uncovered: number;
+        passing: number;
+        failing: number;
+        notRun: number;
+        coveragePercent: number;
+    };
+    requirements: TraceabilityRequirement[];
+    uncoveredRequirementIds: string[];
+    /** Requirement ids test cases are mapped to that are no longer in the PRD */
+    unknownRequirementIds: string[];
+    /** Test cases not mapped to any requirement */
+    unmappedTestCases: number;
+}
+
+export interface RequirementSuggestion {
+    testCaseId: string;
+    name: string;
+    requirementIds: string[];
+    suggestions: Array<{ requirementId: string; title: string; score: number }>;
+}
+
+export interface SuggestRequirementsOptions {
+    /** Minimum cosine similarity of a suggestion (default 0.35) */
+    minScore?: number;
+    /** Suggestions per test case (default 3) */
+    limit?: number;
+    /** Also suggest requirements for test cases that are already mapped */
+    includeMapped?: boolean;
+}
+
+/**
+ * A traceability request that can't be served (no connection, unknown test case or requirement)
+ */
+export class TraceabilityError extends Error {
+    constructor(message: string, readonly statusCode: number) {
+        super(message);
+        this.name = 'TraceabilityError';
+    }
+}
+
+/**
+ * Links the requirements of a connection's PRD to stored test cases, their latest results and GitHub issues
+ */
+export class TraceabilityService {
+    constructor(private storage: CosmosService) {}
+
+    async getRequirements(resourceId: string): Promise<PrdRequirement[]> {
+        const connection = await this.storage.getConnection(resourceId);
+        if (!connection) {
+            throw new TraceabilityError(`No connection found for resourceId: ${resourceId}. Please save connection first.`, 404);
+        }
+        return parsePrdRequirements(connection.prd || '');
+    }
+
+    /**
+     * Set the requirements a test case covers (replacing earlier mappings) on every stored copy of it
+     */
+    async mapTestCase(resourceId: string, testCaseId: string, requirementIds: string[]): Promise<TestCaseDocument[]> {
+        const known = new Set((await this.getRequirements(resourceId)).map(requirement => requirement.id));
+        const unknown = requirementIds.filter(id => !known.has(id));
+        if (unknown.length > 0) {
+            throw new TraceabilityError(`Unknown requirement id(s): ${unknown.join(', ')}`, 400);
+        }
+
+        const copies = await this.storage.findTestCases(resourceId, testCaseId);
+        if (copies.length === 0) {
+            throw new TraceabilityError(`No test case ${testCaseId} found for resourceId: ${resourceId}`, 404);
+        }
+
+        const unique = [...new Set(requirementIds)];
+        const updated: TestCaseDocument[] = [];
+        for (const copy of copies) {
+            const saved = await this.storage.patchTestCase(resourceId, copy.suiteId, copy.testCaseId, { requirementIds: unique });
+            if (saved) {
+                updated.push(saved);
+            }
+        }
+
+        console.log(`🔗 Mapped test case ${testCaseId} to ${unique.length} requirement(s) for resourceId: ${resourceId}`);
+        return updated;
+    }
+
+    /**
+     * Requirement -> test cases -> latest result -> GitHub issue, including requirements no test case covers
+     */
+    async buildMatrix(resourceId: string): Promise<TraceabilityMatrix> {
+        const requirements = await this.getRequirements(resourceId);
+        const testCases = this.groupTestCases(await this.storage.getTestCases(resourceId));
+
+        const known = new Set(requirements.map(requirement => requirement.id));
+        const direct = new Map<string, TraceabilityTestCase[]>();
+        const unknownRequirementIds = new Set<string>();
+        let unmappedTestCases = 0;
+
+        for (const { testCase, requirementIds } of testCases) {
+            if (requirementIds.length === 0) {
+                unmappedTestCases++;
+            }
+            for (const requirementId of requirementIds) {
+                if (!known.has(requirementId)) {
+                    unknownRequirementIds.add(requirementId);
+                    continue;
+                }
+                direct.set(requirementId, [...(direct.get(requirementId) || []), testCase]);
+            }
+        }
+
+        const rows: TraceabilityRequirement[] = requirements.map(requirement => ({
+            id: requirement.id,
+            title: requirement.title,
+            path: requirement.path,
+            ...(requirement.parentId && { parentId: requirement.parentId }),
+            status: this.toStatus(this.subtree(requirement.id, requirements).flatMap(id => direct.get(id) || [])),
+            testCases: direct.get(requirement.id) || []
+        }));
+
+        const count = (status: RequirementStatus) => rows.filter(row => row.status === status).length;
+        const uncovered = count('uncovered');
+
+        return {
+            resourceId,
+            generatedAt: new Date().toISOString(),
+            summary: {
+                requirements: rows.length,
+                covered: rows.length - uncovered,
+                uncovered,
+                passing: count('passing'),
+                failing: count('failing'),
+                notRun: count('not-run'),
+                coveragePercent: rows.length > 0 ? Math.round(((rows.length - uncovered) / rows.length) * 100) : 0
+            },
+            requirements: rows,
+            uncoveredRequirementIds: rows.filter(row => row.status === 'uncovered').map(row => row.id),
+            unknownRequirementIds: [...unknownRequirementIds],
+            unmappedTestCases
+        };
+    }
+
+    /**
+     * Suggest requirements for test cases by embedding similarity of the PRD sections and the test case titles and steps
+     * (using the cached test case embeddings). Suggestions are not saved; confirm them with mapTestCase.
+     */
+    async suggest(resourceId: string, provider: LlmProvider, options: SuggestRequirementsOptions = {}): Promise<RequirementSuggestion[]> {
+        const minScore = options.minScore ?? 0.35;
+        const limit = options.limit ?? 3;
+
+        const requirements = await this.getRequirements(resourceId);
+        const testCases = this.groupTestCases(await this.storage.getTestCases(resourceId))
+            .filter(entry => options.includeMapped || entry.requirementIds.length === 0);
+        if (requirements.length === 0 || testCases.length === 0) {
+            return [];
+        }
+
+        const requirementVectors = await embedInBatches(provider, requirements.map(requirement => `${requirement.path}\n${requirement.content}`));
+        const { testCases: embedded } = await new DuplicateDetectionService(this.storage, provider).getEmbeddedTestCases(resourceId);
+        const testCaseVectors = new Map(embedded.map(testCase => [testCase.testCaseId, testCase.vector]));
+
+        console.log(`🧭 Scored ${testCases.length} test case(s) against ${requirements.length} requirement(s) with ${provider.model}`);
+        return testCases.map(entry => ({
+            testCaseId: entry.testCase.testCaseId,
+            name: entry.testCase.name,
+            requirementIds: entry.requirementIds,
+            suggestions: requirements
+                .map((requirement, requirementIndex) => ({
+                    requirementId: requirement.id,
+                    title: requirement.title,
+                    score: Math.round(cosineSimilarity(testCaseVectors.get(entry.testCase.testCaseId) || [], requirementVectors[requirementIndex]) * 1000) / 1000
+                }))
+                .filter(suggestion => suggestion.score >= minScore && !entry.requirementIds.includes(suggestion.requirementId))
+                .sort((a, b) => b.score - a.score)
+                .slice(0, limit)
+        }));
+    }
+
+    /**
+     * One entry per test case; copies in several suites are combined (their mappings are kept in sync by mapTestCase)
+     */
+    private groupTestCases(documents: TestCaseDocument[]): Array<{ testCase: TraceabilityTestCase; requirementIds: string[] }> {
+        const grouped = new Map<string, { testCase: TraceabilityTestCase; requirementIds: string[] }>();
+
+        for (const document of documents) {
+            const entry = grouped.get(document.testCaseId);
+            if (entry) {
+                entry.testCase.suiteIds.push(document.suiteId);
+                entry.requirementIds = [...new Set([...entry.requirementIds, ...(document.requirementIds || [])])];
+                const { latestResult, issue } = this.toTestCase(document);
+                if (latestResult && (!entry.testCase.latestResult || latestResult.recordedAt > entry.testCase.latestResult.recordedAt)) {
+                    entry.testCase.latestResult = latestResult;
+                }
+                entry.testCase.issue = entry.testCase.issue || issue;
+                continue;
+            }
+
+            grouped.set(document.testCaseId, {
+                testCase: this.toTestCase(document),
+                requirementIds: document.requirementIds || []
+            });
+        }
+
+        return [...grouped.values()];
+    }
+
+    private toTestCase(document: TestCaseDocument): TraceabilityTestCase {
+        return {
+            testCaseId: document.testCaseId,
+            name: document.name,
+            suiteIds: [document.suiteId],
+            ...(document.lastResult && {
+                latestResult: {
+                    outcome: document.lastResult.outcome,
+                    recordedAt: document.lastResult.recordedAt,
+                    reportId: document.lastResult.reportId,
+                    ...(document.lastResult.errorMessage && { errorMessage: document.lastResult.errorMessage })
+                }
+            }),
+            ...(document.githubUrl && {
+                issue: {
+                    url: document.githubUrl,
+                    ...(document.githubIssueNumber !== undefined && { number: document.githubIssueNumber }),
+                    ...(document.githubIssueState && { state: document.githubIssueState })
+                }
+            })
+        };
+    }
+
+    /**
+     * Ids of a requirement and all requirements nested below it
+     */
+    private subtree(requirementId: string, requirements: PrdRequirement[]): string[] {
+        const children = requirements.filter(requirement => requirement.parentId === requirementId);
+        return [requirementId, ...children.flatMap(child => this.subtree(child.id, requirements))];
+    }
+
+    private toStatus(testCases: TraceabilityTestCase[]): RequirementStatus {
+        if (testCases.length === 0) {
+            return 'uncovered';
+        }
+        if (testCases.some(testCase => testCase.latestResult?.outcome === 'Failed')) {
+            return 'failing';
+        }
+        return testCases.every(testCase => testCase.latestResult?.outcome === 'Passed') ? 'passing' : 'not-run';
+    }
+}
@@ -0,0 +1,27 @@
+/**
+ * Escaping and entity decoding shared by the modules that read and write ADO's XML fields
+ */
+
+export function escapeXmlText(text: string): string {
+    return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function escapeXmlAttribute(text: string): string {
+    return escapeXmlText(text).replace(/"/g, '&quot;');
+}
+
+const NAMED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' };
+
+/**
+ * Decode the predefined named entities and numeric character references in one pass, so "&amp;lt;"
+ * stays "&lt;". References to invalid code points are left as they are.
+ */
+export function decodeXmlEntities(text: string): string {
+    return text.replace(/&(?:#x([0-9a-f]+)|#(\d+)|(lt|gt|quot|apos|amp));/gi, (entity, hex?: string, decimal?: string, name?: string) => {
+        if (name) {
+            return NAMED_ENTITIES[name] ?? entity;
+        }
+        const codePoint = hex ? parseInt(hex, 16) : parseInt(decimal!, 10);
+        return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    });
+}
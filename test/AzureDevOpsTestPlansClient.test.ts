@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AzureDevOpsTestPlansClient } from '../src/AzureDevOpsTestPlansClient';
+
+/**
+ * Client whose suite calls work on an in-memory suite tree: suite 1 has children 11, 12 and 13.
+ * Moving a suite listed in failMoves (into the given parent) fails.
+ */
+function clientWithSuites(failMoves: Array<{ id: number; parentSuiteId: number }> = []) {
+    const children = new Map<number, number[]>([[1, [11, 12, 13]], [11, []], [12, []], [13, []]]);
+    const deleted: number[] = [];
+    let nextId = 100;
+
+    const client = new AzureDevOpsTestPlansClient('https://dev.azure.com/contoso', 'Shop');
+    const fake = client as any;
+    fake.testPlanApi = {};
+    fake.getTestSuite = async (planId: number, suiteId: number) => ({ id: suiteId, children: children.get(suiteId)!.map(id => ({ id })) });
+    fake.createTestSuite = async (planId: number, options: { parentSuiteId: number }) => {
+        const id = nextId++;
+        children.set(id, []);
+        children.get(options.parentSuiteId)!.push(id);
+        return { id };
+    };
+    fake.updateTestSuite = async (planId: number, suiteId: number, updates: { parentSuiteId: number }) => {
+        if (failMoves.some(move => move.id === suiteId && move.parentSuiteId === updates.parentSuiteId)) {
+            throw new Error(`VS403245: Suite ${suiteId} could not be moved`);
+        }
+        for (const list of children.values()) {
+            const index = list.indexOf(suiteId);
+            if (index >= 0) {
+                list.splice(index, 1);
+            }
+        }
+        children.get(updates.parentSuiteId)!.push(suiteId);
+        return { id: suiteId };
+    };
+    fake.deleteTestSuite = async (planId: number, suiteId: number) => {
+        deleted.push(suiteId);
+        children.delete(suiteId);
+        children.set(1, children.get(1)!.filter(id => id !== suiteId));
+    };
+
+    return { client, children, deleted };
+}
+
+test('child suites are put in the requested order through a holding suite', async () => {
+    const { client, children, deleted } = clientWithSuites();
+
+    const parent = await client.reorderChildSuites(7, 1, [13, 11]);
+
+    assert.deepEqual(parent.children?.map(child => child.id), [12, 13, 11]);
+    assert.deepEqual(deleted, [100]);
+    assert.equal(children.has(100), false);
+});
+
+test('unknown children are rejected before anything is moved', async () => {
+    const { client, children } = clientWithSuites();
+
+    await assert.rejects(client.reorderChildSuites(7, 1, [13, 99]), /99 are not children of suite 1/);
+    assert.deepEqual(children.get(1), [11, 12, 13]);
+});
+
+test('when a move fails, the moved suites go back to the parent and the holding suite is deleted', async () => {
+    const { client, children, deleted } = clientWithSuites([{ id: 11, parentSuiteId: 100 }]);
+
+    await assert.rejects(client.reorderChildSuites(7, 1, [13, 11, 12]), /Suite 11 could not be moved/);
+
+    assert.deepEqual([...children.get(1)!].sort((a, b) => a - b), [11, 12, 13]);
+    assert.deepEqual(deleted, [100]);
+});
+
+test('a suite that can not be moved back keeps the holding suite', async () => {
+    const { client, children, deleted } = clientWithSuites([{ id: 12, parentSuiteId: 1 }]);
+
+    await assert.rejects(client.reorderChildSuites(7, 1, [13, 12, 11]), /Suite 12 could not be moved/);
+
+    // 13 was moved back before 12 failed; 11 is moved back by the rollback
+    assert.deepEqual(children.get(100), [12]);
+    assert.deepEqual([...children.get(1)!].sort((a, b) => a - b), [11, 13, 100]);
+    assert.deepEqual(deleted, []);
+});
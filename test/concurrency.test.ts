@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as delay } from 'timers/promises';
+import { chunk, mapWithConcurrency } from '../src/concurrency';
+
+test('results are in the order of the items, whatever order the calls finish in', async () => {
+    const results = await mapWithConcurrency([30, 5, 20, 0, 10], 3, async (ms, index) => {
+        await delay(ms);
+        return `${index}:${ms}`;
+    });
+
+    assert.deepEqual(results, ['0:30', '1:5', '2:20', '3:0', '4:10']);
+});
+
+test('no more than limit calls are in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const started: number[] = [];
+
+    await mapWithConcurrency(Array.from({ length: 10 }, (_, index) => index), 3, async item => {
+        started.push(item);
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delay(5);
+        inFlight--;
+    });
+
+    assert.equal(maxInFlight, 3);
+    assert.deepEqual(started, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+});
+
+test('a limit below one still makes progress, one call at a time', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3], 0, async item => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delay(1);
+        inFlight--;
+        return item * 2;
+    });
+
+    assert.deepEqual(results, [2, 4, 6]);
+    assert.equal(maxInFlight, 1);
+});
+
+test('the first rejection rejects the whole call', async () => {
+    await assert.rejects(
+        mapWithConcurrency([1, 2, 3, 4], 2, async item => {
+            await delay(item);
+            if (item === 2) {
+                throw new Error('item 2 failed');
+            }
+            return item;
+        }),
+        /item 2 failed/
+    );
+});
+
+test('no items means no calls', async () => {
+    let calls = 0;
+    assert.deepEqual(await mapWithConcurrency([], 4, async () => ++calls), []);
+    assert.equal(calls, 0);
+});
+
+test('items are split into consecutive chunks of at most size items', () => {
+    assert.deepEqual(chunk([1, 2, 3, 4, 5], 2), [[1, 2], [3, 4], [5]]);
+    assert.deepEqual(chunk([1, 2, 3, 4], 2), [[1, 2], [3, 4]]);
+    assert.deepEqual(chunk([1, 2], 200), [[1, 2]]);
+    assert.deepEqual(chunk([], 200), []);
+});
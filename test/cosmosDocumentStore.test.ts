@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CosmosDocumentStore } from '../src/cosmosDocumentStore';
+import { ConcurrencyConflictError } from '../src/documentStore';
+
+// Builds a store whose container answers every item call with the given Cosmos error; nothing is sent over the network
+function storeFailingWith(code: number): CosmosDocumentStore {
+    process.env.COSMOS_DB_ENDPOINT = 'https://localhost:8081';
+    process.env.COSMOS_DB_KEY = Buffer.from('test-key').toString('base64');
+
+    const store = new CosmosDocumentStore();
+    const fail = async () => {
+        throw Object.assign(new Error(`Cosmos error ${code}`), { code });
+    };
+    (store as any).containers.set('testCases', { item: () => ({ read: fail, replace: fail, patch: fail, delete: fail }) });
+    return store;
+}
+
+test('a 412 from Cosmos becomes a ConcurrencyConflictError', async () => {
+    const store = storeFailingWith(412);
+
+    await assert.rejects(store.patch('testCases', 'tc-1', 'r1', { status: 'Closed' }, { ifMatch: '"1"' }), (error: unknown) =>
+        error instanceof ConcurrencyConflictError && error.documentId === 'tc-1' && error.statusCode === 412);
+    await assert.rejects(store.replace('testCases', 'tc-1', 'r1', { id: 'tc-1', resourceId: 'r1' }, { ifMatch: '"1"' }), ConcurrencyConflictError);
+});
+
+test('a 404 is a conflict only for conditional writes', async () => {
+    const store = storeFailingWith(404);
+
+    await assert.rejects(store.patch('testCases', 'tc-1', 'r1', { status: 'Closed' }, { ifMatch: '"1"' }), ConcurrencyConflictError);
+    await assert.rejects(store.replace('testCases', 'tc-1', 'r1', { id: 'tc-1', resourceId: 'r1' }, { ifMatch: '"1"' }), ConcurrencyConflictError);
+
+    await assert.rejects(store.patch('testCases', 'tc-1', 'r1', { status: 'Closed' }), (error: any) =>
+        !(error instanceof ConcurrencyConflictError) && error.code === 404);
+    await assert.rejects(store.replace('testCases', 'tc-1', 'r1', { id: 'tc-1', resourceId: 'r1' }), (error: any) =>
+        !(error instanceof ConcurrencyConflictError) && error.code === 404);
+});
+
+test('other Cosmos errors are passed through', async () => {
+    const store = storeFailingWith(429);
+
+    await assert.rejects(store.patch('testCases', 'tc-1', 'r1', { status: 'Closed' }, { ifMatch: '"1"' }), { code: 429 });
+});
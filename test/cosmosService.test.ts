@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CosmosService, TestSuite } from '../src/cosmosService';
+import { InMemoryDocumentStore } from '../src/documentStore';
+
+const resourceId = 'resource-1';
+
+async function createStorage(): Promise<{ storage: CosmosService; store: InMemoryDocumentStore }> {
+    const store = new InMemoryDocumentStore();
+    const storage = new CosmosService(store);
+    await storage.initialize();
+    return { storage, store };
+}
+
+test('suites are stored without their test cases, which become documents of their own', async () => {
+    const { storage, store } = await createStorage();
+    await storage.saveTestSuites(resourceId, [{
+        resourceId,
+        name: 'Checkout',
+        testCaseId: '10-20',
+        testCases: [
+            { testCaseId: '101', name: 'Pay with a card', steps: [] },
+            { testCaseId: '102', name: 'Apply a voucher', steps: [] }
+        ]
+    }]);
+
+    const [storedSuite] = await store.query<TestSuite>('testSuites', resourceId);
+    assert.equal(storedSuite.testCases, undefined);
+    assert.equal(storedSuite.testCaseCount, 2);
+
+    const [suite] = await storage.getTestSuites(resourceId);
+    assert.deepEqual(suite.testCases.map(testCase => testCase.name), ['Pay with a card', 'Apply a voucher']);
+    assert.equal((await storage.getTestCase(resourceId, '10-20', '102'))?.order, 1);
+});
+
+test('saving a suite again deletes the documents of test cases it no longer has', async () => {
+    const { storage } = await createStorage();
+    const suite = (testCases: TestSuite['testCases']): TestSuite => ({ resourceId, name: 'Checkout', testCaseId: '10-20', testCases });
+    await storage.saveTestSuites(resourceId, [suite([
+        { testCaseId: '101', name: 'Pay with a card', steps: [] },
+        { testCaseId: '102', name: 'Apply a voucher', steps: [] }
+    ])]);
+    await storage.saveTestSuites(resourceId, [{ resourceId, name: 'Search', testCaseId: '10-30', testCases: [{ testCaseId: '201', name: 'Find a product', steps: [] }] }]);
+
+    await storage.saveTestSuites(resourceId, [suite([{ testCaseId: '102', name: 'Apply a voucher code', steps: [] }])]);
+
+    assert.equal(await storage.getTestCase(resourceId, '10-20', '101'), null);
+    const remaining = await storage.getTestCases(resourceId, '10-20');
+    assert.deepEqual(remaining.map(testCase => [testCase.testCaseId, testCase.name, testCase.order]), [['102', 'Apply a voucher code', 0]]);
+    // Other suites are left alone
+    assert.equal((await storage.getTestCases(resourceId, '10-30')).length, 1);
+});
+
+test('embedded test cases are migrated into documents once', async () => {
+    const { storage, store } = await createStorage();
+    await store.upsert('testSuites', {
+        id: 'legacy-suite',
+        resourceId,
+        name: 'Checkout',
+        testCaseId: '10-20',
+        testCases: [
+            { testCaseId: '101', name: 'Pay with a card', steps: ['Open the cart'], detailedSteps: [{ action: 'Open the cart', expectedResult: 'The cart is shown' }] },
+            { testCaseId: '102', name: 'Apply a voucher', steps: [] }
+        ]
+    });
+    await store.upsert('testSuites', { id: 'migrated-suite', resourceId, name: 'Search', testCaseId: '10-30', testCases: [], testCaseCount: 0 });
+
+    assert.deepEqual(await storage.migrateEmbeddedTestCases(resourceId), { suitesMigrated: 1, testCasesMigrated: 2 });
+
+    const legacy = await store.read<TestSuite>('testSuites', 'legacy-suite', resourceId);
+    assert.deepEqual(legacy?.testCases, []);
+    assert.equal(legacy?.testCaseCount, 2);
+    const testCases = await storage.getTestCases(resourceId, '10-20');
+    assert.deepEqual(testCases.map(testCase => testCase.testCaseId), ['101', '102']);
+    assert.equal(testCases[0].detailedSteps?.[0].expectedResult, 'The cart is shown');
+
+    // Running it again finds nothing left to migrate
+    assert.deepEqual(await storage.migrateEmbeddedTestCases(resourceId), { suitesMigrated: 0, testCasesMigrated: 0 });
+    assert.equal((await storage.getTestCases(resourceId)).length, 2);
+});
@@ -0,0 +1,149 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AzureDevOpsTestPlansClient, TestCaseNotFoundError } from '../src/AzureDevOpsTestPlansClient';
+import { CosmosService, SyncWatermark, TestCase, TestSuite } from '../src/cosmosService';
+import { DeltaSyncService } from '../src/deltaSync';
+import { InMemoryDocumentStore } from '../src/documentStore';
+
+const resourceId = 'resource-1';
+const lastSyncedAt = '2026-01-01T00:00:00.000Z';
+
+interface FakeAdo {
+    plans: Array<{ id: number; name: string; revision: number; suites: Array<{ id: number; name: string; revision: number; memberIds: number[] }> }>;
+    changedIds?: number[];
+    // Test cases the batch read reports as failed; anything else is read normally
+    errors?: Record<number, Error>;
+}
+
+function fakeClient(ado: FakeAdo) {
+    const fetchedIds: number[] = [];
+    const client = {
+        getAllTestPlans: async () => ado.plans.map(({ id, name, revision }) => ({ id, name, revision })),
+        getChangedTestCaseIds: async () => ado.changedIds || [],
+        getTestSuites: async (planId: number) => ado.plans.find(plan => plan.id === planId)!.suites,
+        getSuiteTestCaseIds: async (planId: number, suiteId: number) =>
+            ado.plans.find(plan => plan.id === planId)!.suites.find(suite => suite.id === suiteId)!.memberIds,
+        getTestCaseDetailsBatch: async (ids: number[]) => {
+            fetchedIds.push(...ids);
+            const details = new Map<number, any>();
+            const errors = new Map<number, Error>();
+            for (const id of ids) {
+                if (ado.errors?.[id]) {
+                    errors.set(id, ado.errors[id]);
+                } else {
+                    details.set(id, { id, revision: 2, fields: { title: `Test case ${id} (ADO)` } });
+                }
+            }
+            return { details, errors };
+        }
+    };
+    return { client: client as unknown as AzureDevOpsTestPlansClient, fetchedIds };
+}
+
+async function storageWith(suites: Array<[string, TestCase[]]>, suiteRevisions: Record<string, number>): Promise<{ storage: CosmosService; watermark: SyncWatermark }> {
+    const storage = new CosmosService(new InMemoryDocumentStore());
+    await storage.initialize();
+    await storage.saveTestSuites(resourceId, suites.map(([testCaseId, testCases]): TestSuite => ({ resourceId, name: `Release 1 - Checkout`, testCaseId, testCases })));
+    const watermark = await storage.saveSyncWatermark({ resourceId, lastSyncedAt, planRevisions: { 1: 1 }, suiteRevisions });
+    return { storage, watermark };
+}
+
+const testCase = (id: string, fields: Partial<TestCase> = {}): TestCase => ({ testCaseId: id, name: `Test case ${id}`, steps: [], ...fields });
+
+test('changed and new test cases are merged onto the stored ones, and removed members are dropped', async () => {
+    const { storage, watermark } = await storageWith([['1-10', [testCase('101', { githubIssueNumber: 7 }), testCase('102'), testCase('104')]]], { '1-10': 2 });
+    const { client, fetchedIds } = fakeClient({
+        plans: [{ id: 1, name: 'Release 1', revision: 1, suites: [{ id: 10, name: 'Checkout', revision: 3, memberIds: [101, 103, 104] }] }],
+        changedIds: [101]
+    });
+
+    const summary = await new DeltaSyncService(storage).sync(resourceId, client, watermark);
+
+    assert.deepEqual(fetchedIds, [101, 103]);
+    const testCases = await storage.getTestCases(resourceId, '1-10');
+    assert.deepEqual(testCases.map(stored => [stored.testCaseId, stored.name]), [
+        ['101', 'Test case 101 (ADO)'],
+        ['103', 'Test case 103 (ADO)'],
+        ['104', 'Test case 104']
+    ]);
+    // GitHub tracking fields survive the ADO update
+    assert.equal(testCases[0].githubIssueNumber, 7);
+    assert.equal(summary.testCasesAdded, 1);
+    assert.equal(summary.testCasesUpdated, 1);
+    assert.equal(summary.testCasesRemoved, 1);
+    assert.equal(summary.testCasesUnchanged, 1);
+    assert.equal(summary.suitesUpdated, 1);
+
+    const saved = await storage.getSyncWatermark(resourceId);
+    assert.notEqual(saved?.lastSyncedAt, lastSyncedAt);
+    assert.deepEqual(saved?.suiteRevisions, { '1-10': 3 });
+});
+
+test('an unchanged suite revision reuses the stored membership', async () => {
+    const { storage, watermark } = await storageWith([['1-10', [testCase('101'), testCase('102')]]], { '1-10': 3 });
+    const { client, fetchedIds } = fakeClient({
+        plans: [{ id: 1, name: 'Release 1', revision: 1, suites: [{ id: 10, name: 'Checkout', revision: 3, memberIds: [] }] }]
+    });
+
+    const summary = await new DeltaSyncService(storage).sync(resourceId, client, watermark);
+
+    assert.deepEqual(fetchedIds, []);
+    assert.equal(summary.suitesSkipped, 1);
+    assert.equal((await storage.getTestCases(resourceId, '1-10')).length, 2);
+});
+
+test('test cases deleted in ADO are removed and the watermark still advances', async () => {
+    const { storage, watermark } = await storageWith([['1-10', [testCase('101'), testCase('102')]]], { '1-10': 2 });
+    const { client } = fakeClient({
+        plans: [{ id: 1, name: 'Release 1', revision: 1, suites: [{ id: 10, name: 'Checkout', revision: 3, memberIds: [101, 102] }] }],
+        changedIds: [102],
+        errors: { 102: new TestCaseNotFoundError(102) }
+    });
+
+    const summary = await new DeltaSyncService(storage).sync(resourceId, client, watermark);
+
+    assert.deepEqual((await storage.getTestCases(resourceId, '1-10')).map(stored => stored.testCaseId), ['101']);
+    assert.equal(summary.testCasesRemoved, 1);
+    const saved = await storage.getSyncWatermark(resourceId);
+    assert.notEqual(saved?.lastSyncedAt, lastSyncedAt);
+    assert.deepEqual(saved?.suiteRevisions, { '1-10': 3 });
+});
+
+test('test cases that could not be read keep the old watermark and suite revision', async () => {
+    const { storage, watermark } = await storageWith([['1-10', [testCase('101'), testCase('102')]]], { '1-10': 2 });
+    const { client } = fakeClient({
+        plans: [{ id: 1, name: 'Release 1', revision: 1, suites: [{ id: 10, name: 'Checkout', revision: 3, memberIds: [101, 102] }] }],
+        changedIds: [102],
+        errors: { 102: new Error('TF401232: Work item 102 cannot be read') }
+    });
+
+    await new DeltaSyncService(storage).sync(resourceId, client, watermark);
+
+    // The stored copy is kept until it can be read again
+    assert.deepEqual((await storage.getTestCases(resourceId, '1-10')).map(stored => [stored.testCaseId, stored.name]), [
+        ['101', 'Test case 101'],
+        ['102', 'Test case 102']
+    ]);
+    const saved = await storage.getSyncWatermark(resourceId);
+    assert.equal(saved?.lastSyncedAt, lastSyncedAt);
+    assert.deepEqual(saved?.suiteRevisions, {});
+});
+
+test('suites removed from a plan, and suites of deleted plans, are removed', async () => {
+    const { storage, watermark } = await storageWith([
+        ['1-10', [testCase('101')]],
+        ['1-11', [testCase('111')]],
+        ['2-20', [testCase('201')]],
+        // Created for a GitHub issue; not part of any plan
+        ['301', [testCase('301')]]
+    ], { '1-10': 3, '1-11': 1, '2-20': 1 });
+    const { client } = fakeClient({
+        plans: [{ id: 1, name: 'Release 1', revision: 1, suites: [{ id: 10, name: 'Checkout', revision: 3, memberIds: [101] }] }]
+    });
+
+    const summary = await new DeltaSyncService(storage).sync(resourceId, client, watermark);
+
+    assert.equal(summary.suitesRemoved, 2);
+    assert.deepEqual((await storage.getTestSuites(resourceId)).map(suite => suite.testCaseId).sort(), ['1-10', '301']);
+    assert.deepEqual((await storage.getTestCases(resourceId, '2-20')), []);
+});
@@ -0,0 +1,116 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ConcurrencyConflictError, DocumentStore, FileDocumentStore, InMemoryDocumentStore, StoredDocument } from '../src/documentStore';
+
+const CONTAINER = 'testCases';
+
+const directories: string[] = [];
+
+function temporaryDirectory(): string {
+    const directory = mkdtempSync(path.join(tmpdir(), 'document-store-'));
+    directories.push(directory);
+    return directory;
+}
+
+after(() => directories.forEach(directory => rmSync(directory, { recursive: true, force: true })));
+
+const stores: Array<[string, () => DocumentStore]> = [
+    ['memory', () => new InMemoryDocumentStore()],
+    ['file', () => new FileDocumentStore(path.join(temporaryDirectory(), 'storage.json'))]
+];
+
+for (const [kind, createStore] of stores) {
+    const initializedStore = async () => {
+        const store = createStore();
+        await store.initialize([CONTAINER]);
+        return store;
+    };
+
+    test(`${kind}: upserted documents are read back with an ETag and queried by partition and filter`, async () => {
+        const store = await initializedStore();
+        await store.upsert(CONTAINER, { id: 'a', resourceId: 'r1', suiteId: '1', name: 'A' });
+        await store.upsert(CONTAINER, { id: 'b', resourceId: 'r1', suiteId: '2', name: 'B' });
+        await store.upsert(CONTAINER, { id: 'a', resourceId: 'r2', suiteId: '1', name: 'Other resource' });
+
+        const read = await store.read<StoredDocument>(CONTAINER, 'a', 'r1');
+        assert.equal(read?.name, 'A');
+        assert.match(read?._etag || '', /^".+"$/);
+        assert.equal(await store.read(CONTAINER, 'missing', 'r1'), null);
+
+        const names = async (partitionKey: string | undefined, filter?: Record<string, string>) =>
+            (await store.query<StoredDocument>(CONTAINER, partitionKey, filter)).map(document => document.name).sort();
+        assert.deepEqual(await names('r1'), ['A', 'B']);
+        assert.deepEqual(await names('r1', { suiteId: '2' }), ['B']);
+        assert.deepEqual(await names(undefined, { suiteId: '1' }), ['A', 'Other resource']);
+    });
+
+    test(`${kind}: returned documents are copies`, async () => {
+        const store = await initializedStore();
+        const saved = await store.upsert<StoredDocument>(CONTAINER, { id: 'a', resourceId: 'r1', tags: ['x'] });
+        saved.tags.push('changed');
+
+        assert.deepEqual((await store.read<StoredDocument>(CONTAINER, 'a', 'r1'))?.tags, ['x']);
+    });
+
+    test(`${kind}: writes with a stale ifMatch raise ConcurrencyConflictError`, async () => {
+        const store = await initializedStore();
+        const first = await store.upsert<StoredDocument>(CONTAINER, { id: 'a', resourceId: 'r1', name: 'A' });
+        const second = await store.upsert<StoredDocument>(CONTAINER, { ...first, name: 'A2' }, { ifMatch: first._etag });
+        assert.notEqual(second._etag, first._etag);
+
+        await assert.rejects(store.upsert(CONTAINER, { ...first, name: 'A3' }, { ifMatch: first._etag }), ConcurrencyConflictError);
+        await assert.rejects(store.replace(CONTAINER, 'a', 'r1', { ...first, name: 'A3' }, { ifMatch: first._etag }), ConcurrencyConflictError);
+        await assert.rejects(store.patch(CONTAINER, 'a', 'r1', { name: 'A3' }, { ifMatch: first._etag }), (error: unknown) =>
+            error instanceof ConcurrencyConflictError && error.statusCode === 412 && error.documentId === 'a');
+        // A conditional write to a document that no longer exists is a conflict too
+        await assert.rejects(store.patch(CONTAINER, 'gone', 'r1', { name: 'A3' }, { ifMatch: first._etag }), ConcurrencyConflictError);
+
+        assert.equal((await store.read<StoredDocument>(CONTAINER, 'a', 'r1'))?.name, 'A2');
+    });
+
+    test(`${kind}: patch sets the given fields, removes fields set to undefined and keeps the rest`, async () => {
+        const store = await initializedStore();
+        const saved = await store.upsert<StoredDocument>(CONTAINER, { id: 'a', resourceId: 'r1', name: 'A', status: 'Open', githubIssueNumber: 12 });
+
+        const patched = await store.patch<StoredDocument>(CONTAINER, 'a', 'r1', { status: 'Closed', githubIssueNumber: undefined }, { ifMatch: saved._etag });
+
+        assert.equal(patched.name, 'A');
+        assert.equal(patched.status, 'Closed');
+        assert.equal('githubIssueNumber' in patched, false);
+        assert.equal('githubIssueNumber' in (await store.read<StoredDocument>(CONTAINER, 'a', 'r1'))!, false);
+        await assert.rejects(store.patch(CONTAINER, 'missing', 'r1', { status: 'Closed' }), { code: 404 });
+    });
+
+    test(`${kind}: deleted documents are gone`, async () => {
+        const store = await initializedStore();
+        await store.upsert(CONTAINER, { id: 'a', resourceId: 'r1' });
+        await store.delete(CONTAINER, 'a', 'r1');
+        await store.delete(CONTAINER, 'a', 'r1');
+
+        assert.equal(await store.read(CONTAINER, 'a', 'r1'), null);
+    });
+}
+
+test('a file store reloads what it wrote', async () => {
+    const filePath = path.join(temporaryDirectory(), 'nested', 'storage.json');
+    const store = new FileDocumentStore(filePath);
+    await store.initialize([CONTAINER, 'connections']);
+    const saved = await store.upsert<StoredDocument>(CONTAINER, { id: 'a', resourceId: 'r1', name: 'A' });
+    await store.patch(CONTAINER, 'a', 'r1', { name: 'A2', status: undefined });
+    await store.upsert(CONTAINER, { id: 'b', resourceId: 'r1', name: 'B' });
+    await store.delete(CONTAINER, 'b', 'r1');
+
+    assert.deepEqual(Object.keys(JSON.parse(readFileSync(filePath, 'utf8'))).sort(), ['connections', CONTAINER]);
+
+    const reloaded = new FileDocumentStore(filePath);
+    await reloaded.initialize([CONTAINER, 'connections']);
+    const documents = await reloaded.query<StoredDocument>(CONTAINER, 'r1');
+    assert.equal(documents.length, 1);
+    assert.equal(documents[0].name, 'A2');
+    assert.notEqual(documents[0]._etag, saved._etag);
+    // The reloaded ETag still guards writes
+    await assert.rejects(reloaded.patch(CONTAINER, 'a', 'r1', { name: 'A3' }, { ifMatch: saved._etag }), ConcurrencyConflictError);
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CosmosService, TestCase } from '../src/cosmosService';
+import { InMemoryDocumentStore } from '../src/documentStore';
+import { DuplicateDetectionService } from '../src/duplicateDetection';
+import { LlmProvider } from '../src/llmProvider';
+
+const resourceId = 'resource-1';
+
+/**
+ * Provider that embeds a text as [length, 1] and records every text it embedded
+ */
+function countingProvider(model: string): LlmProvider & { embedded: string[] } {
+    const embedded: string[] = [];
+    return {
+        kind: 'mock',
+        model,
+        embedded,
+        chatCompletion: async () => {
+            throw new Error('chatCompletion is not used');
+        },
+        structuredOutput: async () => {
+            throw new Error('structuredOutput is not used');
+        },
+        embed: async (texts: string[]) => {
+            embedded.push(...texts);
+            return texts.map(text => [text.length, 1]);
+        }
+    };
+}
+
+async function storageWith(testCases: TestCase[]): Promise<CosmosService> {
+    const storage = new CosmosService(new InMemoryDocumentStore());
+    await storage.initialize();
+    await storage.saveTestSuites(resourceId, [
+        { resourceId, name: 'Checkout', testCaseId: '10-20', testCases },
+        // 101 is in a second suite too
+        { resourceId, name: 'Regression', testCaseId: '10-30', testCases: [testCases[0]] }
+    ]);
+    return storage;
+}
+
+const payWithCard: TestCase = { testCaseId: '101', name: 'Pay with a card', steps: ['Open the cart', 'No test steps available'], revision: 3 };
+const applyVoucher: TestCase = { testCaseId: '102', name: 'Apply a voucher', steps: ['Enter SAVE10'], revision: 1 };
+
+test('copies of a test case share one embedding, which is reused while nothing changed', async () => {
+    const storage = await storageWith([payWithCard, applyVoucher]);
+    const provider = countingProvider('text-embedding-3-small');
+    const service = new DuplicateDetectionService(storage, provider);
+
+    const first = await service.getEmbeddedTestCases(resourceId);
+    assert.deepEqual(provider.embedded, ['Pay with a card\nOpen the cart', 'Apply a voucher\nEnter SAVE10']);
+    assert.deepEqual(first.testCases.find(testCase => testCase.testCaseId === '101')?.suiteIds, ['10-20', '10-30']);
+    assert.equal(first.computed, 2);
+
+    const second = await service.getEmbeddedTestCases(resourceId);
+    assert.equal(provider.embedded.length, 2);
+    assert.deepEqual([second.computed, second.cached], [0, 2]);
+    assert.deepEqual(second.testCases.map(testCase => testCase.vector), first.testCases.map(testCase => testCase.vector));
+});
+
+test('embeddings are recomputed when the model, the revision or the content changed', async () => {
+    const storage = await storageWith([payWithCard, applyVoucher]);
+    await new DuplicateDetectionService(storage, countingProvider('text-embedding-3-small')).getEmbeddedTestCases(resourceId);
+
+    const otherModel = countingProvider('text-embedding-3-large');
+    assert.equal((await new DuplicateDetectionService(storage, otherModel).getEmbeddedTestCases(resourceId)).computed, 2);
+
+    // A new ADO revision with the same text
+    await storage.patchTestCase(resourceId, '10-20', '102', { revision: 2 });
+    const afterRevision = countingProvider('text-embedding-3-large');
+    await new DuplicateDetectionService(storage, afterRevision).getEmbeddedTestCases(resourceId);
+    assert.deepEqual(afterRevision.embedded, ['Apply a voucher\nEnter SAVE10']);
+
+    // Edited steps without a new revision (e.g. stored before revisions were recorded)
+    await storage.patchTestCase(resourceId, '10-20', '102', { steps: ['Enter SAVE20'] });
+    const afterEdit = countingProvider('text-embedding-3-large');
+    const result = await new DuplicateDetectionService(storage, afterEdit).getEmbeddedTestCases(resourceId);
+    assert.deepEqual(afterEdit.embedded, ['Apply a voucher\nEnter SAVE20']);
+    assert.deepEqual([result.computed, result.cached], [1, 1]);
+});
+
+test('embeddings of test cases that are no longer stored are dropped', async () => {
+    const storage = await storageWith([payWithCard, applyVoucher]);
+    const provider = countingProvider('text-embedding-3-small');
+    await new DuplicateDetectionService(storage, provider).getEmbeddedTestCases(resourceId);
+
+    await storage.saveTestSuites(resourceId, [{ resourceId, name: 'Checkout', testCaseId: '10-20', testCases: [payWithCard] }]);
+    await new DuplicateDetectionService(storage, provider).getEmbeddedTestCases(resourceId);
+
+    assert.deepEqual((await storage.getTestCaseEmbeddings(resourceId)).map(embedding => embedding.testCaseId), ['101']);
+});
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { CosmosService } from '../src/cosmosService';
+import { InMemoryDocumentStore } from '../src/documentStore';
+import { GitHubWebhookService } from '../src/githubWebhookService';
+
+const fixtures = path.join(__dirname, 'fixtures', 'webhooks');
+const resourceId = 'resource-1';
+
+function payload(name: string): any {
+    return JSON.parse(readFileSync(path.join(fixtures, name), 'utf8'));
+}
+
+// Test case 101 is linked to issue #42 and stored in two suites; 102 has no issue
+async function storageWithLinkedTestCase(): Promise<CosmosService> {
+    const storage = new CosmosService(new InMemoryDocumentStore());
+    await storage.initialize();
+    const linked = {
+        testCaseId: '101',
+        name: 'Pay with a card',
+        steps: [],
+        status: 'Created',
+        githubIssueId: 2874512233,
+        githubIssueNumber: 42,
+        githubUrl: 'https://github.com/contoso/shop/issues/42'
+    };
+    await storage.saveTestSuites(resourceId, [
+        { resourceId, name: 'Checkout', testCaseId: '10-20', testCases: [linked, { testCaseId: '102', name: 'Apply a voucher', steps: [] }] },
+        { resourceId, name: 'Regression', testCaseId: '10-30', testCases: [linked] }
+    ]);
+    return storage;
+}
+
+test('a closed issue closes every copy of its test cases', async () => {
+    const storage = await storageWithLinkedTestCase();
+
+    const delivery = await new GitHubWebhookService(storage).handle('issues', 'delivery-1', payload('issues-closed.json'));
+
+    assert.equal(delivery.testCasesUpdated, 2);
+    assert.equal(delivery.action, 'closed');
+    for (const suiteId of ['10-20', '10-30']) {
+        const testCase = await storage.getTestCase(resourceId, suiteId, '101');
+        assert.equal(testCase?.status, 'Closed');
+        assert.equal(testCase?.githubIssueState, 'closed (completed)');
+        assert.deepEqual(testCase?.githubAssignees, ['mlopez']);
+        assert.deepEqual(testCase?.githubLabels, ['ado-test-api', 'bug']);
+    }
+    assert.equal((await storage.getTestCase(resourceId, '10-20', '102'))?.status, undefined);
+    assert.equal((await storage.getWebhookDelivery('delivery-1'))?.event, 'issues');
+});
+
+test('a new comment is recorded as the last comment of the linked test cases', async () => {
+    const storage = await storageWithLinkedTestCase();
+
+    const delivery = await new GitHubWebhookService(storage).handle('issue_comment', 'delivery-2', payload('issue_comment-created.json'));
+
+    assert.equal(delivery.testCasesUpdated, 2);
+    const testCase = await storage.getTestCase(resourceId, '10-20', '101');
+    assert.deepEqual(testCase?.githubLastComment, {
+        author: 'mlopez',
+        url: 'https://github.com/contoso/shop/issues/42#issuecomment-2691150871',
+        createdAt: '2026-03-03T11:02:19Z'
+    });
+    assert.equal(testCase?.status, 'Created');
+});
+
+test('a pull request saying "fixes #N" is recorded as the fix of issue N', async () => {
+    const storage = await storageWithLinkedTestCase();
+    const service = new GitHubWebhookService(storage);
+
+    const delivery = await service.handle('pull_request', 'delivery-3', payload('pull_request-closed.json'));
+
+    assert.equal(delivery.testCasesUpdated, 2);
+    const testCase = await storage.getTestCase(resourceId, '10-30', '101');
+    assert.deepEqual(testCase?.githubFixPullRequest, {
+        number: 57,
+        url: 'https://github.com/contoso/shop/pull/57',
+        state: 'closed',
+        merged: true,
+        author: 'mlopez'
+    });
+    assert.deepEqual(testCase?.githubLinkedPullRequests, [{ number: 57, url: 'https://github.com/contoso/shop/pull/57', state: 'closed', merged: true }]);
+
+    // Redelivering the event doesn't link the pull request twice
+    await service.handle('pull_request', 'delivery-4', payload('pull_request-closed.json'));
+    assert.equal((await storage.getTestCase(resourceId, '10-30', '101'))?.githubLinkedPullRequests?.length, 1);
+});
+
+test('a pull request without a closing keyword and unknown events change nothing', async () => {
+    const storage = await storageWithLinkedTestCase();
+    const service = new GitHubWebhookService(storage);
+    const mention = payload('pull_request-closed.json');
+    mention.pull_request.body = 'Related to #42';
+
+    assert.equal((await service.handle('pull_request', 'delivery-5', mention)).testCasesUpdated, 0);
+    assert.equal((await service.handle('push', 'delivery-6', { ref: 'refs/heads/main' })).testCasesUpdated, 0);
+    assert.equal((await storage.getTestCase(resourceId, '10-20', '101'))?.githubFixPullRequest, undefined);
+});
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { signWebhookPayload, verifyWebhookSignature } from '../src/githubWebhookService';
+
+// Example from GitHub's "Validating webhook deliveries" documentation
+const secret = "It's a Secret to Everybody";
+const payload = Buffer.from('Hello, World!');
+const signature = 'sha256=757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17';
+
+test('payloads are signed the way GitHub signs them', () => {
+    assert.equal(signWebhookPayload(secret, payload), signature);
+    assert.equal(signWebhookPayload(secret, 'Hello, World!'), signature);
+});
+
+test('a matching signature is accepted', () => {
+    assert.equal(verifyWebhookSignature(secret, payload, signature), true);
+});
+
+test('a signature for another body or secret is rejected', () => {
+    assert.equal(verifyWebhookSignature(secret, Buffer.from('Hello, World?'), signature), false);
+    assert.equal(verifyWebhookSignature('another secret', payload, signature), false);
+});
+
+test('missing, malformed and truncated signatures are rejected', () => {
+    assert.equal(verifyWebhookSignature(secret, payload, undefined), false);
+    assert.equal(verifyWebhookSignature(secret, payload, ''), false);
+    assert.equal(verifyWebhookSignature(secret, payload, signature.replace('sha256=', 'sha1=')), false);
+    assert.equal(verifyWebhookSignature(secret, payload, signature.slice('sha256='.length)), false);
+    assert.equal(verifyWebhookSignature(secret, payload, signature.slice(0, -1)), false);
+    assert.equal(verifyWebhookSignature(secret, payload, signature.toUpperCase()), false);
+});
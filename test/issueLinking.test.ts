@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CosmosService, TestCase } from '../src/cosmosService';
+import { InMemoryDocumentStore } from '../src/documentStore';
+import { TestCaseIssueLinker } from '../src/issueLinking';
+
+const resourceId = 'resource-1';
+const issueUpdates: Partial<TestCase> = { issueId: '42', status: 'Created', githubIssueNumber: 42 };
+
+// Test case 101 is stored in two suites
+async function storageWithSharedTestCase(): Promise<CosmosService> {
+    const storage = new CosmosService(new InMemoryDocumentStore());
+    await storage.initialize();
+    await storage.saveTestSuites(resourceId, [
+        { resourceId, name: 'Checkout', testCaseId: '10-20', testCases: [{ testCaseId: '101', name: 'Pay with a card', steps: [] }] },
+        { resourceId, name: 'Regression', testCaseId: '10-30', testCases: [{ testCaseId: '101', name: 'Pay with a card', steps: [] }] }
+    ]);
+    return storage;
+}
+
+test('targets are the copies of the test case, or the test cases of a suite with that id', async () => {
+    const storage = await storageWithSharedTestCase();
+    const linker = new TestCaseIssueLinker(storage);
+
+    assert.deepEqual((await linker.findTargets(resourceId, '101')).map(target => target.suiteId).sort(), ['10-20', '10-30']);
+    assert.deepEqual((await linker.findTargets(resourceId, '10-30')).map(target => target.testCaseId), ['101']);
+});
+
+test('the If-Match pre-check reports copies whose ETag is not listed', async () => {
+    const storage = await storageWithSharedTestCase();
+    const linker = new TestCaseIssueLinker(storage);
+    const targets = await linker.findTargets(resourceId, '101');
+    const etags = targets.map(target => target._etag!);
+
+    assert.deepEqual(linker.findStale(targets, undefined), []);
+    assert.deepEqual(linker.findStale(targets, etags), []);
+    assert.deepEqual(linker.findStale(targets, [etags[0]]).map(target => target.suiteId), [targets[1].suiteId]);
+
+    await storage.patchTestCase(resourceId, targets[0].suiteId, '101', { state: 'Ready' });
+    assert.deepEqual(linker.findStale(await linker.findTargets(resourceId, '101'), etags).map(target => target.suiteId), [targets[0].suiteId]);
+});
+
+test('the issue fields are written to every copy when the ETags still match', async () => {
+    const storage = await storageWithSharedTestCase();
+    const linker = new TestCaseIssueLinker(storage);
+    const targets = await linker.findTargets(resourceId, '101');
+
+    const result = await linker.link(resourceId, targets, issueUpdates, targets.map(target => target._etag!));
+
+    assert.equal(result.conflictSuiteId, undefined);
+    assert.equal(result.testCases.length, 2);
+    for (const target of targets) {
+        assert.equal((await storage.getTestCase(resourceId, target.suiteId, '101'))?.githubIssueNumber, 42);
+    }
+});
+
+test('a copy modified while the issue was filed stops the linking with a conflict', async () => {
+    const storage = await storageWithSharedTestCase();
+    const linker = new TestCaseIssueLinker(storage);
+    const targets = await linker.findTargets(resourceId, '101');
+    const etags = targets.map(target => target._etag!);
+    await storage.patchTestCase(resourceId, targets[1].suiteId, '101', { state: 'Ready' });
+
+    const result = await linker.link(resourceId, targets, issueUpdates, etags);
+
+    assert.equal(result.conflictSuiteId, targets[1].suiteId);
+    assert.deepEqual(result.testCases.map(testCase => testCase.suiteId), [targets[0].suiteId]);
+    const modified = await storage.getTestCase(resourceId, targets[1].suiteId, '101');
+    assert.equal(modified?.state, 'Ready');
+    assert.equal(modified?.githubIssueNumber, undefined);
+});
+
+test('without If-Match the issue fields are written whatever changed in between', async () => {
+    const storage = await storageWithSharedTestCase();
+    const linker = new TestCaseIssueLinker(storage);
+    const targets = await linker.findTargets(resourceId, '101');
+    await storage.patchTestCase(resourceId, targets[0].suiteId, '101', { state: 'Ready' });
+
+    const result = await linker.link(resourceId, targets, issueUpdates);
+
+    assert.equal(result.conflictSuiteId, undefined);
+    assert.deepEqual(result.testCases.map(testCase => testCase.githubIssueNumber), [42, 42]);
+    assert.equal(result.testCases.find(testCase => testCase.suiteId === targets[0].suiteId)?.state, 'Ready');
+});
@@ -0,0 +1,68 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { AzureOpenAIService } from '../src/AzureOpenAIService';
+import { LlmConfigurationError, createLlmProvider, resolveLlmProviderKind } from '../src/llmProvider';
+
+const fixturesDir = path.join(__dirname, '..', 'fixtures', 'llm');
+const variables = ['LLM_PROVIDER', 'LLM_MOCK_FIXTURES_DIR', 'AZURE_OPENAI_ENDPOINT', 'AZURE_OPENAI_API_KEY', 'OPENAI_MODEL'];
+const saved = Object.fromEntries(variables.map(name => [name, process.env[name]]));
+
+afterEach(() => {
+    for (const name of variables) {
+        if (saved[name] === undefined) {
+            delete process.env[name];
+        } else {
+            process.env[name] = saved[name];
+        }
+    }
+});
+
+const prd = [
+    '# Playwright Testing PRD',
+    '## 2. Functional Requirements',
+    '### 2.1 Workspace Management',
+    'Users create a Workspace with a name of 3-64 alphanumeric characters.'
+].join('\n');
+
+test('the mock provider replays the recorded recommendations', async () => {
+    process.env.LLM_MOCK_FIXTURES_DIR = fixturesDir;
+    const service = new AzureOpenAIService(createLlmProvider('mock'));
+
+    const result = await service.generateTestPlanRecommendations(prd, [], '1');
+
+    assert.equal(service.model, 'mock');
+    assert.deepEqual(result.recommendations.map(recommendation => recommendation.name), [
+        'Create a workspace and land on the setup guide',
+        'Reject workspace names that break the naming rules',
+        'Generate, use and delete an access token'
+    ]);
+    assert.equal(result.recommendations[0].testCases[0].steps.length, 5);
+    assert.equal(result.attempts, 1);
+    assert.deepEqual(result.dropped, []);
+});
+
+test('a PRD no fixture matches falls through to the catch-all fixture', async () => {
+    process.env.LLM_MOCK_FIXTURES_DIR = fixturesDir;
+
+    const result = await new AzureOpenAIService(createLlmProvider('mock')).generateTestPlanRecommendations('# Billing\nInvoices are sent monthly.', [], '1');
+
+    assert.deepEqual(result.recommendations, []);
+});
+
+test('missing or invalid provider settings raise LlmConfigurationError', () => {
+    process.env.LLM_MOCK_FIXTURES_DIR = path.join(fixturesDir, 'missing');
+    assert.throws(() => createLlmProvider('mock'), LlmConfigurationError);
+
+    delete process.env.AZURE_OPENAI_ENDPOINT;
+    delete process.env.AZURE_OPENAI_API_KEY;
+    assert.throws(() => createLlmProvider('azure'), (error: unknown) => error instanceof LlmConfigurationError && error.statusCode === 503);
+
+    delete process.env.OPENAI_MODEL;
+    assert.throws(() => createLlmProvider('openai'), LlmConfigurationError);
+
+    process.env.LLM_PROVIDER = 'gemini';
+    assert.throws(() => resolveLlmProviderKind(), LlmConfigurationError);
+    process.env.LLM_PROVIDER = ' Mock ';
+    assert.equal(resolveLlmProviderKind(), 'mock');
+});
@@ -0,0 +1,159 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TestCase } from '../src/cosmosService';
+import { LlmProvider } from '../src/llmProvider';
+import { PlaywrightSkeletonGenerator } from '../src/playwrightGenerator';
+import { parsePlaywrightReport } from '../src/testReportParsers';
+
+const websiteUrl = 'https://shop.example.com';
+
+function scriptedProvider(reply: any): LlmProvider {
+    return {
+        kind: 'mock',
+        model: 'scripted',
+        chatCompletion: async () => {
+            throw new Error('chatCompletion is not used');
+        },
+        structuredOutput: async () => ({ content: JSON.stringify(reply), truncated: false }),
+        embed: async () => {
+            throw new Error('embed is not used');
+        }
+    };
+}
+
+/**
+ * Annotations as Playwright reports them for a test declared with the generated annotation code
+ */
+function annotationsOf(content: string, iteration?: number): Array<{ type: string; description: string }> {
+    return [...content.matchAll(/\{ type: '(\w+)', description: (?:'([^']*)'|String\(index \+ 1\)) \}/g)]
+        .map(match => ({ type: match[1], description: match[2] ?? String(iteration) }));
+}
+
+test('a test case becomes a test with a step per ADO step, tagged and annotated with its id', async () => {
+    const testCase: TestCase = {
+        testCaseId: '101',
+        name: 'Pay with a card',
+        revision: 4,
+        steps: ['Step 1: Open the cart - Expected: The cart is shown', 'Step 2: Click "Pay"', 'No test steps available']
+    };
+
+    const spec = await new PlaywrightSkeletonGenerator().generate(testCase, websiteUrl);
+
+    assert.equal(spec.fileName, '101-pay-with-a-card.spec.ts');
+    assert.equal(spec.aiSuggested, false);
+    assert.match(spec.content, /^\/\/ Generated from Azure DevOps test case 101 \(revision 4\): Pay with a card$/m);
+    assert.match(spec.content, /^const BASE_URL = process\.env\.BASE_URL \|\| 'https:\/\/shop\.example\.com';$/m);
+    assert.match(spec.content, /^test\('Pay with a card', \{\n    tag: '@TC101',\n    annotation: \{ type: 'TestCaseId', description: '101' \}\n\}, async \(\{ page \}\) => \{$/m);
+    assert.match(spec.content, /^    await test\.step\('1\. Open the cart', async \(\) => \{\n        \/\/ TODO: Open the cart\n        \/\/ Expected: The cart is shown\n/m);
+    assert.match(spec.content, /^    await test\.step\('2\. Click "Pay"', async \(\) => \{\n        \/\/ TODO: Click "Pay"\n    \}\);$/m);
+});
+
+test('quotes, backslashes and line breaks are escaped in string literals and comments', async () => {
+    const testCase: TestCase = {
+        testCaseId: '102',
+        name: "Customer's card\nwith a \\ in the name",
+        steps: [],
+        detailedSteps: [{ action: "Enter 'O\\'Brien'\r\n  as the name", expectedResult: 'Name is\nsaved' }]
+    };
+
+    const spec = await new PlaywrightSkeletonGenerator().generate(testCase, "https://shop.example.com/it's");
+
+    assert.match(spec.content, /^\/\/ Generated from Azure DevOps test case 102: Customer's card with a \\ in the name$/m);
+    assert.ok(spec.content.includes(`process.env.BASE_URL || 'https://shop.example.com/it\\'s';`));
+    assert.ok(spec.content.includes(`test('Customer\\'s card with a \\\\ in the name', {`));
+    assert.ok(spec.content.includes(`await test.step('1. Enter \\'O\\\\\\'Brien\\' as the name', async () => {`));
+    assert.ok(spec.content.includes(`// Expected: Name is saved`));
+});
+
+test('a data-driven test case becomes one test per row, annotated with its iteration', async () => {
+    const testCase: TestCase = {
+        testCaseId: '103',
+        name: 'Sign in as `role` ${admin}',
+        steps: [],
+        detailedSteps: [{ action: 'Sign in as @user with @password at user@example.com', expectedResult: 'Welcome @user' }],
+        parameters: { names: ['user', 'password'], rows: [{ user: "o'brien", password: 'a`b${c}' }, { user: 'admin' }] }
+    };
+
+    const spec = await new PlaywrightSkeletonGenerator().generate(testCase, websiteUrl);
+
+    assert.ok(spec.content.includes([
+        `const ITERATIONS = [`,
+        `    { user: 'o\\'brien', password: 'a\`b\${c}' },`,
+        `    { user: 'admin', password: '' },`,
+        `];`
+    ].join('\n')));
+    assert.ok(spec.content.includes('    test(`Sign in as \\`role\\` \\${admin} [${index + 1}]`, {'));
+    assert.ok(spec.content.includes("        tag: '@TC103',"));
+    // Placeholders read the row; the e-mail address is left alone
+    assert.ok(spec.content.includes('await test.step(`1. Sign in as ${row.user} with ${row.password} at user@example.com`, async () => {'));
+    assert.ok(spec.content.includes('// Expected: Welcome @user'));
+});
+
+test('the generated annotations map results back to the test case and iteration', async () => {
+    const generator = new PlaywrightSkeletonGenerator();
+    const plain = await generator.generate({ testCaseId: '101', name: 'Pay with a card', steps: [] }, websiteUrl);
+    const dataDriven = await generator.generate({
+        testCaseId: '103',
+        name: 'Sign in',
+        steps: ['Step 1: Sign in as @user'],
+        parameters: { names: ['user'], rows: [{ user: 'a' }, { user: 'b' }] }
+    }, websiteUrl);
+
+    const results = parsePlaywrightReport({
+        suites: [{
+            title: 'generated.spec.ts',
+            specs: [
+                { title: 'Pay with a card', tags: ['@TC101'], tests: [{ annotations: annotationsOf(plain.content), status: 'expected', results: [{ status: 'passed' }] }] },
+                { title: 'Sign in [2]', tags: ['@TC103'], tests: [{ annotations: annotationsOf(dataDriven.content, 2), status: 'expected', results: [{ status: 'passed' }] }] }
+            ]
+        }]
+    });
+
+    assert.deepEqual(results.map(result => [result.annotatedTestCaseIds, result.iteration]), [[['101'], undefined], [['103'], 2]]);
+});
+
+test('stored parameter names that are not identifiers are not written into the code', async () => {
+    const testCase: TestCase = {
+        testCaseId: '104',
+        name: 'Search',
+        steps: ['Step 1: Search for @term'],
+        parameters: { names: ['term', 'x}); process.exit(1); ({y', '2nd'], rows: [{ term: 'shoes', '2nd': 'z' }] }
+    };
+
+    const spec = await new PlaywrightSkeletonGenerator().generate(testCase, websiteUrl);
+
+    assert.ok(spec.content.includes(`    { term: 'shoes' },`));
+    assert.ok(!spec.content.includes('process.exit'));
+    assert.ok(!spec.content.includes('2nd'));
+
+    // Without any valid name the test case isn't treated as data-driven
+    const invalidOnly = await new PlaywrightSkeletonGenerator().generate({ ...testCase, parameters: { names: ['a-b'], rows: [{ 'a-b': '1' }] } }, websiteUrl);
+    assert.ok(!invalidOnly.content.includes('ITERATIONS'));
+});
+
+test('AI-suggested statements are kept only when they are single page or expect statements', async () => {
+    const provider = scriptedProvider({
+        steps: [{
+            step: 1,
+            actions: ["await page.getByRole('link', { name: 'Cart' }).click()", 'require("fs").rmSync("/")', 'await page.evaluate(`alert(1)`);'],
+            assertions: ["await expect(page.getByText('Your cart')).toBeVisible();"]
+        }]
+    });
+
+    const spec = await new PlaywrightSkeletonGenerator(provider).generate({
+        testCaseId: '105',
+        name: 'Open the cart',
+        steps: ['Step 1: Open the cart - Expected: The cart is shown', 'Step 2: Pay']
+    }, websiteUrl);
+
+    assert.equal(spec.aiSuggested, true);
+    assert.ok(spec.content.includes([
+        `        // AI-suggested, verify before relying on it`,
+        `        await page.getByRole('link', { name: 'Cart' }).click();`,
+        `        // Expected: The cart is shown`,
+        `        await expect(page.getByText('Your cart')).toBeVisible();`
+    ].join('\n')));
+    assert.ok(!spec.content.includes('rmSync'));
+    assert.ok(!spec.content.includes('alert'));
+    assert.ok(spec.content.includes('// TODO: Pay'));
+});
@@ -0,0 +1,144 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { condenseTestCases, estimateTokens, parsePrdRequirements, splitPrdSections } from '../src/prdChunking';
+
+// A paragraph of exactly the given number of characters
+const paragraph = (word: string, length: number) => word.repeat(length).slice(0, length);
+
+test('a PRD that fits the budget is a single section', () => {
+    const prd = '# Shop PRD\r\n\r\nCustomers can pay with a card.\r\n';
+
+    assert.deepEqual(splitPrdSections(prd, 100), [{
+        title: 'PRD',
+        content: '# Shop PRD\n\nCustomers can pay with a card.',
+        tokens: estimateTokens('# Shop PRD\n\nCustomers can pay with a card.')
+    }]);
+    assert.deepEqual(splitPrdSections('  \n ', 100), []);
+});
+
+test('a PRD is split at its highest sub-headings and small neighbours are packed together', () => {
+    const checkout = `## 1. Checkout\n${paragraph('pay', 80)}`;
+    const search = `## 2. Search\n${paragraph('find', 80)}`;
+    const accounts = '## 3. Accounts\nSign in.';
+    const prd = ['# Shop PRD', 'Intro.', checkout, search, accounts].join('\n');
+
+    const sections = splitPrdSections(prd, 30);
+
+    assert.deepEqual(sections.map(section => section.title), ['PRD; 1. Checkout', '2. Search; 3. Accounts']);
+    assert.equal(sections[0].content, `# Shop PRD\nIntro.\n\n${checkout}`);
+    assert.equal(sections[1].content, `${search}\n\n${accounts}`);
+    sections.forEach(section => assert.ok(section.tokens <= 30));
+});
+
+test('sections too large for the budget are split at their own sub-headings', () => {
+    const prd = [
+        '# Shop PRD',
+        '## 1. Checkout',
+        '### 1.1 Cards',
+        paragraph('card', 100),
+        '### 1.2 Vouchers',
+        paragraph('voucher', 100),
+        '## 2. Search',
+        paragraph('find', 100)
+    ].join('\n');
+
+    assert.deepEqual(splitPrdSections(prd, 30).map(section => section.title), [
+        'PRD; 1. Checkout',
+        '1. Checkout > 1.1 Cards',
+        '1. Checkout > 1.2 Vouchers',
+        '2. Search'
+    ]);
+});
+
+test('a section without sub-headings is split at paragraphs, and long paragraphs are cut', () => {
+    const prd = ['# Shop PRD', paragraph('a', 50), paragraph('b', 50), paragraph('c', 300)].join('\n\n');
+
+    const sections = splitPrdSections(prd, 30);
+
+    assert.deepEqual(sections.map(section => section.title), ['PRD (part 1/4)', 'PRD (part 2/4)', 'PRD (part 3/4)', 'PRD (part 4/4)']);
+    // The heading and the first two paragraphs share a part; the long paragraph is cut at the budget
+    assert.equal(sections[0].content, `# Shop PRD\n\n${paragraph('a', 50)}\n\n${paragraph('b', 50)}`);
+    assert.deepEqual(sections.slice(1).map(section => section.content.length), [120, 120, 60]);
+    assert.equal(sections.map(section => section.content).join('').replace(/\n/g, ''), prd.replace(/\n/g, ''));
+    sections.forEach(section => assert.ok(section.tokens <= 30));
+});
+
+test('test cases are condensed to titles and step actions within the budget', () => {
+    const testCases = [
+        { workItem: { id: 101, name: 'Pay with a card' }, pointAssignments: [] },
+        { fields: { title: 'Apply a voucher' }, parsedSteps: [{ action: 'Open the cart' }, { action: '' }, { action: 'Enter SAVE10' }] },
+        { testCaseId: '103', name: 'Show the order summary', steps: ['Open the summary', 'No test steps available'] },
+        { id: 104 }
+    ];
+
+    assert.equal(condenseTestCases(testCases, 1000), [
+        '- Pay with a card',
+        '- Apply a voucher',
+        '  1. Open the cart',
+        '  2. Enter SAVE10',
+        '- Show the order summary',
+        '  1. Open the summary',
+        '- Test case 104'
+    ].join('\n'));
+});
+
+test('test cases that do not fit are listed by title, then counted', () => {
+    const steps = Array.from({ length: 10 }, (_, index) => `Step number ${index + 1} of the test case`);
+    const testCases = ['Pay with a card', 'Apply a voucher', 'Show the order summary', 'Cancel the order'].map(name => ({ name, steps }));
+
+    const condensed = condenseTestCases(testCases, 120).split('\n');
+
+    assert.equal(condensed.filter(line => line.startsWith('  1.')).length, 1);
+    assert.deepEqual(condensed.filter(line => line.startsWith('- ')), [
+        '- Pay with a card',
+        '- Apply a voucher',
+        '- Show the order summary',
+        '- Cancel the order'
+    ]);
+
+    assert.deepEqual(condenseTestCases(testCases, 12).split('\n'), ['- Pay with a card', '- Apply a voucher', '- ... and 2 more test case(s)']);
+});
+
+test('numbered headings become requirements with their parent and heading path', () => {
+    const prd = [
+        '# Playwright Testing PRD',
+        'Overview of the service.',
+        '## 2. Functional Requirements',
+        '### 2.1 Workspace Management',
+        'Users manage workspaces.',
+        '#### 2.1.1 Create Workspace',
+        'Names have 3-64 characters.',
+        '',
+        'Creation takes under a minute.',
+        '### Notes',
+        'Not a requirement.',
+        '### 2.2 Access Token Management ###',
+        '## 2. Functional Requirements'
+    ].join('\r\n');
+
+    assert.deepEqual(parsePrdRequirements(prd), [
+        { id: '2', title: 'Functional Requirements', path: '2. Functional Requirements', content: '' },
+        { id: '2.1', title: 'Workspace Management', parentId: '2', path: '2. Functional Requirements > 2.1 Workspace Management', content: 'Users manage workspaces.' },
+        {
+            id: '2.1.1',
+            title: 'Create Workspace',
+            parentId: '2.1',
+            path: '2. Functional Requirements > 2.1 Workspace Management > 2.1.1 Create Workspace',
+            content: 'Names have 3-64 characters.\n\nCreation takes under a minute.'
+        },
+        { id: '2.2', title: 'Access Token Management', parentId: '2', path: '2. Functional Requirements > 2.2 Access Token Management', content: '' },
+        // A repeated number gets a suffix
+        { id: '2-2', title: 'Functional Requirements', path: '2. Functional Requirements', content: '' }
+    ]);
+});
+
+test('PRDs without numbered headings get a requirement per heading below the title', () => {
+    const prd = ['# Shop', 'Intro.', '## Checkout', 'Pay for the cart.', '### Vouchers', 'Codes give a discount.', '## Search'].join('\n');
+
+    assert.deepEqual(parsePrdRequirements(prd), [
+        { id: 'checkout', title: 'Checkout', path: 'Checkout', content: 'Pay for the cart.' },
+        { id: 'checkout-vouchers', title: 'Vouchers', parentId: 'checkout', path: 'Checkout > Vouchers', content: 'Codes give a discount.' },
+        { id: 'search', title: 'Search', path: 'Search', content: '' }
+    ]);
+    assert.deepEqual(parsePrdRequirements('No headings at all.'), []);
+});
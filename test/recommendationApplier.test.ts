@@ -0,0 +1,118 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AzureDevOpsTestPlansClient } from '../src/AzureDevOpsTestPlansClient';
+import { TestPlanRecommendation } from '../src/AzureOpenAIService';
+import { RecommendationApplier } from '../src/recommendationApplier';
+
+type RecommendedTestCase = TestPlanRecommendation['testCases'][number];
+
+// Records the calls the applier makes; test cases titled "fail" can't be created
+function fakeClient() {
+    const created: Array<{ title: string; steps: string; priority: number; areaPath?: string }> = [];
+    const added: Array<{ planId: number; suiteId: number; ids: string[] }> = [];
+    const createdSuites: Array<{ planId: number; name: string; parentSuiteId?: number }> = [];
+    let planReads = 0;
+    const client = {
+        createTestCase: async (title: string, steps: string, priority: number, areaPath?: string) => {
+            if (title === 'fail') {
+                throw new Error('TF401320: Rule error for field Title');
+            }
+            created.push({ title, steps, priority, areaPath });
+            return { id: 1000 + created.length };
+        },
+        addTestCasesToSuite: async (planId: number, suiteId: number, ids: string[]) => {
+            added.push({ planId, suiteId, ids });
+        },
+        createStaticTestSuite: async (planId: number, name: string, parentSuiteId?: number) => {
+            createdSuites.push({ planId, name, parentSuiteId });
+            return { id: 500 + createdSuites.length };
+        },
+        getTestPlan: async (planId: number) => {
+            planReads++;
+            return { id: planId, rootSuite: { id: 77 } };
+        }
+    };
+    return { client: client as unknown as AzureDevOpsTestPlansClient, created, added, createdSuites, planReads: () => planReads };
+}
+
+function recommendation(name: string, testCases: Array<Partial<RecommendedTestCase>>): TestPlanRecommendation {
+    return {
+        name,
+        description: '',
+        objective: '',
+        testCases: testCases.map(testCase => ({
+            title: name,
+            description: '',
+            steps: ['Open the app'],
+            expectedResult: '',
+            priority: 'High',
+            testType: 'Functional',
+            ...testCase
+        })),
+        coverage: { functionalAreas: [], riskAreas: [], userScenarios: [] }
+    };
+}
+
+test('recommendation priorities map to ADO priorities 1-4, unknown ones to Medium', async () => {
+    const { client, created } = fakeClient();
+
+    await new RecommendationApplier(client).apply(1, [recommendation('Checkout', [
+        { priority: 'Critical' },
+        { priority: 'High' },
+        { priority: 'Medium' },
+        { priority: 'Low' },
+        { priority: 'Urgent' as RecommendedTestCase['priority'] }
+    ])]);
+
+    assert.deepEqual(created.map(testCase => testCase.priority), [1, 2, 3, 4, 3]);
+});
+
+test('steps are numbered lines with the expected result on the last step', async () => {
+    const { client, created } = fakeClient();
+
+    await new RecommendationApplier(client).apply(1, [recommendation('Checkout', [{
+        steps: ['Step 1: Open the cart', '2. Enter the card | expiry\r\nand CVC', '  3) Click "Pay"  '],
+        expectedResult: 'The order is\nconfirmed | paid'
+    }, {
+        steps: ['Open the cart'],
+        expectedResult: ''
+    }])]);
+
+    assert.equal(created[0].steps, [
+        '1. Open the cart',
+        '2. Enter the card expiry and CVC',
+        '3. Click "Pay"|The order is confirmed paid'
+    ].join('\n'));
+    assert.equal(created[1].steps, '1. Open the cart');
+});
+
+test('created test cases are added to the root suite, which is looked up once per plan', async () => {
+    const { client, created, added, planReads } = fakeClient();
+
+    const applied = await new RecommendationApplier(client).apply(1, [
+        recommendation('Checkout', [{ title: 'Pay with a card' }, { title: 'fail' }]),
+        recommendation('Search', [{ title: 'Find a product' }])
+    ], { areaPath: 'Shop\\Web' });
+
+    assert.equal(planReads(), 1);
+    assert.deepEqual(added, [{ planId: 1, suiteId: 77, ids: ['1001'] }, { planId: 1, suiteId: 77, ids: ['1002'] }]);
+    assert.deepEqual(applied[0].testCases, [
+        { title: 'Pay with a card', workItemId: 1001 },
+        { title: 'fail', error: 'TF401320: Rule error for field Title' }
+    ]);
+    assert.equal(applied[0].suiteCreated, false);
+    assert.equal(created[0].areaPath, 'Shop\\Web');
+});
+
+test('with createSuite every recommendation gets a static suite of its own', async () => {
+    const { client, added, createdSuites } = fakeClient();
+
+    const applied = await new RecommendationApplier(client).apply(1, [
+        recommendation('Checkout', [{}]),
+        recommendation('Search', [{}])
+    ], { createSuite: true, parentSuiteId: 9 });
+
+    assert.deepEqual(createdSuites, [{ planId: 1, name: 'Checkout', parentSuiteId: 9 }, { planId: 1, name: 'Search', parentSuiteId: 9 }]);
+    assert.deepEqual(added.map(entry => entry.suiteId), [501, 502]);
+    assert.deepEqual(applied.map(result => [result.suiteId, result.suiteCreated]), [[501, true], [502, true]]);
+});
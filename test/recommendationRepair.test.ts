@@ -0,0 +1,141 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AzureOpenAIService } from '../src/AzureOpenAIService';
+import { LlmCompletion, LlmMessage, LlmProvider } from '../src/llmProvider';
+import { validateRecommendationsReply } from '../src/recommendationSchema';
+
+const validTest = {
+    title: 'Checkout with a saved card',
+    prd_reference: '2.1 Payments',
+    reason: 'Saved cards are the main payment path',
+    missing_in_ado: true,
+    steps: ['Sign in', 'Add a product to the cart', 'Pay with the saved card']
+};
+
+function reply(tests: any[]): string {
+    return JSON.stringify({ recommended_e2e_tests: tests });
+}
+
+/**
+ * Provider that returns the scripted replies in order and records the prompts it was sent
+ */
+function scriptedProvider(replies: Array<string | LlmCompletion>): LlmProvider & { prompts: LlmMessage[][] } {
+    const prompts: LlmMessage[][] = [];
+    return {
+        kind: 'mock',
+        model: 'scripted',
+        prompts,
+        chatCompletion: async () => {
+            throw new Error('chatCompletion is not scripted');
+        },
+        structuredOutput: async (messages: LlmMessage[]) => {
+            prompts.push(messages);
+            const next = replies[prompts.length - 1];
+            assert.ok(next !== undefined, 'more model calls than scripted replies');
+            return typeof next === 'string' ? { content: next, truncated: false } : next;
+        },
+        embed: async () => {
+            throw new Error('embed is not scripted');
+        }
+    };
+}
+
+test('valid recommendations are kept and trimmed', () => {
+    const result = validateRecommendationsReply(reply([{ ...validTest, title: '  Checkout with a saved card ', steps: [' Sign in '] }]));
+
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.dropped, []);
+    assert.equal(result.recommendations[0].title, 'Checkout with a saved card');
+    assert.deepEqual(result.recommendations[0].steps, ['Sign in']);
+});
+
+test('invalid recommendations are dropped with their errors', () => {
+    const result = validateRecommendationsReply(reply([
+        validTest,
+        { ...validTest, title: 'No steps', steps: [] },
+        { title: '', prd_reference: 3, reason: 'x', missing_in_ado: 'yes', steps: ['ok', ''] },
+        'not an object'
+    ]));
+
+    assert.equal(result.recommendations.length, 1);
+    assert.deepEqual(result.dropped, [
+        { index: 1, title: 'No steps', errors: ['"steps" must be a non-empty array'] },
+        {
+            index: 2,
+            errors: [
+                '"title" must be a non-empty string',
+                '"prd_reference" must be a string',
+                '"missing_in_ado" must be a boolean',
+                '"steps[1]" must be a non-empty string'
+            ]
+        },
+        { index: 3, errors: ['must be an object'] }
+    ]);
+});
+
+test('replies in markdown code blocks are accepted, other replies are rejected as a whole', () => {
+    assert.equal(validateRecommendationsReply('```json\n' + reply([validTest]) + '\n```').recommendations.length, 1);
+
+    assert.match(validateRecommendationsReply('Here are the tests: ...').errors[0], /^Reply is not valid JSON/);
+    assert.deepEqual(validateRecommendationsReply('{"tests": []}').errors, ['Reply must be an object with a "recommended_e2e_tests" array']);
+});
+
+test('invalid replies are sent back with the problems until they are repaired', async () => {
+    const provider = scriptedProvider([
+        'Sure! Here are the tests',
+        reply([validTest, { ...validTest, title: 'Refund an order', missing_in_ado: 'true' }]),
+        reply([validTest, { ...validTest, title: 'Refund an order' }])
+    ]);
+
+    const result = await new AzureOpenAIService(provider).generateTestPlanRecommendations('# Payments\nUsers pay by card.', [], '10');
+
+    assert.equal(result.attempts, 3);
+    assert.deepEqual(result.recommendations.map(recommendation => recommendation.name), ['Checkout with a saved card', 'Refund an order']);
+    assert.deepEqual(result.dropped, []);
+    assert.equal(result.duplicateCheck.status, 'skipped');
+
+    // Only the latest reply is replayed, after the original prompt
+    const repair = provider.prompts[2];
+    assert.equal(repair.length, 4);
+    assert.deepEqual(repair.slice(0, 2), provider.prompts[0]);
+    assert.deepEqual(repair[2], { role: 'assistant', content: reply([validTest, { ...validTest, title: 'Refund an order', missing_in_ado: 'true' }]) });
+    assert.match(repair[3].content, /recommended_e2e_tests\[1\]: "missing_in_ado" must be a boolean/);
+    assert.match(provider.prompts[1][3].content, /Reply is not valid JSON/);
+});
+
+test('a truncated reply is repaired with a request for a shorter reply', async () => {
+    const provider = scriptedProvider([
+        { content: reply([validTest]).slice(0, 40), truncated: true },
+        reply([validTest])
+    ]);
+
+    const result = await new AzureOpenAIService(provider).generateTestPlanRecommendations('# Payments', [], '10');
+
+    assert.equal(result.attempts, 2);
+    assert.match(provider.prompts[1][3].content, /cut off at the token limit/);
+});
+
+test('the best reply is kept and its invalid recommendations reported once the repair attempts run out', async () => {
+    const broken = { ...validTest, title: 'Refund an order', steps: [] };
+    const provider = scriptedProvider([
+        reply([validTest, broken]),
+        reply([broken]),
+        'still not JSON'
+    ]);
+
+    const result = await new AzureOpenAIService(provider).generateTestPlanRecommendations('# Payments', [], '10');
+
+    assert.equal(result.attempts, 3);
+    assert.deepEqual(result.recommendations.map(recommendation => recommendation.name), ['Checkout with a saved card']);
+    assert.deepEqual(result.dropped, [{ index: 1, title: 'Refund an order', errors: ['"steps" must be a non-empty array'] }]);
+});
+
+test('generation fails when no reply has a valid recommendation', async () => {
+    const provider = scriptedProvider(['nope', 'nope', 'nope']);
+
+    await assert.rejects(
+        new AzureOpenAIService(provider).generateTestPlanRecommendations('# Payments', [], '10'),
+        /Failed to parse recommendations: Reply is not valid JSON/
+    );
+    assert.equal(provider.prompts.length, 3);
+});
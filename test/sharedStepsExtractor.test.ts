@@ -0,0 +1,118 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AzureDevOpsTestPlansClient } from '../src/AzureDevOpsTestPlansClient';
+import { SharedStepsExtractionError, SharedStepsExtractor } from '../src/sharedStepsExtractor';
+import { TestStepNode, createTestStep, parseTestSteps, serializeTestSteps } from '../src/testStepsXml';
+
+// Steps numbered from 2 as ADO does; `last` can be above the highest id when steps were deleted
+function stepsXml(actions: string[], last = actions.length + 1): string {
+    return serializeTestSteps({ id: 0, last, steps: actions.map((action, index) => createTestStep(index + 2, action)) });
+}
+
+// Test cases are read from `stepsById`; records the shared steps created and the steps written back
+function fakeClient(stepsById: Record<number, string>) {
+    const created: Array<{ title: string; stepsXml: string; areaPath?: string }> = [];
+    const updated: Array<{ id: number; stepsXml: string; revision: number }> = [];
+    const client = {
+        getStepsXml: async (id: number) => {
+            if (!stepsById[id]) {
+                throw new Error(`Work item ${id} does not exist`);
+            }
+            return { id, title: `Test case ${id}`, workItemType: 'Test Case', areaPath: 'Shop', stepsXml: stepsById[id], revision: id * 10 };
+        },
+        createSharedStepsFromXml: async (title: string, stepsXml: string, areaPath?: string) => {
+            created.push({ title, stepsXml, areaPath });
+            return { id: 900 };
+        },
+        updateStepsXml: async (id: number, stepsXml: string, revision: number) => {
+            updated.push({ id, stepsXml, revision });
+            return { id, rev: revision + 1 };
+        }
+    };
+    return { client: client as unknown as AzureDevOpsTestPlansClient, created, updated };
+}
+
+function summary(nodes: TestStepNode[]): Array<[number, string]> {
+    return nodes.map(node => [node.id, node.kind === 'step' ? node.action.text : `shared ${node.sharedStepsId}`]);
+}
+
+const signIn = ['Open the sign-in page', 'Enter a user name and password', 'Select Sign in'];
+
+test('the longest sequence all test cases share becomes shared steps referenced after each document\'s last id', async () => {
+    const { client, created, updated } = fakeClient({
+        1: stepsXml(['Open the shop', ...signIn, 'Open the cart']),
+        2: stepsXml([...signIn, 'Open the profile'], 9),
+        3: stepsXml(['Accept cookies', 'OPEN the  sign-in page', ...signIn.slice(1)])
+    });
+
+    const result = await new SharedStepsExtractor(client).extract({ title: 'Sign in', testCaseIds: [1, 2, 3, 2] });
+
+    assert.equal(result.sharedStepsId, 900);
+    assert.deepEqual(result.steps.map(step => step.action), signIn);
+    assert.equal(created.length, 1);
+    const shared = parseTestSteps(created[0].stepsXml);
+    assert.equal(created[0].areaPath, 'Shop');
+    assert.equal(shared.last, 4);
+    assert.deepEqual(summary(shared.steps), [[2, signIn[0]], [3, signIn[1]], [4, signIn[2]]]);
+
+    assert.deepEqual(result.testCases.map(testCase => [testCase.testCaseId, testCase.status, testCase.replacedStepIds, testCase.revision]), [
+        [1, 'updated', [3, 4, 5], 11],
+        [2, 'updated', [2, 3, 4], 21],
+        [3, 'updated', [3, 4, 5], 31]
+    ]);
+    assert.deepEqual(updated.map(update => update.revision), [10, 20, 30]);
+    const first = parseTestSteps(updated[0].stepsXml);
+    assert.equal(first.last, 7);
+    assert.deepEqual(summary(first.steps), [[2, 'Open the shop'], [7, 'shared 900'], [6, 'Open the cart']]);
+    const second = parseTestSteps(updated[1].stepsXml);
+    assert.equal(second.last, 10);
+    assert.deepEqual(summary(second.steps), [[10, 'shared 900'], [5, 'Open the profile']]);
+});
+
+test('every occurrence of the sequence in a test case is replaced', async () => {
+    const { client, updated } = fakeClient({
+        1: stepsXml([...signIn, 'Sign out', ...signIn, 'Open the cart'])
+    });
+
+    const result = await new SharedStepsExtractor(client).extract({ title: 'Sign in', testCaseIds: [1], steps: signIn.map(action => ({ action })) });
+
+    assert.deepEqual(result.testCases[0].replacedStepIds, [2, 3, 4, 6, 7, 8]);
+    const document = parseTestSteps(updated[0].stepsXml);
+    assert.equal(document.last, 11);
+    assert.deepEqual(summary(document.steps), [[10, 'shared 900'], [5, 'Sign out'], [11, 'shared 900'], [9, 'Open the cart']]);
+});
+
+test('a dry run reports the test cases it would update without creating or updating work items', async () => {
+    const { client, created, updated } = fakeClient({
+        1: stepsXml(['Open the shop', ...signIn]),
+        2: stepsXml(['Open the shop', 'Search for a product'])
+    });
+
+    const result = await new SharedStepsExtractor(client).extract({ title: 'Sign in', testCaseIds: [1, 2, 3], steps: signIn.map(action => ({ action })), dryRun: true });
+
+    assert.equal(result.dryRun, true);
+    assert.equal(result.sharedStepsId, undefined);
+    assert.deepEqual(result.steps.map(step => step.action), signIn);
+    assert.deepEqual(result.testCases.map(testCase => [testCase.testCaseId, testCase.status, testCase.replacedStepIds]), [
+        [1, 'would-update', [3, 4, 5]],
+        [2, 'sequence-not-found', undefined],
+        [3, 'failed', undefined]
+    ]);
+    assert.equal(created.length, 0);
+    assert.equal(updated.length, 0);
+});
+
+test('test cases without a long enough sequence in common are rejected', async () => {
+    const { client, created } = fakeClient({
+        1: stepsXml(['Open the shop', ...signIn]),
+        2: stepsXml(['Open the shop', 'Search for a product'])
+    });
+    const extractor = new SharedStepsExtractor(client);
+
+    await assert.rejects(extractor.extract({ title: 'Sign in', testCaseIds: [1, 2] }), (error: unknown) =>
+        error instanceof SharedStepsExtractionError && error.statusCode === 422);
+    // A single common step is enough once the minimum allows it
+    const result = await extractor.extract({ title: 'Shop', testCaseIds: [1, 2], minLength: 1, dryRun: true });
+    assert.deepEqual(result.steps.map(step => step.action), ['Open the shop']);
+    assert.equal(created.length, 0);
+});
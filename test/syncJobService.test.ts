@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as delay } from 'timers/promises';
+import { AzureDevOpsTestPlansClient } from '../src/AzureDevOpsTestPlansClient';
+import { CosmosService, SyncJob } from '../src/cosmosService';
+import { InMemoryDocumentStore } from '../src/documentStore';
+import { SyncJobService } from '../src/syncJobService';
+
+const resourceId = 'resource-1';
+
+// An ADO client serving two plans with one suite each; plans listed in failingPlanIds fail to load
+function fakeClient(failingPlanIds: number[] = []) {
+    const fetchedPlanIds: number[] = [];
+    const client = {
+        getAllTestPlans: async () => [
+            { id: 1, name: 'Release 1', revision: 4 },
+            { id: 2, name: 'Release 2', revision: 7 }
+        ],
+        getTestPlanWithSuitesAndTestCases: async (planId: number) => {
+            fetchedPlanIds.push(planId);
+            if (failingPlanIds.includes(planId)) {
+                throw new Error(`Plan ${planId} could not be read`);
+            }
+            return {
+                suites: [{
+                    id: planId * 10,
+                    name: 'Checkout',
+                    revision: 3,
+                    testCases: [{ id: planId * 100, fields: { title: `Test case of plan ${planId}` } }]
+                }]
+            };
+        }
+    };
+    return { client: client as unknown as AzureDevOpsTestPlansClient, fetchedPlanIds };
+}
+
+async function storageWithJob(job: Partial<SyncJob>): Promise<CosmosService> {
+    const storage = new CosmosService(new InMemoryDocumentStore());
+    await storage.initialize();
+    await storage.saveConnection({ resourceId, connectionId: 'c1', github_url: '', prd: '', ado_url: '', website_url: '' });
+    await storage.saveSyncJob({
+        resourceId,
+        jobId: 'job-1',
+        mode: 'full',
+        status: 'queued',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        progress: { plansTotal: 0, plansProcessed: 0, suitesProcessed: 0, testCasesProcessed: 0, completedPlanIds: [], failures: [] },
+        ...job
+    });
+    return storage;
+}
+
+async function waitForJob(storage: CosmosService): Promise<SyncJob> {
+    for (let attempt = 0; attempt < 200; attempt++) {
+        const job = await storage.getSyncJob(resourceId, 'job-1');
+        if (job && job.status !== 'queued' && job.status !== 'running') {
+            return job;
+        }
+        await delay(10);
+    }
+    throw new Error('Sync job did not finish');
+}
+
+test('an interrupted job is resumed after the plans it already completed', async () => {
+    const storage = await storageWithJob({
+        status: 'running',
+        startedAt: '2026-01-01T00:00:01.000Z',
+        resumeCount: 1,
+        progress: { plansTotal: 2, plansProcessed: 1, suitesProcessed: 1, testCasesProcessed: 1, completedPlanIds: [1], failures: [] }
+    });
+    const { client, fetchedPlanIds } = fakeClient();
+
+    await new SyncJobService(storage, client).recover();
+    const job = await waitForJob(storage);
+
+    assert.equal(job.status, 'completed');
+    assert.equal(job.resumeCount, 2);
+    assert.deepEqual(fetchedPlanIds, [2]);
+    assert.deepEqual(job.result, { plans: 2, suites: 2, testCases: 2 });
+    assert.deepEqual((await storage.getTestCases(resourceId, '2-20')).map(testCase => testCase.testCaseId), ['200']);
+
+    // Nothing failed, so the sync becomes the baseline for delta syncs
+    const watermark = await storage.getSyncWatermark(resourceId);
+    assert.equal(watermark?.lastSyncedAt, '2026-01-01T00:00:01.000Z');
+    assert.deepEqual(watermark?.planRevisions, { 1: 4, 2: 7 });
+    assert.deepEqual(watermark?.suiteRevisions, { '2-20': 3 });
+});
+
+test('a job interrupted more than MAX_RESUMES times is marked failed', async () => {
+    const storage = await storageWithJob({ status: 'running', resumeCount: 3 });
+    const { client, fetchedPlanIds } = fakeClient();
+
+    await new SyncJobService(storage, client).recover();
+    const job = await waitForJob(storage);
+
+    assert.equal(job.status, 'failed');
+    assert.match(job.error || '', /interrupted/);
+    assert.deepEqual(fetchedPlanIds, []);
+    assert.equal(await storage.getSyncWatermark(resourceId), null);
+});
+
+test('a queued job is run, and no watermark is written when a plan failed', async () => {
+    const storage = await storageWithJob({});
+    const { client, fetchedPlanIds } = fakeClient([2]);
+
+    await new SyncJobService(storage, client).recover();
+    const job = await waitForJob(storage);
+
+    assert.equal(job.status, 'completed');
+    assert.deepEqual(fetchedPlanIds, [1, 2]);
+    assert.deepEqual(job.progress.completedPlanIds, [1]);
+    assert.deepEqual(job.progress.failures.map(failure => [failure.planId, failure.message]), [[2, 'Plan 2 could not be read']]);
+    assert.equal(await storage.getSyncWatermark(resourceId), null);
+});
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    buildLocalDataSourceXml,
+    buildParametersXml,
+    buildSharedParameterReference,
+    buildSharedParameterSetXml,
+    parseLocalDataSource,
+    parseParametersXml,
+    parseSharedParameterSetXml
+} from '../src/testParameters';
+
+const names = ['user', 'comment'];
+const rows = [
+    { user: 'alice', comment: 'Tom & Jerry <friends> say "hi" & it\'s fine' },
+    { user: 'bob', comment: '' }
+];
+
+test('local data source rows survive a build and parse round trip', () => {
+    const xml = buildLocalDataSourceXml(names, rows);
+
+    assert.match(xml, /<comment>Tom &amp; Jerry &lt;friends&gt;/);
+    assert.deepEqual(parseLocalDataSource(xml), { rows });
+});
+
+test('local data source values decode numeric character references', () => {
+    const xml = '<NewDataSet><Table1><user>Ren&#233;e</user><comment>it&#x27;s &amp;#60; &#60;</comment></Table1></NewDataSet>';
+
+    assert.deepEqual(parseLocalDataSource(xml).rows, [{ user: 'Renée', comment: "it's &#60; <" }]);
+});
+
+test('a shared parameter reference is read back with its set id and renamed parameters', () => {
+    const reference = buildSharedParameterReference(42, names, { comment: 'note' });
+
+    assert.deepEqual(parseLocalDataSource(reference), { rows: [], sharedParameterSetId: 42, parameterMap: { comment: 'note' } });
+});
+
+test('shared parameter sets survive a build and parse round trip', () => {
+    const xml = buildSharedParameterSetXml(names, rows);
+
+    assert.match(xml, /<paramData lastId="2">/);
+    assert.deepEqual(parseSharedParameterSetXml(xml), { names, rows });
+});
+
+test('shared parameter set values decode numeric character references', () => {
+    const xml = '<parameterSet><paramNames><param>user</param></paramNames>'
+        + '<paramData lastId="1"><dataRow id="1"><kvp key="user" value="Ren&#xE9;e &#x27;&#34;&amp;amp;"/></dataRow></paramData></parameterSet>';
+
+    assert.deepEqual(parseSharedParameterSetXml(xml), { names: ['user'], rows: [{ user: 'Renée \'"&amp;' }] });
+});
+
+test('parameter names survive a build and parse round trip', () => {
+    assert.deepEqual(parseParametersXml(buildParametersXml(names)), names);
+    assert.deepEqual(parseParametersXml(undefined), []);
+});
@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+    detectReportFormat,
+    parseJUnitReport,
+    parsePlaywrightReport,
+    testCaseIdsFromTags
+} from '../src/testReportParsers';
+
+const fixtures = path.join(__dirname, 'fixtures', 'reports');
+
+function fixture(name: string): string {
+    return readFileSync(path.join(fixtures, name), 'utf8');
+}
+
+test('Playwright outcomes come from the test status', () => {
+    const results = parsePlaywrightReport(fixture('playwright.json'));
+
+    assert.deepEqual(results.map(result => [result.title, result.outcome]), [
+        ['pays with a card @TC1201', 'Passed'],
+        // test.fail(): failing was expected
+        ['rejects an expired card', 'Passed'],
+        // Passed on the retry
+        ['applies a voucher', 'Passed'],
+        ['shows the order summary', 'Failed'],
+        ['pays with a gift card', 'Skipped']
+    ]);
+});
+
+test('Playwright errors are only reported for failed tests', () => {
+    const results = parsePlaywrightReport(fixture('playwright.json'));
+
+    assert.equal(results[1].errorMessage, undefined);
+    assert.equal(results[2].errorMessage, undefined);
+    assert.equal(results[3].errorMessage, 'Error: locator.click: Timeout 5000ms exceeded.');
+});
+
+test('Playwright results carry title path, ids, tags, iteration and the last attempt', () => {
+    const [card, , voucher, summary] = parsePlaywrightReport(JSON.parse(fixture('playwright.json')));
+
+    assert.equal(card.fullTitle, 'Checkout › pays with a card @TC1201');
+    assert.equal(card.file, 'checkout.spec.ts');
+    assert.deepEqual(card.annotatedTestCaseIds, ['1201', '1202']);
+    assert.deepEqual(card.tags, ['@smoke', '@TC1201']);
+    assert.equal(card.iteration, 2);
+    assert.deepEqual(card.attachments, ['trace']);
+
+    assert.equal(voucher.durationMs, 2100);
+    assert.equal(voucher.iteration, undefined);
+
+    assert.deepEqual(summary.annotatedTestCaseIds, ['1205']);
+    assert.deepEqual(summary.tags, ['@regression']);
+    assert.deepEqual(summary.attachments, ['screenshot']);
+});
+
+test('Playwright tests without a status fall back to the last attempt', () => {
+    const attempt = (status: string) => parsePlaywrightReport({
+        suites: [{ title: 'a.spec.ts', specs: [{ title: 'a', tests: [{ results: [{ status }] }] }] }]
+    })[0].outcome;
+
+    assert.equal(attempt('passed'), 'Passed');
+    assert.equal(attempt('skipped'), 'Skipped');
+    assert.equal(attempt('failed'), 'Failed');
+    assert.equal(attempt('timedOut'), 'Failed');
+    assert.equal(attempt('interrupted'), 'Failed');
+});
+
+test('a Playwright report without suites is rejected', () => {
+    assert.throws(() => parsePlaywrightReport({ tests: [] }), /expected a "suites" array/);
+});
+
+test('JUnit test cases are parsed with outcomes, errors and properties', () => {
+    const results = parseJUnitReport(fixture('junit.xml'));
+
+    assert.deepEqual(results.map(result => [result.fullTitle, result.outcome, result.durationMs]), [
+        ['login.spec.ts › signs in @TC1301', 'Passed', 1250],
+        ['login.spec.ts › rejects a wrong password', 'Failed', 800],
+        ['login.spec.ts › locks the account', 'Failed', 2150],
+        ['login.spec.ts › signs in with SSO', 'Skipped', 0]
+    ]);
+
+    const [signIn, wrongPassword, locked] = results;
+    assert.deepEqual(signIn.annotatedTestCaseIds, ['1301', '1302']);
+    assert.equal(signIn.iteration, 3);
+    assert.deepEqual(signIn.tags, ['@TC1301']);
+    assert.deepEqual(signIn.attachments, ['test-results/login-signs-in/trace.zip']);
+    assert.equal(signIn.errorMessage, undefined);
+
+    assert.equal(wrongPassword.errorMessage, 'expect(received).toBe("Invalid password")');
+    assert.deepEqual(wrongPassword.tags, ['@regression']);
+    assert.equal(locked.errorMessage, 'Error: page.goto: net::ERR_CONNECTION_REFUSED');
+});
+
+test('a JUnit report without test cases is rejected', () => {
+    assert.throws(() => parseJUnitReport('<testsuites></testsuites>'), /no <testcase> elements/);
+});
+
+test('the report format is detected from the content type or the payload', () => {
+    assert.equal(detectReportFormat('application/xml', {}), 'junit');
+    assert.equal(detectReportFormat(undefined, '  <testsuites/>'), 'junit');
+    assert.equal(detectReportFormat(undefined, '{"suites":[]}'), 'playwright');
+    assert.equal(detectReportFormat('application/json', { suites: [] }), 'playwright');
+    assert.equal(detectReportFormat('application/json', { results: [] }), undefined);
+});
+
+test('test case ids are read from tags', () => {
+    assert.deepEqual(testCaseIdsFromTags(['@TC123', '@tc-45', '@678', '@smoke', 'TC_9']), ['123', '45', '678', '9']);
+});
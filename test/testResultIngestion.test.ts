@@ -0,0 +1,134 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AzureDevOpsTestPlansClient, TestPointOutcome } from '../src/AzureDevOpsTestPlansClient';
+import { CosmosService, TestCase } from '../src/cosmosService';
+import { InMemoryDocumentStore } from '../src/documentStore';
+import { TestResultIngestionService } from '../src/testResultIngestion';
+
+const resourceId = 'resource-1';
+
+async function storageWith(testCases: TestCase[]): Promise<CosmosService> {
+    const storage = new CosmosService(new InMemoryDocumentStore());
+    await storage.initialize();
+    await storage.saveTestSuites(resourceId, [{ resourceId, name: 'Checkout', testCaseId: '10-20', testCases }]);
+    return storage;
+}
+
+function playwrightReport(specs: Array<{ title: string; status: string; annotations?: any[]; tags?: string[]; error?: string }>) {
+    return {
+        suites: [{
+            title: 'checkout.spec.ts',
+            specs: specs.map(spec => ({
+                title: spec.title,
+                tags: spec.tags || [],
+                tests: [{
+                    annotations: spec.annotations || [],
+                    status: spec.status,
+                    results: [{ status: spec.status === 'unexpected' ? 'failed' : 'passed', duration: 100, error: spec.error && { message: spec.error } }]
+                }]
+            }))
+        }]
+    };
+}
+
+test('results are matched by annotation, then tag, then title', async () => {
+    const storage = await storageWith([
+        { testCaseId: '101', name: 'Pay with a card', steps: [] },
+        { testCaseId: '102', name: 'Apply a voucher', steps: [] },
+        { testCaseId: '103', name: 'Show the order summary', steps: [] }
+    ]);
+
+    const report = await new TestResultIngestionService(storage).ingest(resourceId, 'playwright', playwrightReport([
+        // The annotation wins over a title that matches another test case
+        { title: 'Apply a voucher', status: 'expected', annotations: [{ type: 'TestCaseId', description: '101' }] },
+        { title: 'voucher codes', status: 'expected', tags: ['@TC102'] },
+        { title: '  show the ORDER summary @smoke', status: 'expected' },
+        { title: 'something else', status: 'unexpected', error: 'boom' }
+    ]), {});
+
+    assert.deepEqual(report.matched.map(entry => [entry.testCaseId, entry.matchedBy]), [['101', 'annotation'], ['102', 'tag'], ['103', 'title']]);
+    assert.deepEqual(report.unmatched, [{ title: 'something else', outcome: 'Failed', errorMessage: 'boom' }]);
+    assert.deepEqual(report.summary, { total: 4, passed: 3, failed: 1, skipped: 0, matched: 3, unmatched: 1 });
+
+    const stored = await storage.getTestCase(resourceId, '10-20', '101');
+    assert.equal(stored?.lastResult?.outcome, 'Passed');
+    assert.equal(stored?.lastResult?.reportId, report.reportId);
+    assert.deepEqual(await storage.getTestResultReport(resourceId, report.reportId), report);
+});
+
+test('the most severe result is kept when several results match one test case', async () => {
+    const storage = await storageWith([{ testCaseId: '101', name: 'Pay with a card', steps: [] }]);
+
+    const report = await new TestResultIngestionService(storage).ingest(resourceId, 'playwright', playwrightReport([
+        { title: 'Pay with a card', status: 'skipped' },
+        { title: 'card on mobile @TC101', status: 'unexpected', error: 'timeout' },
+        { title: 'card on desktop @TC101', status: 'expected' }
+    ]));
+
+    assert.equal(report.matched.length, 1);
+    assert.equal(report.matched[0].outcome, 'Failed');
+    assert.equal(report.matched[0].title, 'card on mobile @TC101');
+});
+
+test('failures are counted until the test case passes again, and skips leave the count alone', async () => {
+    const storage = await storageWith([{ testCaseId: '101', name: 'Pay with a card', steps: [] }]);
+    const service = new TestResultIngestionService(storage);
+    const run = async (status: string) => {
+        await service.ingest(resourceId, 'playwright', playwrightReport([{ title: 'Pay with a card', status }]));
+        return (await storage.getTestCase(resourceId, '10-20', '101'))?.consecutiveFailures;
+    };
+
+    assert.equal(await run('unexpected'), 1);
+    assert.equal(await run('unexpected'), 2);
+    assert.equal(await run('skipped'), 2);
+    assert.equal(await run('expected'), 0);
+});
+
+test('data rows of a parameterized test case are recorded as iterations', async () => {
+    const storage = await storageWith([{ testCaseId: '101', name: 'Sign in', steps: [] }]);
+    const xml = `<testsuites><testsuite name="login.spec.ts">
+<testcase name="Sign in [2]" classname="login.spec.ts" time="0.5"><properties><property name="iteration" value="2"/></properties><failure message="wrong password"/></testcase>
+<testcase name="Sign in [1]" classname="login.spec.ts" time="0.4"><properties><property name="iteration" value="1"/></properties></testcase>
+</testsuite></testsuites>`;
+
+    const report = await new TestResultIngestionService(storage).ingest(resourceId, 'junit', xml);
+
+    assert.equal(report.matched.length, 1);
+    assert.equal(report.matched[0].matchedBy, 'title');
+    assert.equal(report.matched[0].outcome, 'Failed');
+    assert.deepEqual(report.matched[0].iterations, [
+        { iteration: 1, outcome: 'Passed', durationMs: 400 },
+        { iteration: 2, outcome: 'Failed', durationMs: 500, errorMessage: 'wrong password' }
+    ]);
+});
+
+test('matched results are published to ADO as one run per plan', async () => {
+    const storage = await storageWith([
+        { testCaseId: '101', name: 'Pay with a card', steps: [] },
+        { testCaseId: '102', name: 'Apply a voucher', steps: [] }
+    ]);
+    const recorded: TestPointOutcome[] = [];
+    const adoClient = {
+        getTestPoints: async () => [{ id: 1, testCaseId: 101 }, { id: 2, testCaseId: 101 }, { id: 3, testCaseId: 102 }],
+        createTestRun: async (planId: number, name: string, pointIds: number[]) => {
+            assert.deepEqual([planId, name, pointIds], [10, 'Nightly', [1, 2, 3]]);
+            return { id: 77 };
+        },
+        recordTestRunOutcomes: async (runId: number, outcomes: TestPointOutcome[]) => {
+            recorded.push(...outcomes);
+        },
+        completeTestRun: async () => undefined
+    } as unknown as AzureDevOpsTestPlansClient;
+
+    const report = await new TestResultIngestionService(storage).ingest(resourceId, 'playwright', playwrightReport([
+        { title: 'Pay with a card', status: 'unexpected', error: 'declined' },
+        { title: 'Apply a voucher', status: 'skipped' }
+    ]), { adoClient, runName: 'Nightly' });
+
+    assert.deepEqual(report.adoRunIds, [77]);
+    assert.deepEqual(recorded.map(outcome => [outcome.pointId, outcome.outcome, outcome.errorMessage]), [
+        [1, 'Failed', 'declined'],
+        [2, 'Failed', 'declined'],
+        [3, 'NotApplicable', undefined]
+    ]);
+});
@@ -0,0 +1,129 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync } from 'fs';
+import path from 'path';
+import {
+    applyStepAttachments,
+    createTestStep,
+    flattenTestSteps,
+    parseTestSteps,
+    serializeTestSteps,
+    TestStep
+} from '../src/testStepsXml';
+
+const fixtures = path.join(__dirname, 'fixtures', 'steps');
+
+function fixture(name: string): string {
+    return readFileSync(path.join(fixtures, name), 'utf8');
+}
+
+for (const name of readdirSync(fixtures).filter(file => file.endsWith('.xml'))) {
+    test(`${name} is written back unchanged`, () => {
+        const xml = fixture(name);
+        assert.equal(serializeTestSteps(parseTestSteps(xml)), xml);
+    });
+}
+
+test('basic steps are parsed into action and expected result text', () => {
+    const document = parseTestSteps(fixture('basic.xml'));
+    const steps = document.steps as TestStep[];
+
+    assert.equal(document.last, 4);
+    assert.deepEqual(steps.map(step => [step.id, step.type]), [[2, 'ActionStep'], [3, 'ValidateStep'], [4, 'ValidateStep']]);
+    assert.equal(steps[0].action.text, 'Open the sign-in page');
+    assert.equal(steps[0].expectedResult.text, '');
+    assert.equal(steps[1].action.html, '<DIV><P>Enter a valid user name and password and select <B>Sign in</B></P></DIV>');
+    assert.equal(steps[1].action.text, 'Enter a valid user name and password and select Sign in');
+    assert.equal(steps[2].action.text, 'Select "Sign out"');
+    assert.equal(steps[2].expectedResult.text, 'The sign-in page is shown again');
+    assert.equal(steps[2].description, '');
+});
+
+test('steps inside shared step references are kept nested and flattened in execution order', () => {
+    const document = parseTestSteps(fixture('shared-steps.xml'));
+
+    assert.equal(document.steps.length, 2);
+    const reference = document.steps[1];
+    assert.equal(reference.kind, 'sharedSteps');
+    assert.equal(reference.kind === 'sharedSteps' && reference.sharedStepsId, 1254);
+
+    assert.deepEqual(
+        flattenTestSteps(document.steps).map(node => `${node.kind}:${node.id}`),
+        ['step:2', 'sharedSteps:3', 'step:4', 'sharedSteps:5', 'step:6', 'step:7']
+    );
+});
+
+test('parameters and unformatted strings are read', () => {
+    const steps = parseTestSteps(fixture('parameters.xml')).steps as TestStep[];
+
+    assert.deepEqual(steps[0].parameters, ['user', 'password']);
+    assert.deepEqual(steps[1].parameters, ['user']);
+    assert.equal(steps[1].action.formatted, false);
+    assert.equal(steps[1].action.html, 'Open the profile of @user');
+    assert.equal(steps[1].expectedResult.text, '');
+});
+
+test('lists, links and line breaks become lines of text', () => {
+    const steps = parseTestSteps(fixture('rich-formatting.xml')).steps as TestStep[];
+
+    assert.equal(steps[0].action.text, 'Fill in the form:\nName: Jane Doe\nEmail: jane@example.com\nSee the spec & the mock-up');
+    assert.equal(steps[0].expectedResult.text, 'The form is saved\nA confirmation mail is sent');
+});
+
+test('scripts, event handlers and javascript: links are removed from step HTML', () => {
+    const xml = '<steps id="0" last="2"><step id="2" type="ActionStep">'
+        + '<parameterizedString isformatted="true">&lt;P onclick="steal()"&gt;Open &lt;A href="javascript:alert(1)"&gt;the page&lt;/A&gt;&lt;script&gt;alert(1)&lt;/script&gt;&lt;/P&gt;</parameterizedString>'
+        + '<parameterizedString isformatted="true"/><description/></step></steps>';
+    const step = parseTestSteps(xml).steps[0] as TestStep;
+
+    assert.equal(step.action.html, '<P>Open <A>the page</A></P>');
+    assert.equal(step.action.text, 'Open the page');
+});
+
+test('an empty steps field is written back empty', () => {
+    assert.deepEqual(parseTestSteps(''), { id: 0, last: 0, steps: [] });
+    assert.equal(serializeTestSteps(parseTestSteps('')), '');
+});
+
+test('malformed steps XML is rejected', () => {
+    assert.throws(() => parseTestSteps('<steps id="0" last="2"><step id="2" type="ActionStep"></steps>'), /does not close/);
+    assert.throws(() => parseTestSteps('<steps id="0" last="2"><step id="2" type="ActionStep">'), /is not closed/);
+    assert.throws(() => parseTestSteps('<step id="2" type="ActionStep"></step>'), /<steps> root element/);
+});
+
+test('created steps are escaped and get the next ids', () => {
+    const document = parseTestSteps(fixture('basic.xml'));
+    document.steps.push(createTestStep(document.last + 1, 'Open <settings> & check @user', 'Line one\nLine two'));
+
+    const xml = serializeTestSteps(document);
+    assert.ok(xml.startsWith('<steps id="0" last="5">'));
+    assert.ok(xml.endsWith('<step id="5" type="ValidateStep">'
+        + '<parameterizedString isformatted="true">Open &amp;lt;settings&amp;gt; &amp;amp; check @user</parameterizedString>'
+        + '<parameterizedString isformatted="true">Line one&lt;BR/&gt;Line two</parameterizedString>'
+        + '<description/></step></steps>'));
+
+    const created = parseTestSteps(xml).steps[3] as TestStep;
+    assert.equal(created.action.text, 'Open <settings> & check @user');
+    assert.equal(created.expectedResult.text, 'Line one\nLine two');
+    assert.deepEqual(created.parameters, ['user']);
+});
+
+test('step attachments are added to the steps they belong to, including shared steps', () => {
+    const document = parseTestSteps(fixture('shared-steps.xml'));
+    applyStepAttachments(document.steps, [
+        { rel: 'AttachedFile', url: 'https://dev.azure.com/org/_apis/wit/attachments/1', attributes: { name: 'cart.png', comment: '[TestStep=4]: Cart after adding' } },
+        { rel: 'AttachedFile', url: 'https://dev.azure.com/org/_apis/wit/attachments/2', attributes: { comment: '[TestStep=7]:' } },
+        { rel: 'AttachedFile', url: 'https://dev.azure.com/org/_apis/wit/attachments/3', attributes: { name: 'spec.pdf' } },
+        { rel: 'Hyperlink', url: 'https://example.com', attributes: { comment: '[TestStep=2]:' } }
+    ]);
+
+    const attachments = Object.fromEntries(flattenTestSteps(document.steps)
+        .filter((node): node is TestStep => node.kind === 'step')
+        .map(step => [step.id, step.attachments]));
+    assert.deepEqual(attachments, {
+        2: [],
+        4: [{ name: 'cart.png', url: 'https://dev.azure.com/org/_apis/wit/attachments/1', comment: 'Cart after adding' }],
+        6: [],
+        7: [{ name: '2', url: 'https://dev.azure.com/org/_apis/wit/attachments/2' }]
+    });
+});